@@ -0,0 +1,50 @@
+-- Written to also apply on databases created before these migrations existed
+-- (the hosted Supabase project), hence IF NOT EXISTS throughout.
+CREATE TABLE IF NOT EXISTS "alert_deliveries" (
+	"key" text PRIMARY KEY NOT NULL,
+	"initiative_id" text NOT NULL,
+	"kind" text NOT NULL,
+	"message" text NOT NULL,
+	"fired_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "country_snapshots" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"initiative_id" text DEFAULT '045' NOT NULL,
+	"country_code" text NOT NULL,
+	"signature_count" integer NOT NULL,
+	"change_amount" integer DEFAULT 0 NOT NULL,
+	"timestamp" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "goal_settings" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"initiative_id" text NOT NULL,
+	"goal" integer NOT NULL,
+	"effective_from" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "signature_snapshots" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"initiative_id" text DEFAULT '045' NOT NULL,
+	"timestamp" timestamp with time zone DEFAULT now() NOT NULL,
+	"signature_count" integer NOT NULL,
+	"change_amount" integer DEFAULT 0 NOT NULL,
+	"goal" integer NOT NULL,
+	"official_goal" integer,
+	"goal_override" integer
+);
+--> statement-breakpoint
+ALTER TABLE "signature_snapshots" ADD COLUMN IF NOT EXISTS "initiative_id" text DEFAULT '045' NOT NULL;--> statement-breakpoint
+ALTER TABLE "signature_snapshots" ADD COLUMN IF NOT EXISTS "official_goal" integer;--> statement-breakpoint
+ALTER TABLE "signature_snapshots" ADD COLUMN IF NOT EXISTS "goal_override" integer;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "country_snapshots_initiative_timestamp_idx" ON "country_snapshots" USING btree ("initiative_id","timestamp");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "goal_settings_initiative_effective_idx" ON "goal_settings" USING btree ("initiative_id","effective_from");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "signature_snapshots_initiative_timestamp_idx" ON "signature_snapshots" USING btree ("initiative_id","timestamp");--> statement-breakpoint
+-- Keep the old hardcoded 1,500,000 override for everything recorded so far
+INSERT INTO "goal_settings" ("initiative_id", "goal", "effective_from")
+SELECT '045', 1500000, '1970-01-01T00:00:00Z'
+WHERE NOT EXISTS (SELECT 1 FROM "goal_settings" WHERE "initiative_id" = '045');--> statement-breakpoint
+-- Rows recorded before the split only ever stored the override
+UPDATE "signature_snapshots" SET "goal_override" = "goal" WHERE "goal_override" IS NULL AND "official_goal" IS NULL;
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS "posts" CASCADE;--> statement-breakpoint
+DROP TABLE IF EXISTS "users" CASCADE;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "signature_snapshots" ADD COLUMN "gap_started_at" timestamp with time zone;
\ No newline at end of file
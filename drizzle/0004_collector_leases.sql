@@ -0,0 +1,6 @@
+CREATE TABLE "collector_leases" (
+	"name" text PRIMARY KEY NOT NULL,
+	"holder" text NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"renewed_at" timestamp with time zone DEFAULT now() NOT NULL
+);
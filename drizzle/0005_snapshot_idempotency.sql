@@ -0,0 +1,2 @@
+ALTER TABLE "signature_snapshots" ADD COLUMN "idempotency_key" text;--> statement-breakpoint
+ALTER TABLE "signature_snapshots" ADD CONSTRAINT "signature_snapshots_idempotency_key_unique" UNIQUE("idempotency_key");
\ No newline at end of file
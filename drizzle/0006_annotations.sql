@@ -0,0 +1,10 @@
+CREATE TABLE "annotations" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"initiative_id" text NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"label" text NOT NULL,
+	"url" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "annotations_initiative_timestamp_idx" ON "annotations" USING btree ("initiative_id","timestamp");
\ No newline at end of file
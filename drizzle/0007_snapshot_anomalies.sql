@@ -0,0 +1 @@
+ALTER TABLE "signature_snapshots" ADD COLUMN "anomaly" text;
\ No newline at end of file
@@ -0,0 +1,45 @@
+CREATE TABLE "signature_rollups_day" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"initiative_id" text NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"signatures_added" integer NOT NULL,
+	"gap_signatures" integer DEFAULT 0 NOT NULL,
+	"gap_started_at" timestamp with time zone,
+	"closing_total" integer NOT NULL,
+	"samples" integer NOT NULL,
+	"goal" integer NOT NULL,
+	"official_goal" integer,
+	"goal_override" integer
+);
+--> statement-breakpoint
+CREATE TABLE "signature_rollups_hour" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"initiative_id" text NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"signatures_added" integer NOT NULL,
+	"gap_signatures" integer DEFAULT 0 NOT NULL,
+	"gap_started_at" timestamp with time zone,
+	"closing_total" integer NOT NULL,
+	"samples" integer NOT NULL,
+	"goal" integer NOT NULL,
+	"official_goal" integer,
+	"goal_override" integer
+);
+--> statement-breakpoint
+CREATE TABLE "signature_rollups_minute" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"initiative_id" text NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"signatures_added" integer NOT NULL,
+	"gap_signatures" integer DEFAULT 0 NOT NULL,
+	"gap_started_at" timestamp with time zone,
+	"closing_total" integer NOT NULL,
+	"samples" integer NOT NULL,
+	"goal" integer NOT NULL,
+	"official_goal" integer,
+	"goal_override" integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "signature_rollups_day_initiative_timestamp_idx" ON "signature_rollups_day" USING btree ("initiative_id","timestamp");--> statement-breakpoint
+CREATE UNIQUE INDEX "signature_rollups_hour_initiative_timestamp_idx" ON "signature_rollups_hour" USING btree ("initiative_id","timestamp");--> statement-breakpoint
+CREATE UNIQUE INDEX "signature_rollups_minute_initiative_timestamp_idx" ON "signature_rollups_minute" USING btree ("initiative_id","timestamp");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "admin_audit_log" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"timestamp" timestamp with time zone DEFAULT now() NOT NULL,
+	"actor" text NOT NULL,
+	"address" text,
+	"action" text NOT NULL,
+	"initiative_id" text,
+	"details" jsonb
+);
+--> statement-breakpoint
+CREATE INDEX "admin_audit_log_timestamp_idx" ON "admin_audit_log" USING btree ("timestamp");
\ No newline at end of file
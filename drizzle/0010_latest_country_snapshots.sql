@@ -0,0 +1,2 @@
+CREATE INDEX "country_snapshots_initiative_country_timestamp_idx" ON "country_snapshots" USING btree ("initiative_id","country_code","timestamp");--> statement-breakpoint
+CREATE VIEW "public"."latest_country_snapshots" AS (select distinct on ("country_snapshots"."initiative_id", "country_snapshots"."country_code") "id", "initiative_id", "country_code", "signature_count", "change_amount", "timestamp" from "country_snapshots" order by "country_snapshots"."initiative_id", "country_snapshots"."country_code", "country_snapshots"."timestamp" desc, "country_snapshots"."id" desc);
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE "monitor_settings" (
+	"name" text PRIMARY KEY NOT NULL,
+	"paused" boolean DEFAULT false NOT NULL,
+	"interval_ms" integer,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
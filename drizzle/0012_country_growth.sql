@@ -0,0 +1,10 @@
+-- Signatures each country gained since a point in time, summed in the database so the
+-- Supabase store gets one row per country instead of every country snapshot (src/routes/api/countries)
+CREATE FUNCTION "public"."country_growth_since"("p_initiative_id" text, "p_since" timestamp with time zone)
+RETURNS TABLE ("country_code" text, "signatures_added" bigint)
+LANGUAGE sql STABLE AS $$
+	SELECT "country_code", sum(greatest("change_amount", 0))::bigint
+	FROM "country_snapshots"
+	WHERE "initiative_id" = "p_initiative_id" AND "timestamp" >= "p_since"
+	GROUP BY "country_code"
+$$;
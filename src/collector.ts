@@ -0,0 +1,24 @@
+// src/collector.ts
+import 'dotenv/config';
+import { startMonitoring, stopMonitoring } from './lib/datamonitor.js';
+import { getSnapshotStore } from './lib/server/store/index.js';
+
+// 🛰️ Standalone collector: polls the EU API on a schedule and writes snapshots,
+// independent of web traffic. Run as many as you like - the collector lease makes
+// sure only one of them writes at a time. Start with `npm run collector`.
+
+const intervalMs = Number(process.env.COLLECTOR_INTERVAL_MS) || 1000;
+
+if (getSnapshotStore().kind === 'memory') {
+    console.warn('⚠️ Collecting into the memory store - nothing outside this process will see the snapshots');
+}
+
+startMonitoring(intervalMs, 'collector');
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, async () => {
+        console.log(`🛑 ${signal} received, stopping the collector...`);
+        await stopMonitoring();
+        process.exit(0);
+    });
+}
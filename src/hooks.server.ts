@@ -0,0 +1,56 @@
+// src/hooks.server.ts
+import type { Handle } from '@sveltejs/kit';
+import { sequence } from '@sveltejs/kit/hooks';
+import { corsHeaders, loadCorsConfig, preflightHeaders } from '$lib/server/api/cors.js';
+import { RateLimiter, loadRateLimitConfig, rateLimitHeaders } from '$lib/server/api/ratelimit.js';
+import { errorResponse } from '$lib/server/api/http.js';
+import { requireAdmin } from '$lib/server/admin.js';
+
+// 🔌 The public /api/v1 routes get CORS headers and a per-IP rate limit, and the admin
+// console and admin API need ADMIN_TOKEN; everything else passes straight through
+const corsConfig = loadCorsConfig();
+const rateLimiter = new RateLimiter(loadRateLimitConfig());
+
+// 🔑 /admin pages send anyone not signed in to the login form; /api/admin answers 401/403.
+// The routes still call requireAdmin themselves, like the annotation routes outside /api/admin.
+const adminAuth: Handle = async ({ event, resolve }) => {
+    const { pathname } = event.url;
+
+    if (pathname.startsWith('/api/admin/')) {
+        return requireAdmin(event.request) ?? resolve(event);
+    }
+    if ((pathname === '/admin' || pathname.startsWith('/admin/')) && pathname !== '/admin/login' && requireAdmin(event.request)) {
+        return new Response(null, { status: 303, headers: { Location: '/admin/login' } });
+    }
+    return resolve(event);
+};
+
+const publicApi: Handle = async ({ event, resolve }) => {
+    if (!event.url.pathname.startsWith('/api/v1/')) return resolve(event);
+
+    const origin = event.request.headers.get('Origin');
+    if (event.request.method === 'OPTIONS') {
+        return new Response(null, { status: 204, headers: preflightHeaders(origin, corsConfig) });
+    }
+
+    const headers = corsHeaders(origin, corsConfig);
+    let response: Response;
+
+    if (rateLimiter.enabled) {
+        const result = rateLimiter.hit(event.getClientAddress());
+        Object.assign(headers, rateLimitHeaders(result));
+
+        response = result.allowed
+            ? await resolve(event)
+            : errorResponse(429, { error: 'Rate limit exceeded' });
+    } else {
+        response = await resolve(event);
+    }
+
+    for (const [name, value] of Object.entries(headers)) {
+        response.headers.set(name, value);
+    }
+    return response;
+};
+
+export const handle = sequence(adminAuth, publicApi);
@@ -0,0 +1,159 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { AlertManager, DEFAULT_ALERT_RULES, MemoryAlertStateStore, parseAlertDestinations, type AlertEvent } from './alerts';
+
+// Local HTTP stub standing in for Slack/Discord/generic webhooks
+let server: Server;
+let baseUrl: string;
+let received: { path: string; body: Record<string, unknown> }[] = [];
+// Paths that answer 500 instead of 204
+let failing = new Set<string>();
+
+beforeAll(async () => {
+	server = createServer((req, res) => {
+		let body = '';
+		req.on('data', (chunk) => (body += chunk));
+		req.on('end', () => {
+			received.push({ path: req.url || '', body: JSON.parse(body) });
+			res.writeHead(failing.has(req.url || '') ? 500 : 204).end();
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+	received = [];
+	failing = new Set();
+});
+
+const sample = (previousCount: number | null, signatureCount: number, extra = {}) => ({
+	initiativeId: '045',
+	signatureCount,
+	previousCount,
+	goal: 1000000,
+	lastChangeAt: new Date(),
+	...extra
+});
+
+describe('AlertManager', () => {
+	it('delivers a milestone once, in each destination format', async () => {
+		const manager = new AlertManager(
+			DEFAULT_ALERT_RULES,
+			parseAlertDestinations(`${baseUrl}/hook,slack=${baseUrl}/slack,discord=${baseUrl}/discord`),
+			new MemoryAlertStateStore()
+		);
+
+		const fired = await manager.evaluate(sample(199990, 200010));
+		await manager.evaluate(sample(199995, 200020));
+
+		expect(fired.map((event) => event.key)).toEqual(['045:milestone:200000']);
+		expect(received).toHaveLength(3);
+		expect(received.find((r) => r.path === '/hook')?.body).toMatchObject({
+			kind: 'milestone',
+			signatureCount: 200010
+		});
+		expect(received.find((r) => r.path === '/slack')?.body.text).toContain('200,000');
+		expect(received.find((r) => r.path === '/discord')?.body.content).toContain('200,000');
+	});
+
+	it('fires percentage and goal milestones', async () => {
+		const manager = new AlertManager(
+			{ ...DEFAULT_ALERT_RULES, milestoneStep: 0 },
+			parseAlertDestinations(`${baseUrl}/hook`),
+			new MemoryAlertStateStore()
+		);
+
+		const half = await manager.evaluate(sample(499000, 501000));
+		const goal = await manager.evaluate(sample(899000, 1000500));
+
+		expect(half.map((event) => event.kind)).toEqual(['percent']);
+		expect(goal.map((event) => event.kind)).toEqual(['percent', 'goal']);
+	});
+
+	it('alerts once per stall and on spikes', async () => {
+		const manager = new AlertManager(
+			{ milestoneStep: 0, percentMilestones: [], stallHours: 2, spikePerMinute: 100, anomalies: false },
+			parseAlertDestinations(`${baseUrl}/hook`),
+			new MemoryAlertStateStore()
+		);
+		const lastChangeAt = new Date(Date.now() - 3 * 60 * 60 * 1000);
+
+		const stall = await manager.evaluate(sample(1000, 1000, { lastChangeAt }));
+		const again = await manager.evaluate(sample(1000, 1000, { lastChangeAt }));
+		const spike = await manager.evaluate(sample(1000, 1500));
+
+		expect(stall.map((event) => event.kind)).toEqual(['stall']);
+		expect(again).toEqual([]);
+		expect(spike.map((event) => event.kind)).toEqual(['spike']);
+	});
+
+	it('reports each anomaly once, a freeze however long it lasts', async () => {
+		const manager = new AlertManager(
+			{ ...DEFAULT_ALERT_RULES, milestoneStep: 0, percentMilestones: [], anomalies: true },
+			parseAlertDestinations(`${baseUrl}/hook`),
+			new MemoryAlertStateStore()
+		);
+		const since = new Date(Date.now() - 45 * 60 * 1000);
+		const freeze = { kind: 'freeze' as const, since };
+
+		const frozen = await manager.evaluate(sample(1000, 1000, { anomaly: freeze }));
+		const stillFrozen = await manager.evaluate(sample(1000, 1000, { anomaly: freeze }));
+		const movedAgain = await manager.evaluate(sample(1000, 1020, { anomaly: freeze }));
+		const decrease = await manager.evaluate(sample(1020, 1010, { anomaly: { kind: 'decrease', since: new Date() } }));
+
+		expect(frozen.map((event) => event.message)).toEqual(['[045] Count frozen at 1,000 for 45 minutes at a usually busy time']);
+		expect(stillFrozen).toEqual([]);
+		expect(movedAgain).toEqual([]);
+		expect(decrease.map((event) => event.kind)).toEqual(['anomaly']);
+	});
+
+	it('retries a failed delivery, only where it failed', async () => {
+		const store = new MemoryAlertStateStore();
+		const manager = new AlertManager(
+			DEFAULT_ALERT_RULES,
+			parseAlertDestinations(`${baseUrl}/hook,slack=${baseUrl}/slack`),
+			store
+		);
+
+		failing.add('/slack');
+		const failed = await manager.evaluate(sample(199990, 200010));
+		failing.clear();
+		const retried = await manager.evaluate(sample(200010, 200020));
+		const again = await manager.evaluate(sample(200020, 200030));
+
+		expect(failed).toEqual([]);
+		expect(retried.map((event) => event.key)).toEqual(['045:milestone:200000']);
+		expect(again).toEqual([]);
+		expect(received.map((r) => r.path)).toEqual(['/hook', '/slack', '/slack']);
+	});
+
+	it('gives the claim back when a delivery keeps failing', async () => {
+		const store = new MemoryAlertStateStore();
+		const manager = new AlertManager(DEFAULT_ALERT_RULES, parseAlertDestinations(`${baseUrl}/hook`), store);
+
+		failing.add('/hook');
+		await manager.evaluate(sample(199990, 200010));
+		for (let poll = 1; poll < 6; poll++) await manager.evaluate(sample(200000 + poll * 10, 200010 + poll * 10));
+
+		// Five attempts, then it stays unclaimed rather than recorded as delivered
+		expect(received).toHaveLength(5);
+		expect(await store.claim({ key: '045:milestone:200000' } as AlertEvent)).toBe(true);
+	});
+
+	it('survives restarts by sharing the state store', async () => {
+		const store = new MemoryAlertStateStore();
+		const destinations = parseAlertDestinations(`${baseUrl}/hook`);
+
+		await new AlertManager(DEFAULT_ALERT_RULES, destinations, store).evaluate(sample(99000, 100500));
+		const afterRestart = await new AlertManager(DEFAULT_ALERT_RULES, destinations, store).evaluate(
+			sample(99500, 100600)
+		);
+
+		expect(afterRestart).toEqual([]);
+		expect(received).toHaveLength(1);
+	});
+});
@@ -0,0 +1,341 @@
+// src/lib/alerts.ts
+import { getSnapshotStore, type SnapshotStore } from './server/store/index.js';
+import type { AnomalyKind } from './anomalies.js';
+
+// 🔔 Milestone and anomaly alerts, delivered to webhooks.
+// Every alert has a stable key and is only ever delivered once per key;
+// the keys live in the alert_deliveries table so restarts don't re-fire them.
+// A failed delivery gives its key back and is retried on the next evaluations.
+
+export type AlertKind = 'milestone' | 'percent' | 'goal' | 'stall' | 'spike' | 'anomaly';
+
+export interface AlertEvent {
+    key: string;
+    kind: AlertKind;
+    initiativeId: string;
+    message: string;
+    signatureCount: number;
+    goal: number;
+    timestamp: string;
+}
+
+export interface AlertRules {
+    milestoneStep: number;       // fire every N signatures (0 disables)
+    percentMilestones: number[]; // fire when these percentages of the goal are crossed
+    stallHours: number;          // fire when the count hasn't moved for N hours (0 disables)
+    spikePerMinute: number;      // fire above N signatures per minute (0 disables)
+    anomalies: boolean;          // pass on what the anomaly detector flags
+}
+
+export type AlertDestinationType = 'webhook' | 'slack' | 'discord';
+
+export interface AlertDestination {
+    type: AlertDestinationType;
+    url: string;
+}
+
+export interface AlertSample {
+    initiativeId: string;
+    signatureCount: number;
+    previousCount: number | null;
+    goal: number;
+    lastChangeAt: Date;
+    timestamp?: Date;
+    // Flagged by the anomaly detector; `since` is when the count had last moved before it
+    anomaly?: { kind: AnomalyKind; since: Date } | null;
+}
+
+// Remembers which alerts have already fired
+export interface AlertStateStore {
+    // Returns false when the key was claimed before
+    claim(event: AlertEvent): Promise<boolean>;
+    // Gives back the claim of an alert that couldn't be delivered
+    release(event: AlertEvent): Promise<void>;
+}
+
+interface PendingDelivery {
+    event: AlertEvent;
+    destinations: AlertDestination[];
+    attempts: number;
+}
+
+export const DEFAULT_ALERT_RULES: AlertRules = {
+    milestoneStep: 100000,
+    percentMilestones: [50, 90],
+    stallHours: 0,
+    spikePerMinute: 0,
+    anomalies: false
+};
+
+const DELIVERY_TIMEOUT_MS = 5000;
+const MAX_DELIVERY_ATTEMPTS = 5;
+const SPIKE_WINDOW_MS = 60 * 1000;
+
+export class MemoryAlertStateStore implements AlertStateStore {
+    private keys = new Set<string>();
+
+    async claim(event: AlertEvent) {
+        if (this.keys.has(event.key)) return false;
+        this.keys.add(event.key);
+        return true;
+    }
+
+    async release(event: AlertEvent) {
+        this.keys.delete(event.key);
+    }
+}
+
+// Persists claimed keys in the snapshot store's alert_deliveries table
+export class PersistentAlertStateStore implements AlertStateStore {
+    private memory = new MemoryAlertStateStore();
+
+    constructor(private store: () => SnapshotStore = getSnapshotStore) {}
+
+    async claim(event: AlertEvent) {
+        if (!(await this.memory.claim(event))) return false;
+
+        try {
+            return await this.store().recordAlertDelivery({
+                key: event.key,
+                initiative_id: event.initiativeId,
+                kind: event.kind,
+                message: event.message
+            });
+        } catch (error) {
+            // Deliver anyway - the in-memory claim still stops repeats in this process
+            console.error('Failed to persist alert state:', error);
+            return true;
+        }
+    }
+
+    async release(event: AlertEvent) {
+        await this.memory.release(event);
+        await this.store().deleteAlertDelivery(event.key);
+    }
+}
+
+// Shape the payload each destination expects
+export function formatAlertPayload(type: AlertDestinationType, event: AlertEvent) {
+    switch (type) {
+        case 'slack':
+            return { text: `🔔 ${event.message}` };
+        case 'discord':
+            return { content: `🔔 ${event.message}` };
+        default:
+            return event;
+    }
+}
+
+export class AlertManager {
+    private recentChanges = new Map<string, { at: number; amount: number }[]>();
+    private pending = new Map<string, PendingDelivery>();
+
+    constructor(
+        private rules: AlertRules,
+        private destinations: AlertDestination[],
+        private store: AlertStateStore
+    ) {}
+
+    get enabled() {
+        return this.destinations.length > 0;
+    }
+
+    // Run every rule against a poll result and deliver whatever newly fired
+    async evaluate(sample: AlertSample): Promise<AlertEvent[]> {
+        if (!this.enabled) return [];
+
+        const fired: AlertEvent[] = [];
+
+        // Earlier failures first, only to the destinations that missed them
+        for (const { event, destinations, attempts } of [...this.pending.values()]) {
+            this.pending.delete(event.key);
+            if (await this.send(event, destinations, attempts + 1)) fired.push(event);
+        }
+
+        for (const event of this.detect(sample)) {
+            if (this.pending.has(event.key)) continue;
+            if (await this.send(event, this.destinations, 1)) fired.push(event);
+        }
+
+        return fired;
+    }
+
+    // Claims the alert and delivers it; true once every destination has it. When one
+    // doesn't, the claim is given back and the delivery queued for another attempt.
+    private async send(event: AlertEvent, destinations: AlertDestination[], attempt: number): Promise<boolean> {
+        try {
+            if (!(await this.store.claim(event))) return false;
+        } catch (error) {
+            console.error('Alert state error:', error);
+            return false;
+        }
+
+        const failed = await this.deliver(event, destinations);
+        if (failed.length === 0) return true;
+
+        try {
+            await this.store.release(event);
+        } catch (error) {
+            console.error('Alert state error:', error);
+        }
+
+        if (attempt < MAX_DELIVERY_ATTEMPTS) {
+            this.pending.set(event.key, { event, destinations: failed, attempts: attempt });
+        } else {
+            console.error(`Giving up on alert ${event.key} after ${attempt} attempts`);
+        }
+        return false;
+    }
+
+    private detect(sample: AlertSample): AlertEvent[] {
+        const now = sample.timestamp ?? new Date();
+        const { initiativeId, signatureCount, previousCount, goal } = sample;
+        const events: AlertEvent[] = [];
+
+        const event = (key: string, kind: AlertKind, message: string): AlertEvent => ({
+            key: `${initiativeId}:${key}`,
+            kind,
+            initiativeId,
+            message: `[${initiativeId}] ${message}`,
+            signatureCount,
+            goal,
+            timestamp: now.toISOString()
+        });
+
+        if (previousCount !== null && signatureCount > previousCount) {
+            // Only the highest milestone crossed by this change
+            const step = this.rules.milestoneStep;
+            if (step > 0 && Math.floor(signatureCount / step) > Math.floor(previousCount / step)) {
+                const milestone = Math.floor(signatureCount / step) * step;
+                events.push(event(`milestone:${milestone}`, 'milestone',
+                    `${milestone.toLocaleString()} signatures reached`));
+            }
+
+            const previousPercent = (previousCount / goal) * 100;
+            const percent = (signatureCount / goal) * 100;
+            const crossed = this.rules.percentMilestones.filter(p => previousPercent < p && percent >= p);
+            if (crossed.length > 0) {
+                const highest = Math.max(...crossed);
+                events.push(event(`percent:${highest}:${goal}`, 'percent',
+                    `${highest}% of the ${goal.toLocaleString()} goal reached`));
+            }
+
+            if (previousCount < goal && signatureCount >= goal) {
+                events.push(event(`goal:${goal}`, 'goal',
+                    `🎉 Goal of ${goal.toLocaleString()} signatures reached!`));
+            }
+
+            this.recordChange(initiativeId, now.getTime(), signatureCount - previousCount);
+        }
+
+        if (this.rules.spikePerMinute > 0) {
+            const perMinute = this.changesInWindow(initiativeId, now.getTime());
+            if (perMinute > this.rules.spikePerMinute) {
+                // At most one spike alert per hour
+                const hour = now.toISOString().slice(0, 13);
+                events.push(event(`spike:${hour}`, 'spike',
+                    `Spike: ${perMinute.toLocaleString()} signatures in the last minute`));
+            }
+        }
+
+        if (this.rules.stallHours > 0) {
+            const stalledMs = now.getTime() - sample.lastChangeAt.getTime();
+            if (stalledMs >= this.rules.stallHours * 60 * 60 * 1000) {
+                // One alert per stall - keyed on when the count last moved
+                events.push(event(`stall:${sample.lastChangeAt.toISOString()}`, 'stall',
+                    `No change for ${Math.floor(stalledMs / 3600000)} hours (stuck at ${signatureCount.toLocaleString()})`));
+            }
+        }
+
+        if (this.rules.anomalies && sample.anomaly) {
+            // Keyed on when the count last moved, so a freeze is reported once however long it lasts
+            const { kind, since } = sample.anomaly;
+            const minutes = Math.round((now.getTime() - since.getTime()) / 60000);
+            const messages: Record<AnomalyKind, string> = {
+                decrease: `Count went down from ${previousCount?.toLocaleString()} to ${signatureCount.toLocaleString()}`,
+                jump: `Implausible jump of ${(signatureCount - (previousCount ?? signatureCount)).toLocaleString()} signatures in ${minutes} minutes`,
+                freeze: `Count frozen at ${(previousCount ?? signatureCount).toLocaleString()} for ${minutes} minutes at a usually busy time`
+            };
+            events.push(event(`anomaly:${kind}:${since.toISOString()}`, 'anomaly', messages[kind]));
+        }
+
+        return events;
+    }
+
+    private recordChange(initiativeId: string, at: number, amount: number) {
+        const changes = (this.recentChanges.get(initiativeId) || [])
+            .filter(change => change.at > at - SPIKE_WINDOW_MS);
+        changes.push({ at, amount });
+        this.recentChanges.set(initiativeId, changes);
+    }
+
+    private changesInWindow(initiativeId: string, now: number) {
+        return (this.recentChanges.get(initiativeId) || [])
+            .filter(change => change.at > now - SPIKE_WINDOW_MS)
+            .reduce((sum, change) => sum + change.amount, 0);
+    }
+
+    // Returns the destinations it couldn't be delivered to
+    private async deliver(event: AlertEvent, destinations: AlertDestination[]): Promise<AlertDestination[]> {
+        console.log(`🔔 Alert: ${event.message}`);
+
+        const delivered = await Promise.all(destinations.map(async destination => {
+            try {
+                const response = await fetch(destination.url, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(formatAlertPayload(destination.type, event)),
+                    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+                });
+
+                if (!response.ok) {
+                    console.error(`Alert delivery to ${destination.type} failed: HTTP ${response.status}`);
+                }
+                return response.ok;
+            } catch (error) {
+                console.error(`Alert delivery to ${destination.type} failed:`, error);
+                return false;
+            }
+        }));
+
+        return destinations.filter((_, index) => !delivered[index]);
+    }
+}
+
+// e.g. ALERT_WEBHOOKS="slack=https://hooks.slack.com/...,https://example.com/hook"
+export function parseAlertDestinations(value: string | undefined): AlertDestination[] {
+    if (!value) return [];
+
+    return value
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const match = entry.match(/^(webhook|slack|discord)=(.+)$/);
+            return match
+                ? { type: match[1] as AlertDestinationType, url: match[2] }
+                : { type: 'webhook' as const, url: entry };
+        });
+}
+
+export function parseAlertRules(env: Record<string, string | undefined>): AlertRules {
+    const number = (value: string | undefined, fallback: number) =>
+        value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : fallback;
+
+    return {
+        milestoneStep: number(env.ALERT_MILESTONE_STEP, DEFAULT_ALERT_RULES.milestoneStep),
+        percentMilestones: env.ALERT_PERCENTS
+            ? env.ALERT_PERCENTS.split(',').map(Number).filter(p => p > 0)
+            : DEFAULT_ALERT_RULES.percentMilestones,
+        stallHours: number(env.ALERT_STALL_HOURS, DEFAULT_ALERT_RULES.stallHours),
+        spikePerMinute: number(env.ALERT_SPIKE_PER_MINUTE, DEFAULT_ALERT_RULES.spikePerMinute),
+        anomalies: env.ALERT_ANOMALIES ? env.ALERT_ANOMALIES === 'true' : DEFAULT_ALERT_RULES.anomalies
+    };
+}
+
+export const createAlertManager = (env: Record<string, string | undefined> = process.env) =>
+    new AlertManager(
+        parseAlertRules(env),
+        parseAlertDestinations(env.ALERT_WEBHOOKS),
+        new PersistentAlertStateStore()
+    );
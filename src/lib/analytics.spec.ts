@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { compareDays, findMilestones, parseTimelineEvents, rollingVelocity, weekdayHourHeatmap } from './analytics';
+import type { AggregatedBucket } from './timebuckets';
+
+const HOUR = 60 * 60 * 1000;
+
+// Hourly buckets from `start`, `added(hour)` signatures each, counting up from `opening`
+function hourly(start: Date, hours: number, added: (time: Date) => number, opening = 0): AggregatedBucket[] {
+	let total = opening;
+	return Array.from({ length: hours }, (_, i) => {
+		const time = new Date(start.getTime() + i * HOUR);
+		total += added(time);
+		return { start: time.toISOString(), signaturesAdded: added(time), closingTotal: total, samples: 1 };
+	});
+}
+
+describe('analytics', () => {
+	it('averages each weekday and hour over the weeks seen', () => {
+		// Two weeks from Monday 6 January 2025, busy on Monday mornings only
+		const start = new Date('2025-01-06T00:00:00Z');
+		const buckets = hourly(start, 14 * 24, time => (time.getUTCDay() === 1 && time.getUTCHours() === 10 ? 100 : 1));
+		const heatmap = weekdayHourHeatmap(buckets, 'UTC', new Date(start.getTime() + 14 * 24 * HOUR - 1));
+
+		const cell = (weekday: number, hour: number) => heatmap.cells.find(c => c.weekday === weekday && c.hour === hour)!;
+		expect(heatmap.cells).toHaveLength(7 * 24);
+		expect(cell(0, 10)).toEqual({ weekday: 0, hour: 10, signatures: 200, average: 100 });
+		expect(cell(6, 23).average).toBe(1);
+		expect(heatmap.max).toBe(100);
+
+		// In Berlin the same signatures land an hour later
+		const berlin = weekdayHourHeatmap(buckets, 'Europe/Berlin', new Date(start.getTime() + 14 * 24 * HOUR - 1));
+		expect(berlin.cells.find(c => c.weekday === 0 && c.hour === 11)!.average).toBe(100);
+	});
+
+	it('lines today up against yesterday and last week', () => {
+		const now = new Date('2025-01-15T05:30:00Z');
+		const buckets = hourly(new Date('2025-01-08T00:00:00Z'), 7 * 24 + 6, () => 10);
+		const [today, yesterday, lastWeek] = compareDays(buckets, now, 'UTC');
+
+		expect(today.day).toBe('today');
+		expect(today.cumulative.slice(0, 7)).toEqual([10, 20, 30, 40, 50, 60, null]);
+		expect(yesterday.start).toBe('2025-01-14T00:00:00.000Z');
+		expect(yesterday.cumulative[23]).toBe(240);
+		expect(lastWeek.start).toBe('2025-01-08T00:00:00.000Z');
+		expect(lastWeek.hourly.every(count => count === 10)).toBe(true);
+	});
+
+	it('keeps the rolling rate steady through the hour in progress', () => {
+		const now = new Date('2025-01-10T12:15:00Z');
+		const buckets = hourly(new Date('2025-01-10T00:00:00Z'), 12, () => 60);
+		buckets.push({ start: '2025-01-10T12:00:00.000Z', signaturesAdded: 15, closingTotal: 735, samples: 1 });
+
+		const points = rollingVelocity(buckets, new Date('2025-01-10T06:00:00Z'), now, 3);
+		expect(points).toHaveLength(7);
+		expect(points[0]).toEqual({ start: '2025-01-10T06:00:00.000Z', perHour: 60, rolling: 60 });
+		expect(points[6]).toEqual({ start: '2025-01-10T12:00:00.000Z', perHour: 60, rolling: 60 });
+	});
+
+	it('finds the hours each tenth of the goal was passed', () => {
+		const buckets = hourly(new Date('2025-01-01T00:00:00Z'), 5, () => 150, 50);
+		const milestones = findMilestones(buckets, 1000);
+
+		expect(milestones.map(event => event.signatures)).toEqual([100, 200, 300, 400, 500, 600, 700, 800]);
+		expect(milestones[0]).toEqual({ at: '2025-01-01T00:00:00.000Z', kind: 'milestone', label: null, signatures: 100 });
+		expect(milestones[7].at).toBe('2025-01-01T04:00:00.000Z');
+	});
+
+	it('reads configured events for one initiative', () => {
+		const events = parseTimelineEvents(
+			'045|2025-06-02T07:30:00Z|press|Covered by Le Monde; 046|2025-06-03T00:00:00Z|press|Elsewhere;045|nope|press|Bad;045|2025-06-04T12:00:00Z|tv|Evening news',
+			'045'
+		);
+
+		expect(events).toEqual([
+			{ at: '2025-06-02T07:30:00.000Z', kind: 'press', label: 'Covered by Le Monde', signatures: null },
+			{ at: '2025-06-04T12:00:00.000Z', kind: 'other', label: 'Evening news', signatures: null }
+		]);
+	});
+});
@@ -0,0 +1,204 @@
+// src/lib/analytics.ts
+import { loadHourlyBuckets } from './history.js';
+import { BUCKET_MS, bucketStart, nextBucketStart, toWallClock, type AggregatedBucket } from './timebuckets.js';
+
+// 📊 Longer-range views for the analytics page, all built from hourly buckets:
+// when in the week people sign, how today compares with earlier days, how fast
+// signatures are coming in, and the events that explain the bumps.
+
+export interface HeatmapCell {
+    weekday: number; // 0 = Monday
+    hour: number;
+    signatures: number;
+    average: number; // per occurrence of this weekday and hour since tracking began
+}
+
+export interface Heatmap {
+    from: string | null;
+    cells: HeatmapCell[];
+    max: number; // highest average, for scaling colours
+}
+
+export type ComparisonDay = 'today' | 'yesterday' | 'lastWeek';
+
+export interface DaySeries {
+    day: ComparisonDay;
+    start: string;
+    hourly: number[]; // by wall-clock hour
+    cumulative: (number | null)[]; // null for hours still to come
+}
+
+export interface VelocityPoint {
+    start: string;
+    perHour: number;
+    rolling: number; // signatures per hour over the trailing window
+}
+
+export type EventKind = 'milestone' | 'campaign' | 'press' | 'other';
+
+export interface TimelineEvent {
+    at: string;
+    kind: EventKind;
+    label: string | null; // configured events and annotations; the page words milestones itself
+    signatures: number | null; // the count a milestone marks
+}
+
+// Kinds a configured event may have; campaigns are annotations from /api/annotations
+const CONFIGURED_KINDS: EventKind[] = ['press', 'other'];
+
+// Monday-based weekday of a wall-clock date
+export const weekdayOf = (year: number, month: number, day: number) =>
+    (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+
+const added = (bucket: AggregatedBucket) => Math.max(0, bucket.signaturesAdded);
+
+// Weekday × hour totals over all buckets. Averages divide by how often each slot has come
+// round since the first bucket, so a quiet slot isn't mistaken for one we never saw.
+export function weekdayHourHeatmap(buckets: AggregatedBucket[], timeZone: string, now: Date = new Date()): Heatmap {
+    const totals = Array.from({ length: 7 * 24 }, () => 0);
+    const occurrences = Array.from({ length: 7 * 24 }, () => 0);
+    const slotOf = (time: number) => {
+        const wall = toWallClock(new Date(time), timeZone);
+        return weekdayOf(wall.year, wall.month, wall.day) * 24 + wall.hour;
+    };
+
+    for (const bucket of buckets) totals[slotOf(new Date(bucket.start).getTime())] += added(bucket);
+
+    if (buckets.length > 0) {
+        const last = bucketStart(now, 'hour', timeZone).getTime();
+        for (let time = new Date(buckets[0].start).getTime(); time <= last; time += BUCKET_MS.hour) {
+            occurrences[slotOf(time)]++;
+        }
+    }
+
+    const cells = totals.map((signatures, slot) => ({
+        weekday: Math.floor(slot / 24),
+        hour: slot % 24,
+        signatures,
+        average: occurrences[slot] > 0 ? Math.round(signatures / occurrences[slot]) : 0
+    }));
+
+    return {
+        from: buckets[0]?.start ?? null,
+        cells,
+        max: Math.max(0, ...cells.map(cell => cell.average))
+    };
+}
+
+// Where today, yesterday and the same weekday last week start on the timezone's calendar
+export function comparisonDays(now: Date, timeZone: string): Record<ComparisonDay, Date> {
+    const today = bucketStart(now, 'day', timeZone);
+    const halfDay = BUCKET_MS.day / 2;
+    return {
+        today,
+        yesterday: bucketStart(new Date(today.getTime() - halfDay), 'day', timeZone),
+        lastWeek: bucketStart(new Date(today.getTime() - BUCKET_MS.week + halfDay), 'day', timeZone)
+    };
+}
+
+// Hour-by-hour signatures for each comparison day, plus running totals to overlay them
+export function compareDays(buckets: AggregatedBucket[], now: Date, timeZone: string): DaySeries[] {
+    const currentHour = toWallClock(now, timeZone).hour;
+
+    return Object.entries(comparisonDays(now, timeZone)).map(([day, start]) => {
+        const end = nextBucketStart(start.getTime(), 'day', timeZone);
+        const hourly = Array.from({ length: 24 }, () => 0);
+
+        for (const bucket of buckets) {
+            const time = new Date(bucket.start).getTime();
+            if (time >= start.getTime() && time < end) hourly[toWallClock(new Date(time), timeZone).hour] += added(bucket);
+        }
+
+        let total = 0;
+        const cumulative = hourly.map((count, hour) => {
+            total += count;
+            return day === 'today' && hour > currentHour ? null : total;
+        });
+
+        return { day: day as ComparisonDay, start: start.toISOString(), hourly, cumulative };
+    });
+}
+
+// Signatures per hour since `from`, and the average over the trailing `windowHours`.
+// The hour in progress is scaled up by how much of it has passed, so the line doesn't dip at the end.
+export function rollingVelocity(buckets: AggregatedBucket[], from: Date, now: Date, windowHours: number): VelocityPoint[] {
+    const byStart = new Map(buckets.map(bucket => [new Date(bucket.start).getTime(), added(bucket)]));
+    const current = Math.floor(now.getTime() / BUCKET_MS.hour) * BUCKET_MS.hour;
+    const currentFraction = Math.max((now.getTime() - current) / BUCKET_MS.hour, 1 / 60);
+
+    // Velocity doesn't depend on the zone: buckets are UTC hours, stepped through in real time
+    const first = Math.floor(from.getTime() / BUCKET_MS.hour) * BUCKET_MS.hour;
+    const windowStart = first - (windowHours - 1) * BUCKET_MS.hour;
+    const counts: number[] = [];
+    for (let time = windowStart; time <= current; time += BUCKET_MS.hour) counts.push(byStart.get(time) ?? 0);
+
+    const points: VelocityPoint[] = [];
+    let windowTotal = counts.slice(0, windowHours - 1).reduce((sum, count) => sum + count, 0);
+
+    for (let index = windowHours - 1; index < counts.length; index++) {
+        const start = windowStart + index * BUCKET_MS.hour;
+        const fraction = start === current ? currentFraction : 1;
+        windowTotal += counts[index];
+
+        points.push({
+            start: new Date(start).toISOString(),
+            perHour: Math.round(counts[index] / fraction),
+            rolling: Math.round(windowTotal / (windowHours - 1 + fraction))
+        });
+
+        windowTotal -= counts[index - windowHours + 1];
+    }
+
+    return points;
+}
+
+// The hour each tenth of the goal was passed. Marks passed before tracking began are left out.
+export function findMilestones(buckets: AggregatedBucket[], goal: number): TimelineEvent[] {
+    const events: TimelineEvent[] = [];
+    const step = goal / 10;
+    if (buckets.length === 0 || step <= 0) return events;
+
+    const opening = buckets[0].closingTotal - buckets[0].signaturesAdded;
+    let next = (Math.floor(opening / step) + 1) * step;
+
+    for (const bucket of buckets) {
+        while (bucket.closingTotal >= next) {
+            events.push({ at: bucket.start, kind: 'milestone', label: null, signatures: Math.round(next) });
+            next += step;
+        }
+    }
+
+    return events;
+}
+
+// Press coverage and other dated events, as initiative|time|kind|label separated by ";"
+// e.g. TIMELINE_EVENTS="045|2025-06-02T07:30:00Z|press|Covered by Le Monde"
+export function parseTimelineEvents(value: string | undefined, initiativeId: string): TimelineEvent[] {
+    if (!value) return [];
+
+    return value
+        .split(';')
+        .map(entry => entry.split('|').map(part => part.trim()))
+        .filter(([initiative, at, , label]) => initiative === initiativeId && label && !isNaN(new Date(at ?? '').getTime()))
+        .map(([, at, kind, label]) => ({
+            at: new Date(at).toISOString(),
+            kind: (CONFIGURED_KINDS as string[]).includes(kind) ? kind as EventKind : 'other',
+            label,
+            signatures: null
+        }));
+}
+
+// All-time hourly buckets are costly to rebuild and only grow at the end - refresh every 10 minutes
+const ALL_TIME_TTL_MS = 10 * 60 * 1000;
+const allTimeBuckets = new Map<string, { loadedAt: number; buckets: Promise<AggregatedBucket[]> }>();
+
+export function loadAllTimeBuckets(initiativeId: string, timeZone: string): Promise<AggregatedBucket[]> {
+    const key = `${initiativeId}|${timeZone}`;
+    const cached = allTimeBuckets.get(key);
+    if (cached && Date.now() - cached.loadedAt < ALL_TIME_TTL_MS) return cached.buckets;
+
+    const buckets = loadHourlyBuckets(initiativeId, new Date(0), timeZone);
+    allTimeBuckets.set(key, { loadedAt: Date.now(), buckets });
+    buckets.catch(() => allTimeBuckets.delete(key));
+    return buckets;
+}
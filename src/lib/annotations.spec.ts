@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { attribute, parseAnnotationInput } from './annotations';
+import type { Annotation, SignatureSnapshot } from './server/store/types';
+
+const MINUTE = 60 * 1000;
+const at = new Date('2025-07-01T12:00:00Z').getTime();
+
+const annotation = (id: number, time: number, label = 'Newsletter'): Annotation => ({
+	id,
+	initiative_id: '045',
+	timestamp: new Date(time).toISOString(),
+	label,
+	url: null,
+	created_at: new Date(time).toISOString()
+});
+
+// One snapshot a minute, half a minute off the hour: `before` signatures each until the event, `after` each from then on
+function rows(before: number, after: number): SignatureSnapshot[] {
+	let total = 0;
+	return Array.from({ length: 120 }, (_, i) => {
+		const time = at - 60 * MINUTE + i * MINUTE + MINUTE / 2;
+		const change = time < at ? before : after;
+		total += change;
+		return {
+			id: i + 1,
+			initiative_id: '045',
+			timestamp: new Date(time).toISOString(),
+			signature_count: total,
+			change_amount: change,
+			goal: 1000000,
+			official_goal: 1000000,
+			goal_override: null,
+			gap_started_at: null,
+			anomaly: null,
+			idempotency_key: null
+		};
+	});
+}
+
+describe('annotations', () => {
+	it('validates new annotations and edits', () => {
+		expect(parseAnnotationInput({ timestamp: '2025-07-01T12:00:00Z', label: ' TV segment ' }, false)).toEqual({
+			changes: { timestamp: '2025-07-01T12:00:00.000Z', label: 'TV segment', url: null }
+		});
+		expect(parseAnnotationInput({ label: '', url: 'ftp://x' }, false)).toEqual({
+			errors: ['timestamp must be an ISO 8601 date', 'label must be 1 to 200 characters', 'url must be an http(s) URL']
+		});
+		expect(parseAnnotationInput({ url: 'https://example.com/post' }, true)).toEqual({
+			changes: { url: 'https://example.com/post' }
+		});
+		expect(parseAnnotationInput({}, true)).toEqual({ errors: ['Nothing to change'] });
+		expect(parseAnnotationInput([], true)).toEqual({ errors: ['Body must be a JSON object'] });
+	});
+
+	it('compares the rate before and after an event', () => {
+		const newsletter = annotation(1, at);
+		const others = [newsletter, annotation(2, at + 30 * MINUTE), annotation(3, at + 2 * 60 * MINUTE)];
+		const result = attribute(newsletter, rows(2, 5), others, 60 * MINUTE, at + 3 * 60 * MINUTE);
+
+		expect(result.beforePerHour).toBe(120);
+		expect(result.afterPerHour).toBe(300);
+		expect(result.lift).toBe(1.5);
+		expect(result.extraSignatures).toBe(180);
+		expect(result.complete).toBe(true);
+		expect(result.overlapping).toEqual([2]);
+	});
+
+	it('only counts the part of the window after that has passed', () => {
+		const result = attribute(annotation(1, at), rows(0, 5).slice(0, 90), [], 60 * MINUTE, at + 30 * MINUTE);
+
+		expect(result.afterPerHour).toBe(300);
+		expect(result.lift).toBeNull();
+		expect(result.extraSignatures).toBe(150);
+		expect(result.complete).toBe(false);
+	});
+});
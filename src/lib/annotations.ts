@@ -0,0 +1,115 @@
+// src/lib/annotations.ts
+import { getSnapshotStore, type Annotation, type AnnotationChanges } from './server/store/index.js';
+import { addedBetween } from './gaps.js';
+import { historyPages } from './history.js';
+import type { SnapshotRow } from './timebuckets.js';
+
+// 📣 Campaign events (a newsletter, a TV segment, an influencer post) and what they did
+// to the signature rate: the window before each one is compared with the window after.
+
+export const MAX_LABEL_LENGTH = 200;
+export const DEFAULT_ATTRIBUTION_WINDOW_MINUTES = 60;
+export const MAX_ATTRIBUTION_WINDOW_MINUTES = 24 * 60;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface Attribution {
+    annotation: Annotation;
+    windowMinutes: number;
+    beforePerHour: number;
+    afterPerHour: number;
+    lift: number | null; // relative change in rate; null when nothing came in before
+    extraSignatures: number; // beyond what the rate before would have brought in
+    complete: boolean; // false while the window after is still running
+    overlapping: number[]; // other annotations inside either window, which share the credit
+}
+
+// Checks a JSON body for a new annotation (timestamp and label required) or an edit
+// (any of the fields); returns what to store or everything that's wrong with it
+export function parseAnnotationInput(body: unknown, partial: boolean): { changes: AnnotationChanges } | { errors: string[] } {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) return { errors: ['Body must be a JSON object'] };
+
+    const input = body as Record<string, unknown>;
+    const changes: AnnotationChanges = {};
+    const errors: string[] = [];
+
+    if (input.timestamp !== undefined || !partial) {
+        const timestamp = typeof input.timestamp === 'string' ? new Date(input.timestamp) : null;
+        if (!timestamp || isNaN(timestamp.getTime())) errors.push('timestamp must be an ISO 8601 date');
+        else changes.timestamp = timestamp.toISOString();
+    }
+
+    if (input.label !== undefined || !partial) {
+        const label = typeof input.label === 'string' ? input.label.trim() : '';
+        if (!label || label.length > MAX_LABEL_LENGTH) errors.push(`label must be 1 to ${MAX_LABEL_LENGTH} characters`);
+        else changes.label = label;
+    }
+
+    if (input.url !== undefined && input.url !== null && input.url !== '') {
+        let url: URL | null = null;
+        try {
+            url = typeof input.url === 'string' ? new URL(input.url) : null;
+        } catch {
+            url = null;
+        }
+        if (!url || !['http:', 'https:'].includes(url.protocol)) errors.push('url must be an http(s) URL');
+        else changes.url = url.toString();
+    } else if (input.url !== undefined || !partial) {
+        changes.url = null;
+    }
+
+    if (errors.length === 0 && Object.keys(changes).length === 0) errors.push('Nothing to change');
+    return errors.length > 0 ? { errors } : { changes };
+}
+
+// Rates in the windows either side of one annotation, from the snapshots around it
+export function attribute(
+    annotation: Annotation,
+    rows: SnapshotRow[],
+    others: Annotation[],
+    windowMs: number,
+    now: number = Date.now()
+): Attribution {
+    const at = new Date(annotation.timestamp).getTime();
+    const afterEnd = Math.min(at + windowMs, now);
+    const afterMs = Math.max(0, afterEnd - at);
+
+    const beforePerHour = addedBetween(rows, at - windowMs, at) / (windowMs / HOUR_MS);
+    const after = addedBetween(rows, at, afterEnd);
+    const afterPerHour = afterMs > 0 ? after / (afterMs / HOUR_MS) : 0;
+
+    return {
+        annotation,
+        windowMinutes: Math.round(windowMs / 60000),
+        beforePerHour: Math.round(beforePerHour),
+        afterPerHour: Math.round(afterPerHour),
+        lift: beforePerHour > 0 ? Math.round((afterPerHour / beforePerHour - 1) * 1000) / 1000 : null,
+        extraSignatures: Math.round(after - beforePerHour * (afterMs / HOUR_MS)),
+        complete: at + windowMs <= now,
+        overlapping: others
+            .filter(other => other.id !== annotation.id && Math.abs(new Date(other.timestamp).getTime() - at) < windowMs)
+            .map(other => other.id)
+    };
+}
+
+// Attribution for every annotation of an initiative in [from, to)
+export async function attributeAnnotations(initiativeId: string, from: Date, to: Date, windowMs: number): Promise<Attribution[]> {
+    const store = getSnapshotStore();
+    const annotations = await store.listAnnotations({ initiativeId, from, to });
+
+    // Neighbours just outside the range still overlap the windows of the ones inside it
+    const neighbours = await store.listAnnotations({
+        initiativeId,
+        from: new Date(from.getTime() - windowMs),
+        to: new Date(to.getTime() + windowMs)
+    });
+
+    return Promise.all(annotations.map(async annotation => {
+        const at = new Date(annotation.timestamp).getTime();
+        // Older annotations fall back to minute rollups once their raw snapshots are compacted
+        const rows: SnapshotRow[] = [];
+        const range = { from: new Date(at - windowMs), to: new Date(at + windowMs) };
+        for await (const page of historyPages(initiativeId, range)) rows.push(...page);
+        return attribute(annotation, rows, neighbours, windowMs);
+    }));
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ANOMALY_RULES, detectAnomaly, expectedPerHourAt, isFrozen, parseAnomalyRules } from './anomalies';
+import { weekdayHourHeatmap } from './analytics';
+
+const MINUTE = 60 * 1000;
+
+const input = (previousCount: number | null, signatureCount: number, unchangedMinutes: number, expectedPerHour: number | null) => ({
+	previousCount,
+	signatureCount,
+	unchangedMs: unchangedMinutes * MINUTE,
+	expectedPerHour
+});
+
+describe('anomalies', () => {
+	it('flags decreases and implausible jumps', () => {
+		const rules = DEFAULT_ANOMALY_RULES;
+
+		expect(detectAnomaly(input(5000, 4990, 1, 600), rules)).toBe('decrease');
+		expect(detectAnomaly(input(5000, 4990, 1, null), rules)).toBe('decrease');
+		// 600/h for 10 minutes is 100 expected; 300 is below the minimum, 5000 far beyond it
+		expect(detectAnomaly(input(5000, 5300, 10, 600), rules)).toBeNull();
+		expect(detectAnomaly(input(5000, 10000, 10, 600), rules)).toBe('jump');
+		// A big batch at a busy time can be plausible
+		expect(detectAnomaly(input(5000, 7300, 20, 6000), rules)).toBeNull();
+		// Without history there's nothing to compare against
+		expect(detectAnomaly(input(5000, 10000, 10, null), rules)).toBeNull();
+		expect(detectAnomaly(input(null, 10000, 10, 600), rules)).toBeNull();
+	});
+
+	it('only calls a count frozen at usually busy times', () => {
+		const rules = parseAnomalyRules({ ANOMALY_FREEZE_MINUTES: '30', ANOMALY_FREEZE_EXPECTED: '100' });
+
+		expect(isFrozen(45 * MINUTE, 600, rules)).toBe(true);
+		expect(isFrozen(20 * MINUTE, 600, rules)).toBe(false);
+		// Nights bring a handful of signatures an hour - standing still then is normal
+		expect(isFrozen(120 * MINUTE, 10, rules)).toBe(false);
+		expect(isFrozen(120 * MINUTE, null, rules)).toBe(false);
+		expect(isFrozen(120 * MINUTE, 600, { ...rules, freezeMinutes: 0 })).toBe(false);
+
+		// Moving again after such a stretch flags the new count
+		expect(detectAnomaly(input(5000, 5050, 45, 600), rules)).toBe('freeze');
+	});
+
+	it('reads the usual rate from the weekday/hour heatmap', () => {
+		// Two Mondays (2025-06-02 and 06-09) with 300 and 500 signatures at 09:00 UTC
+		const buckets = [
+			{ start: '2025-06-02T09:00:00.000Z', signaturesAdded: 300, closingTotal: 300, samples: 1 },
+			{ start: '2025-06-09T09:00:00.000Z', signaturesAdded: 500, closingTotal: 800, samples: 1 }
+		];
+		const now = new Date('2025-06-09T09:30:00Z');
+		const heatmap = weekdayHourHeatmap(buckets, 'UTC', now);
+
+		expect(expectedPerHourAt(heatmap, now, 'UTC')).toBe(400);
+		expect(expectedPerHourAt(heatmap, new Date('2025-06-09T10:30:00Z'), 'UTC')).toBe(0);
+	});
+});
@@ -0,0 +1,104 @@
+// src/lib/anomalies.ts
+import { loadAllTimeBuckets, weekdayHourHeatmap, weekdayOf, type Heatmap } from './analytics.js';
+import { DEFAULT_TIMEZONE, toWallClock, type AggregatedBucket } from './timebuckets.js';
+
+// 🚩 Counts the EU API shouldn't be reporting: a total that goes down, one that stands
+// still through hours that normally bring plenty of signatures, and jumps far beyond
+// what the usual rate could explain. The snapshot that shows one carries the flag.
+
+export type AnomalyKind = 'decrease' | 'freeze' | 'jump';
+
+export interface AnomalyRules {
+    freezeMinutes: number;   // shortest stretch without change that can count as frozen (0 disables)
+    freezeExpected: number;  // ...and only when the usual rate would have brought this many signatures meanwhile
+    jumpSigma: number;       // standard deviations above the expected change that make a jump (0 disables)
+    jumpMinimum: number;     // smaller changes are never called jumps
+}
+
+export interface AnomalyInput {
+    previousCount: number | null;
+    signatureCount: number;
+    unchangedMs: number;     // since the count last moved
+    expectedPerHour: number | null; // what this hour of the week usually brings; null without any history
+}
+
+export const DEFAULT_ANOMALY_RULES: AnomalyRules = {
+    freezeMinutes: 30,
+    freezeExpected: 100,
+    jumpSigma: 10,
+    jumpMinimum: 1000
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Signatures the usual rate would have brought over `ms`
+const expectedOver = (expectedPerHour: number, ms: number) => expectedPerHour * (ms / HOUR_MS);
+
+// Still standing after long enough, at a time of the week when it normally wouldn't
+export function isFrozen(unchangedMs: number, expectedPerHour: number | null, rules: AnomalyRules): boolean {
+    return expectedPerHour !== null
+        && rules.freezeMinutes > 0
+        && unchangedMs >= rules.freezeMinutes * 60 * 1000
+        && expectedOver(expectedPerHour, unchangedMs) >= rules.freezeExpected;
+}
+
+// The flag for a changed count, most serious first. Signatures arrive roughly like a
+// Poisson process, so a change sits implausibly high when it's `jumpSigma` standard
+// deviations (the square root of the expected change) above the expected change.
+export function detectAnomaly(input: AnomalyInput, rules: AnomalyRules): AnomalyKind | null {
+    const { previousCount, signatureCount, unchangedMs, expectedPerHour } = input;
+    if (previousCount === null || signatureCount === previousCount) return null;
+
+    if (signatureCount < previousCount) return 'decrease';
+    if (expectedPerHour === null) return null;
+
+    const change = signatureCount - previousCount;
+    const expected = expectedOver(expectedPerHour, unchangedMs);
+    if (rules.jumpSigma > 0 && change >= rules.jumpMinimum
+        && change > expected + rules.jumpSigma * Math.sqrt(Math.max(expected, 1))) {
+        return 'jump';
+    }
+
+    return isFrozen(unchangedMs, expectedPerHour, rules) ? 'freeze' : null;
+}
+
+// e.g. ANOMALY_FREEZE_MINUTES="45" ANOMALY_JUMP_SIGMA="0"
+export function parseAnomalyRules(env: Record<string, string | undefined>): AnomalyRules {
+    const number = (value: string | undefined, fallback: number) =>
+        value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : fallback;
+
+    return {
+        freezeMinutes: number(env.ANOMALY_FREEZE_MINUTES, DEFAULT_ANOMALY_RULES.freezeMinutes),
+        freezeExpected: number(env.ANOMALY_FREEZE_EXPECTED, DEFAULT_ANOMALY_RULES.freezeExpected),
+        jumpSigma: number(env.ANOMALY_JUMP_SIGMA, DEFAULT_ANOMALY_RULES.jumpSigma),
+        jumpMinimum: number(env.ANOMALY_JUMP_MINIMUM, DEFAULT_ANOMALY_RULES.jumpMinimum)
+    };
+}
+
+// Average signatures in the heatmap slot `at` falls in
+export function expectedPerHourAt(heatmap: Heatmap, at: Date, timeZone: string): number {
+    const wall = toWallClock(at, timeZone);
+    return heatmap.cells[weekdayOf(wall.year, wall.month, wall.day) * 24 + wall.hour]?.average ?? 0;
+}
+
+// Rebuilt only when the all-time buckets behind it are reloaded
+const heatmaps = new Map<string, { buckets: AggregatedBucket[]; heatmap: Heatmap }>();
+
+// The usual rate for this hour of the week, from the same all-time buckets as the analytics
+// heatmap. Null without any history - then only decreases get flagged.
+export async function loadExpectedPerHour(initiativeId: string, at: Date = new Date()): Promise<number | null> {
+    try {
+        const buckets = await loadAllTimeBuckets(initiativeId, DEFAULT_TIMEZONE);
+        if (buckets.length === 0) return null;
+
+        let cached = heatmaps.get(initiativeId);
+        if (cached?.buckets !== buckets) {
+            cached = { buckets, heatmap: weekdayHourHeatmap(buckets, DEFAULT_TIMEZONE, at) };
+            heatmaps.set(initiativeId, cached);
+        }
+        return expectedPerHourAt(cached.heatmap, at, DEFAULT_TIMEZONE);
+    } catch (error) {
+        console.error(`[${initiativeId}] Failed to load the usual signature rate:`, error);
+        return null;
+    }
+}
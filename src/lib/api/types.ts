@@ -0,0 +1,71 @@
+// src/lib/api/types.ts
+import type { AnomalyKind } from '../anomalies.js';
+import type { GoalSource } from '../config.js';
+import type { Forecast } from '../forecast.js';
+
+// 📦 Response shapes of the public /api/v1 routes. They're a contract with third parties:
+// add fields freely, but renaming or removing one needs a /api/v2.
+// src/lib/server/api/openapi.ts describes the same shapes for the OpenAPI document.
+
+export interface ApiErrorV1 {
+    error: string;
+    details?: string[];
+}
+
+export interface InitiativeV1 {
+    id: string;
+    title: string;
+    collectionDeadline: string | null;
+    signatureCount: number | null; // null until the first poll
+    goal: number;
+    officialGoal: number | null;
+    goalOverride: number | null;
+    goalSource: GoalSource;
+    observedAt: string | null;
+    stale: boolean;
+}
+
+export interface InitiativeListV1 {
+    data: InitiativeV1[];
+    count: number;
+}
+
+export interface StatsV1 {
+    initiative: string;
+    currentSignatures: number;
+    goal: number;
+    officialGoal: number | null;
+    goalOverride: number | null;
+    goalSource: GoalSource;
+    secRate: number;
+    minRate: number;
+    hourlyRate: number;
+    dailyRate: number;
+    peakHour: number;
+    totalToday: number;
+    activityLevel: string;
+    timeZone: string;
+    forecast: Forecast | null;
+}
+
+// Same snake_case fields as the rows /api/history has always returned
+export interface SnapshotV1 {
+    id: number;
+    timestamp: string;
+    signature_count: number;
+    change_amount: number;
+    goal: number;
+    official_goal: number | null;
+    goal_override: number | null;
+    goal_source: GoalSource;
+    gap_started_at: string | null;
+    anomaly: AnomalyKind | null;
+}
+
+export interface HistoryPageV1 {
+    initiative: string;
+    data: SnapshotV1[];
+    count: number;
+    // Pass back as `cursor` for the next page; null once the page comes back short
+    nextCursor: string | null;
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { describeGoal, findGoalOverride, parseGoalOverrides } from './config';
+
+describe('goal settings', () => {
+	const settings = parseGoalOverrides('045:1500000, 045:2000000@2025-09-01T00:00:00Z, 046:1200000');
+
+	it('picks the override in effect at a point in time', () => {
+		expect(findGoalOverride(settings, '045', new Date('2025-08-01T00:00:00Z'))).toBe(1500000);
+		expect(findGoalOverride(settings, '045', new Date('2025-09-02T00:00:00Z'))).toBe(2000000);
+		expect(findGoalOverride(settings, '047', new Date())).toBeNull();
+	});
+
+	it('keeps the official goal next to the override', () => {
+		expect(describeGoal(1000000, 1500000, 1000000)).toEqual({
+			goal: 1500000,
+			officialGoal: 1000000,
+			goalOverride: 1500000,
+			goalSource: 'override'
+		});
+		expect(describeGoal(1000000, null, 1000000).goalSource).toBe('official');
+		expect(describeGoal(null, null, 1000000).goalSource).toBe('default');
+	});
+});
@@ -1,13 +1,108 @@
-// 🎯 SINGLE PLACE TO CHANGE THE GOAL
-export const GOAL_OVERRIDE = 1500000;
-
-// Helper function to apply goal override to any data
-export function applyGoalOverride(data: any): any {
-    if (!data) return data;
-    
-    if (Array.isArray(data)) {
-        return data.map(item => ({ ...item, goal: GOAL_OVERRIDE }));
-    }
-    
-    return { ...data, goal: GOAL_OVERRIDE };
-}
\ No newline at end of file
+// src/lib/config.ts
+import { getSnapshotStore } from './server/store/index.js';
+
+// 🎯 Goal overrides are configured at runtime, each with the date it takes effect from.
+// Snapshots store the official goal and the override side by side, so changing a goal
+// never rewrites the percentages of snapshots taken before it.
+
+export interface GoalSetting {
+    initiativeId: string;
+    goal: number;
+    effectiveFrom: Date;
+}
+
+export type GoalSource = 'official' | 'override' | 'default';
+
+export interface GoalInfo {
+    goal: number;
+    officialGoal: number | null;
+    goalOverride: number | null;
+    goalSource: GoalSource;
+}
+
+const SETTINGS_TTL_MS = 60 * 1000;
+
+let cachedSettings: GoalSetting[] | null = null;
+let cachedAt = 0;
+
+// e.g. GOAL_OVERRIDES="045:1500000,045:2000000@2025-09-01T00:00:00Z"
+export function parseGoalOverrides(value: string | undefined): GoalSetting[] {
+    if (!value) return [];
+
+    return value
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const [target, effectiveFrom] = entry.split('@');
+            const [initiativeId, goal] = target.split(':');
+            return {
+                initiativeId: initiativeId.trim(),
+                goal: parseInt(goal),
+                effectiveFrom: effectiveFrom ? new Date(effectiveFrom) : new Date(0)
+            };
+        })
+        .filter(setting => Number.isFinite(setting.goal) && !isNaN(setting.effectiveFrom.getTime()));
+}
+
+async function loadDatabaseSettings(): Promise<GoalSetting[]> {
+    let rows;
+    try {
+        rows = await getSnapshotStore().listGoalSettings();
+    } catch (error) {
+        console.error('Failed to load goal settings:', error);
+        return [];
+    }
+
+    return rows.map(row => ({
+        initiativeId: row.initiative_id,
+        goal: row.goal,
+        effectiveFrom: new Date(row.effective_from)
+    }));
+}
+
+// Env settings plus the goal_settings table, refreshed once a minute
+export async function getGoalSettings(): Promise<GoalSetting[]> {
+    if (cachedSettings && Date.now() - cachedAt < SETTINGS_TTL_MS) {
+        return cachedSettings;
+    }
+
+    cachedSettings = [
+        ...parseGoalOverrides(process.env.GOAL_OVERRIDES),
+        ...(await loadDatabaseSettings())
+    ];
+    cachedAt = Date.now();
+
+    return cachedSettings;
+}
+
+// The override in effect for an initiative at a point in time, if any
+export function findGoalOverride(settings: GoalSetting[], initiativeId: string, at: Date = new Date()): number | null {
+    let current: GoalSetting | null = null;
+
+    for (const setting of settings) {
+        if (setting.initiativeId !== initiativeId || setting.effectiveFrom > at) continue;
+        if (!current || setting.effectiveFrom >= current.effectiveFrom) {
+            current = setting;
+        }
+    }
+
+    return current?.goal ?? null;
+}
+
+// Which goal a number is based on: the override, what the EU API reported, or our default
+export function describeGoal(officialGoal: number | null, goalOverride: number | null, defaultGoal: number): GoalInfo {
+    if (goalOverride) {
+        return { goal: goalOverride, officialGoal, goalOverride, goalSource: 'override' };
+    }
+
+    if (officialGoal) {
+        return { goal: officialGoal, officialGoal, goalOverride: null, goalSource: 'official' };
+    }
+
+    return { goal: defaultGoal, officialGoal: null, goalOverride: null, goalSource: 'default' };
+}
+
+// Goal source of a stored snapshot row
+export const goalSourceOf = (row: { official_goal: number | null; goal_override: number | null }): GoalSource =>
+    row.goal_override ? 'override' : row.official_goal ? 'official' : 'default';
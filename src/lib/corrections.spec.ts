@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { removeSnapshot } from './corrections';
+import { compact, DEFAULT_RETENTION } from './rollups';
+import { MemorySnapshotStore, setSnapshotStore } from './server/store/index';
+
+const start = new Date('2025-07-01T10:00:00Z').getTime();
+const at = (seconds: number) => new Date(start + seconds * 1000).toISOString();
+
+describe('removeSnapshot', () => {
+	let store: MemorySnapshotStore;
+
+	// 100, a bogus jump to 500 alone in its minute, back down to 110, and two hours later 120
+	beforeEach(async () => {
+		store = new MemorySnapshotStore();
+		setSnapshotStore(store);
+
+		for (const [seconds, count, change] of [[0, 100, 0], [120, 500, 400], [210, 110, -390], [250, 115, 5], [7200, 120, 5]]) {
+			await store.insertSnapshot({
+				initiative_id: '045',
+				signature_count: count,
+				change_amount: change,
+				goal: 1000000,
+				official_goal: 1000000,
+				goal_override: null,
+				gap_started_at: null,
+				anomaly: change === 400 ? 'jump' : null,
+				idempotency_key: null,
+				timestamp: at(seconds)
+			});
+		}
+	});
+
+	it('moves the change to the next snapshot', async () => {
+		const [, jump] = await store.listSnapshots({ initiativeId: '045' });
+		const result = await removeSnapshot(jump.id);
+
+		expect(result?.removed.signature_count).toBe(500);
+		expect(result?.next?.change_amount).toBe(10);
+		expect((await store.listSnapshots({ initiativeId: '045' })).map(row => row.change_amount)).toEqual([0, 10, 5, 5]);
+		expect(await removeSnapshot(jump.id)).toBeNull();
+	});
+
+	it('rebuilds the rollups already written over it', async () => {
+		await compact('045', { ...DEFAULT_RETENTION, rawDays: 0 }, start + 2 * 24 * 60 * 60 * 1000);
+
+		const [, jump] = await store.listSnapshots({ initiativeId: '045' });
+		await removeSnapshot(jump.id);
+
+		const minutes = await store.listRollups('minute', { initiativeId: '045' });
+		expect(minutes.map(row => [row.signatures_added, row.closing_total, row.samples])).toEqual([
+			[0, 100, 1],
+			[0, 100, 0], // the jump's minute, now empty
+			[10, 110, 1],
+			[5, 115, 1],
+			[5, 120, 1]
+		]);
+
+		const [hour] = await store.listRollups('hour', { initiativeId: '045' });
+		expect([hour.signatures_added, hour.closing_total, hour.samples]).toEqual([15, 115, 3]);
+	});
+
+	it('keeps the change where it was when the delete fails', async () => {
+		const [, jump] = await store.listSnapshots({ initiativeId: '045' });
+		vi.spyOn(store, 'deleteSnapshot').mockRejectedValueOnce(new Error('connection reset'));
+
+		await expect(removeSnapshot(jump.id)).rejects.toThrow('connection reset');
+		expect((await store.listSnapshots({ initiativeId: '045' })).map(row => row.change_amount)).toEqual([0, 400, -390, 5, 5]);
+	});
+
+	it('reports the removal even when its rollups cannot be rebuilt', async () => {
+		await compact('045', { ...DEFAULT_RETENTION, rawDays: 0 }, start + 2 * 24 * 60 * 60 * 1000);
+
+		const [, jump] = await store.listSnapshots({ initiativeId: '045' });
+		vi.spyOn(console, 'error').mockImplementationOnce(() => {});
+		vi.spyOn(store, 'upsertRollups').mockRejectedValueOnce(new Error('timeout'));
+
+		const result = await removeSnapshot(jump.id);
+		expect(result).toMatchObject({ removed: { id: jump.id }, next: { change_amount: 10 }, rollupError: 'timeout' });
+		expect(await store.getSnapshot(jump.id)).toBeNull();
+	});
+});
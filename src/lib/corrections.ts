@@ -0,0 +1,50 @@
+// src/lib/corrections.ts
+import { getSnapshotStore, type SignatureSnapshot } from './server/store/index.js';
+import { rebuildRollups } from './rollups.js';
+
+// 🧹 Deleting a bad snapshot (a bogus jump, a count from a broken upstream response) without
+// leaving the totals wrong: its change moves to the snapshot after it, which then counts from
+// the one before, and any rollups already written over either of them are rebuilt.
+
+export interface RemovedSnapshot {
+    removed: SignatureSnapshot;
+    next: SignatureSnapshot | null; // the snapshot that took over its change, if any
+    rollupError: string | null; // the snapshot is gone, but its rollups still count it
+}
+
+// Null when there's no snapshot with that id. The next snapshot takes over the change before
+// the row goes (and gives it back if the delete fails), so a failure never loses the change.
+export async function removeSnapshot(id: number): Promise<RemovedSnapshot | null> {
+    const store = getSnapshotStore();
+
+    const removed = await store.getSnapshot(id);
+    if (!removed) return null;
+
+    let [next] = await store.listSnapshots({
+        initiativeId: removed.initiative_id,
+        after: { timestamp: removed.timestamp, id: removed.id },
+        limit: 1
+    });
+    if (next) {
+        next = { ...next, change_amount: next.change_amount + removed.change_amount };
+        await store.setSnapshotChange(next.id, next.change_amount);
+    }
+
+    try {
+        if (!await store.deleteSnapshot(id)) throw new Error(`Snapshot ${id} was already deleted`);
+    } catch (error) {
+        if (next) await store.setSnapshotChange(next.id, next.change_amount - removed.change_amount);
+        throw error;
+    }
+
+    let rollupError = null;
+    try {
+        const times = [removed, next].flatMap(row => row ? [new Date(row.timestamp).getTime()] : []);
+        await rebuildRollups(removed.initiative_id, removed, times);
+    } catch (error) {
+        console.error(`Failed to rebuild the rollups around snapshot ${id}:`, error);
+        rollupError = error instanceof Error ? error.message : String(error);
+    }
+
+    return { removed, next: next ?? null, rollupError };
+}
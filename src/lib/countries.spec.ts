@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { MEMBER_STATES, MIN_COUNTRIES_REQUIRED, countryThreshold, evaluateThresholds, latestCountryCounts } from './countries';
+
+const threshold = (code: string) => countryThreshold(MEMBER_STATES.find((state) => state.code === code)!);
+
+describe('country thresholds', () => {
+	it('marks a country passed once it reaches its threshold', () => {
+		const progress = evaluateThresholds(
+			[
+				{ countryCode: 'MT', signatureCount: threshold('MT') },
+				{ countryCode: 'LU', signatureCount: threshold('LU') - 1 }
+			],
+			{ MT: 120 }
+		);
+
+		const malta = progress.countries.find((country) => country.code === 'MT')!;
+		expect(malta).toMatchObject({ passed: true, percent: 100, dailyRate: 120 });
+		expect(progress.countries.find((country) => country.code === 'LU')!.passed).toBe(false);
+		expect(progress.countries.find((country) => country.code === 'DE')).toMatchObject({ signatures: 0, dailyRate: 0 });
+		expect(progress.countries).toHaveLength(MEMBER_STATES.length);
+		expect(progress).toMatchObject({ countriesPassed: 1, thresholdMet: false });
+	});
+
+	it('meets the threshold with the minimum number of countries passed', () => {
+		const passed = MEMBER_STATES.slice(0, MIN_COUNTRIES_REQUIRED).map((state) => ({
+			countryCode: state.code,
+			signatureCount: countryThreshold(state)
+		}));
+
+		expect(evaluateThresholds(passed)).toMatchObject({
+			countriesPassed: MIN_COUNTRIES_REQUIRED,
+			countriesRequired: MIN_COUNTRIES_REQUIRED,
+			thresholdMet: true
+		});
+		expect(evaluateThresholds(passed.slice(1)).thresholdMet).toBe(false);
+	});
+
+	it('keeps the first (newest) row per country', () => {
+		expect(
+			latestCountryCounts([
+				{ country_code: 'DE', signature_count: 30 },
+				{ country_code: 'FR', signature_count: 20 },
+				{ country_code: 'DE', signature_count: 10 }
+			])
+		).toEqual([
+			{ countryCode: 'DE', signatureCount: 30 },
+			{ countryCode: 'FR', signatureCount: 20 }
+		]);
+	});
+});
@@ -0,0 +1,125 @@
+// src/lib/countries.ts
+
+export interface MemberState {
+    code: string;
+    name: string;
+    meps: number;
+}
+
+export interface CountryCount {
+    countryCode: string;
+    signatureCount: number;
+}
+
+export interface CountryStats {
+    code: string;
+    name: string;
+    signatures: number;
+    threshold: number;
+    percent: number;
+    dailyRate: number;
+    passed: boolean;
+}
+
+export interface ThresholdProgress {
+    countries: CountryStats[];
+    countriesPassed: number;
+    countriesRequired: number;
+    thresholdMet: boolean;
+}
+
+// An initiative needs at least this many member states over their threshold
+export const MIN_COUNTRIES_REQUIRED = 7;
+
+// Thresholds are the number of MEPs elected in each member state × the total number of seats (720)
+const PARLIAMENT_SEATS = 720;
+
+export const MEMBER_STATES: MemberState[] = [
+    { code: 'AT', name: 'Austria', meps: 20 },
+    { code: 'BE', name: 'Belgium', meps: 22 },
+    { code: 'BG', name: 'Bulgaria', meps: 17 },
+    { code: 'HR', name: 'Croatia', meps: 12 },
+    { code: 'CY', name: 'Cyprus', meps: 6 },
+    { code: 'CZ', name: 'Czechia', meps: 21 },
+    { code: 'DK', name: 'Denmark', meps: 15 },
+    { code: 'EE', name: 'Estonia', meps: 7 },
+    { code: 'FI', name: 'Finland', meps: 15 },
+    { code: 'FR', name: 'France', meps: 81 },
+    { code: 'DE', name: 'Germany', meps: 96 },
+    { code: 'EL', name: 'Greece', meps: 21 },
+    { code: 'HU', name: 'Hungary', meps: 21 },
+    { code: 'IE', name: 'Ireland', meps: 14 },
+    { code: 'IT', name: 'Italy', meps: 76 },
+    { code: 'LV', name: 'Latvia', meps: 9 },
+    { code: 'LT', name: 'Lithuania', meps: 11 },
+    { code: 'LU', name: 'Luxembourg', meps: 6 },
+    { code: 'MT', name: 'Malta', meps: 6 },
+    { code: 'NL', name: 'Netherlands', meps: 31 },
+    { code: 'PL', name: 'Poland', meps: 53 },
+    { code: 'PT', name: 'Portugal', meps: 21 },
+    { code: 'RO', name: 'Romania', meps: 33 },
+    { code: 'SK', name: 'Slovakia', meps: 15 },
+    { code: 'SI', name: 'Slovenia', meps: 9 },
+    { code: 'ES', name: 'Spain', meps: 61 },
+    { code: 'SE', name: 'Sweden', meps: 21 }
+];
+
+export const countryThreshold = (state: MemberState) => state.meps * PARLIAMENT_SEATS;
+
+// The ECI API uses EL for Greece, but GR shows up in some payloads
+const normalizeCountryCode = (code: string) => {
+    const upper = code.toUpperCase();
+    return upper === 'GR' ? 'EL' : upper;
+};
+
+type RawCountryEntry = Record<string, unknown>;
+
+// Pull per-country counts out of an ECI progression payload, ignoring anything we can't read
+export function parseCountryCounts(rawData: { countries?: unknown } | null): CountryCount[] {
+    const entries: RawCountryEntry[] = Array.isArray(rawData?.countries) ? rawData.countries : [];
+
+    return entries
+        .map(entry => ({
+            countryCode: normalizeCountryCode(String(entry.countryCode ?? entry.isoCode ?? '')),
+            signatureCount: Number(entry.signatureCount ?? entry.total ?? entry.count)
+        }))
+        .filter(entry => entry.countryCode && Number.isFinite(entry.signatureCount));
+}
+
+// Newest count per country from stored country_snapshots rows, sorted newest first
+export function latestCountryCounts(rows: { country_code: string; signature_count: number }[]): CountryCount[] {
+    const latest = new Map<string, number>();
+    for (const row of rows) {
+        if (!latest.has(row.country_code)) latest.set(row.country_code, row.signature_count);
+    }
+    return [...latest].map(([countryCode, signatureCount]) => ({ countryCode, signatureCount }));
+}
+
+// Every member state against its threshold, given the latest counts and the last day's growth
+export function evaluateThresholds(latest: CountryCount[], dailyChanges: Record<string, number> = {}): ThresholdProgress {
+    const latestCounts = new Map(latest.map(country => [country.countryCode, country.signatureCount]));
+
+    const countries = MEMBER_STATES.map(state => {
+        const signatures = latestCounts.get(state.code) || 0;
+        const threshold = countryThreshold(state);
+
+        return {
+            code: state.code,
+            name: state.name,
+            signatures,
+            threshold,
+            percent: Math.round((signatures / threshold) * 10000) / 100, // 2 decimal places
+            dailyRate: dailyChanges[state.code] || 0,
+            passed: signatures >= threshold
+        };
+    });
+
+    const countriesPassed = countries.filter(country => country.passed).length;
+
+    return {
+        countries,
+        countriesPassed,
+        countriesRequired: MIN_COUNTRIES_REQUIRED,
+        thresholdMet: countriesPassed >= MIN_COUNTRIES_REQUIRED
+    };
+}
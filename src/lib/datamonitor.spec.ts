@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { getMonitorHealth, monitorRoleFromEnv, pollNow, setUpstream, startMonitoring, stopMonitoring, updateMonitorControls } from './datamonitor';
+import { SignatureSimulator } from './simulator';
+import { MemorySnapshotStore, setSnapshotStore } from './server/store/index';
+
+const SECOND = 1000;
+const START = new Date('2025-07-01T08:00:00Z').getTime();
+
+describe('snapshot idempotency', () => {
+	const store = new MemorySnapshotStore();
+
+	beforeAll(() => {
+		vi.useFakeTimers({ now: START });
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		// 100 → 101 → 99 → 101 → 99, polled every 5 seconds
+		const simulator = new SignatureSimulator({
+			startCount: 100,
+			steps: [
+				{ kind: 'set', signatureCount: 101, durationMs: 10 * SECOND },
+				{ kind: 'set', signatureCount: 99, durationMs: 10 * SECOND },
+				{ kind: 'set', signatureCount: 101, durationMs: 10 * SECOND },
+				{ kind: 'set', signatureCount: 99, durationMs: 10 * SECOND }
+			]
+		}, { startedAt: START });
+
+		setSnapshotStore(store);
+		setUpstream(simulator.fetch);
+		startMonitoring(5 * SECOND, 'embedded');
+	});
+
+	afterAll(async () => {
+		await stopMonitoring();
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('stores each change once, however many polls see it', async () => {
+		await vi.advanceTimersByTimeAsync(60 * SECOND);
+
+		// The second 101 → 99 repeats a change already stored
+		const rows = await store.listSnapshots({ initiativeId: '045' });
+		expect(rows.map((row) => [row.signature_count, row.change_amount])).toEqual([
+			[100, 0],
+			[101, 1],
+			[99, -2],
+			[101, 2]
+		]);
+		expect(new Set(rows.map((row) => row.idempotency_key)).size).toBe(rows.length);
+	});
+});
+
+describe('operator controls', () => {
+	const store = new MemorySnapshotStore();
+
+	beforeAll(() => {
+		vi.useFakeTimers({ now: START });
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		setSnapshotStore(store);
+		setUpstream(new SignatureSimulator({ startCount: 100, steps: [{ kind: 'steady', durationMs: 3600 * SECOND, perMinute: 60 }] }, { startedAt: START }).fetch);
+		startMonitoring(5 * SECOND, 'embedded');
+	});
+
+	afterAll(async () => {
+		await stopMonitoring();
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('stores pause and interval changes for every instance', async () => {
+		await updateMonitorControls({ paused: true });
+		expect(await store.getMonitorSettings('collector')).toEqual({ name: 'collector', paused: true, interval_ms: null });
+		expect(getMonitorHealth().paused).toBe(true);
+
+		// Changed by another instance: picked up from the store
+		await store.updateMonitorSettings('collector', { paused: false, interval_ms: 2000 });
+		await vi.advanceTimersByTimeAsync(20 * SECOND);
+		expect(getMonitorHealth()).toMatchObject({ paused: false, intervalMs: 2000 });
+	});
+
+	it('polls on demand only on the lease holder', async () => {
+		expect(await pollNow()).toMatchObject({ polled: [{ initiativeId: '045' }] });
+
+		// Another instance took over, and an in-memory broadcast can't reach it
+		await stopMonitoring();
+		await store.acquireLease('collector', 'another-instance', 30 * SECOND);
+		expect(await pollNow()).toBeNull();
+	});
+});
+
+describe('monitor role', () => {
+	it('polls from the web app by default only when nothing else can reach the store', () => {
+		expect(monitorRoleFromEnv({}, 'memory')).toBe('embedded');
+		expect(monitorRoleFromEnv({}, 'postgres')).toBe('reader');
+		expect(monitorRoleFromEnv({}, 'supabase')).toBe('reader');
+		expect(monitorRoleFromEnv({ MONITOR_MODE: 'embedded' }, 'postgres')).toBe('embedded');
+		expect(monitorRoleFromEnv({ MONITOR_MODE: 'reader' }, 'memory')).toBe('reader');
+	});
+});
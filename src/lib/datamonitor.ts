@@ -1,31 +1,161 @@
 // src/lib/datamonitor.ts
-import { supabase, hasValidSupabase } from './supabase.js';
-import { GOAL_OVERRIDE, applyGoalOverride } from './config.js';
+import { describeGoal, findGoalOverride, getGoalSettings, type GoalInfo } from './config.js';
+import { DEFAULT_INITIATIVE_ID, getInitiatives, type TrackedInitiative } from './initiatives.js';
+import { latestCountryCounts, parseCountryCounts, type CountryCount } from './countries.js';
+import { createAlertManager, type AlertSample } from './alerts.js';
+import { detectAnomaly, isFrozen, loadExpectedPerHour, parseAnomalyRules, type AnomalyKind } from './anomalies.js';
+import { getSnapshotStore, type MonitorSettings, type SignatureSnapshot, type StoreKind } from './server/store/index.js';
+import { LeaderLease, defaultHolderId } from './server/lease.js';
+import { getBroadcaster, type BroadcastMessage } from './server/broadcast.js';
+import { CircuitBreaker, fetchProgression, loadPollerConfig, type CircuitState, type UpstreamFetch } from './poller.js';
+import { compact, parseRetentionPolicy } from './rollups.js';
 
-const EU_API = "https://eci.ec.europa.eu/045/public/api/report/progression";
+// 🗳️ Who polls the EU API:
+// embedded  - the web app competes for the collector lease, polls while holding it
+//             and follows the snapshot store otherwise (the default with the memory store)
+// reader    - the web app only follows the store; run `npm run collector` next to it
+//             (the default with a database, which a collector can share)
+// collector - the standalone collector: competes for the lease, idles while another holds it
+export type MonitorRole = 'embedded' | 'reader' | 'collector';
 
-let cachedData: any = null;
-let lastSignatureCount: number | null = null;
+// What subscribers get for every change
+export interface LiveData extends GoalInfo {
+    initiativeId: string;
+    signatureCount: number;
+    countries: CountryCount[];
+    observedAt: string;
+    anomaly: AnomalyKind | null; // what the anomaly detector made of this count
+}
+
+// Upstream health for one initiative, as reported by /api/admin/monitor and the SSE stream
+export interface UpstreamStatus {
+    initiativeId: string;
+    stale: boolean;
+    lastSuccessAt: string | null;
+    lastFailureAt: string | null;
+    lastError: string | null;
+    consecutiveFailures: number;
+    latencyMs: number | null;
+    circuit: CircuitState;
+    retryAt: string | null;
+    frozenSince: string | null; // the count hasn't moved since, though it usually would have
+}
+
+export interface DatabaseHealth {
+    lastWriteAt: string | null;
+    lastErrorAt: string | null;
+    lastError: string | null;
+}
+
+// Polling state kept separately for every tracked initiative
+interface InitiativeState {
+    cachedData: LiveData | null;
+    lastSignatureCount: number | null;
+    lastCountryCounts: Map<string, number>;
+    lastChangeAt: Date;
+    lastObservedAt: Date | null; // when the count was last known - a poll, or the newest stored snapshot
+    restored: boolean;
+    breaker: CircuitBreaker;
+    inFlight: boolean;
+    lastSuccessAt: Date | null;
+    lastFailureAt: Date | null;
+    lastError: string | null;
+    latencyMs: number | null;
+    stale: boolean;
+    leaderReportedStale: boolean; // what the leader last broadcast, when we aren't it
+    frozenSince: Date | null;
+}
+
+// With a cross-instance broadcast, followers only read the store as a fallback
+const FALLBACK_FOLLOW_MS = 15000;
+
+const pollerConfig = loadPollerConfig();
+const anomalyRules = parseAnomalyRules(process.env);
+const retentionPolicy = parseRetentionPolicy(process.env);
+const lease = new LeaderLease(
+    getSnapshotStore,
+    'collector',
+    defaultHolderId(),
+    Number(process.env.COLLECTOR_LEASE_TTL_MS) || 30000
+);
+const initiativeStates = new Map<string, InitiativeState>();
+const databaseHealth: DatabaseHealth = { lastWriteAt: null, lastErrorAt: null, lastError: null };
 let monitorInterval: NodeJS.Timeout | null = null;
+let monitorRole: MonitorRole | null = null;
+let stopListening: (() => Promise<void>) | null = null;
+let lastFollowAt = 0;
+let lastControlsAt = 0;
+let lastCompactionAt = 0;
+let compacting = false;
+let pollIntervalMs = pollerConfig.intervalMs;
+let paused = false;
+let runTick: (() => void) | null = null;
+let connectionCount = 0; // open /api/data streams
+let startedAt: Date | null = null;
+let firstSuccessAt: Date | null = null; // first poll, store write or leader update that came through
+let upstream: UpstreamFetch = (url, init) => fetch(url, init);
 
-class SubscriberManager {
-    private subscribers = new Set<(data: any) => void>();
-    
-    subscribe(callback: (data: any) => void) {
+function getState(initiativeId: string): InitiativeState {
+    let state = initiativeStates.get(initiativeId);
+    if (!state) {
+        state = {
+            cachedData: null,
+            lastSignatureCount: null,
+            lastCountryCounts: new Map(),
+            lastChangeAt: new Date(),
+            lastObservedAt: null,
+            restored: false,
+            breaker: new CircuitBreaker(pollerConfig),
+            inFlight: false,
+            lastSuccessAt: null,
+            lastFailureAt: null,
+            lastError: null,
+            latencyMs: null,
+            stale: false,
+            leaderReportedStale: false,
+            frozenSince: null
+        };
+        initiativeStates.set(initiativeId, state);
+    }
+    return state;
+}
+
+const toStatus = (initiativeId: string, state: InitiativeState): UpstreamStatus => ({
+    initiativeId,
+    stale: state.stale,
+    lastSuccessAt: state.lastSuccessAt?.toISOString() ?? null,
+    lastFailureAt: state.lastFailureAt?.toISOString() ?? null,
+    lastError: state.lastError,
+    consecutiveFailures: state.breaker.consecutiveFailures,
+    latencyMs: state.latencyMs,
+    circuit: state.breaker.circuit,
+    retryAt: state.breaker.retryAt?.toISOString() ?? null,
+    frozenSince: state.frozenSince?.toISOString() ?? null
+});
+
+class SubscriberManager<T> {
+    private subscribers = new Set<(data: T) => void>();
+
+    // `replay` yields the current values a new subscriber should start from
+    constructor(private replay: () => T[]) {}
+
+    subscribe(callback: (data: T) => void) {
         this.subscribers.add(callback);
-        cachedData && callback(cachedData);
-        
+        for (const value of this.replay()) {
+            callback(value);
+        }
+
         return () => {
             this.subscribers.delete(callback);
             console.log(`🗑️ Subscriber removed (${this.subscribers.size} remaining)`);
         };
     }
-    
-    notify(data: any) {
+
+    notify(data: T) {
         if (this.subscribers.size === 0) return;
-        
+
         console.log(`📡 Notifying ${this.subscribers.size} subscribers...`);
-        
+
         for (const callback of this.subscribers) {
             try {
                 callback(data);
@@ -35,92 +165,558 @@ class SubscriberManager {
             }
         }
     }
-    
+
     get count() {
         return this.subscribers.size;
     }
 }
 
-const subscriberManager = new SubscriberManager();
+const subscriberManager = new SubscriberManager<LiveData>(() =>
+    [...initiativeStates.values()].flatMap(state => state.cachedData ? [state.cachedData] : []));
 
-export const subscribeToDataChanges = (callback: (data: any) => void) => 
-    subscriberManager.subscribe(callback);
+// Only stale or frozen initiatives are replayed - a fresh subscriber assumes live data
+const statusManager = new SubscriberManager<UpstreamStatus>(() =>
+    [...initiativeStates.entries()]
+        .filter(([, state]) => state.stale || state.frozenSince)
+        .map(([initiativeId, state]) => toStatus(initiativeId, state)));
+const alertManager = createAlertManager();
 
-export const getCurrentData = () => cachedData;
+// Alerts must never hold up polling
+const evaluateAlerts = (sample: AlertSample) => {
+    alertManager.evaluate(sample).catch(error => console.error('Alert evaluation failed:', error));
+};
 
-async function saveToSupabase(data: any, changeAmount: number) {
-    if (!hasValidSupabase) {
-        console.log('📊 Skipping Supabase save (build mode)');
-        return;
+// Pass an initiative ID to only receive updates for that initiative
+export const subscribeToDataChanges = (callback: (data: LiveData) => void, initiativeId?: string) =>
+    subscriberManager.subscribe(data => {
+        if (!initiativeId || data.initiativeId === initiativeId) callback(data);
+    });
+
+// Told whenever an initiative's upstream goes stale or frozen, or recovers
+export const subscribeToStatusChanges = (callback: (status: UpstreamStatus) => void, initiativeId?: string) =>
+    statusManager.subscribe(status => {
+        if (!initiativeId || status.initiativeId === initiativeId) callback(status);
+    });
+
+// A stored snapshot in the shape subscribers get
+export const liveDataFromSnapshot = (row: SignatureSnapshot, countries: CountryCount[] = []): LiveData => ({
+    initiativeId: row.initiative_id,
+    signatureCount: row.signature_count,
+    ...describeGoal(row.official_goal, row.goal_override, row.goal),
+    countries,
+    observedAt: row.timestamp,
+    anomaly: row.anomaly
+});
+
+export const getCurrentData = (initiativeId: string = DEFAULT_INITIATIVE_ID) =>
+    initiativeStates.get(initiativeId)?.cachedData ?? null;
+
+export const getUpstreamStatus = (initiativeId: string = DEFAULT_INITIATIVE_ID) =>
+    toStatus(initiativeId, getState(initiativeId));
+
+export const getMonitorHealth = () => ({
+    monitoring: monitorInterval !== null,
+    role: monitorRole,
+    startedAt: startedAt?.toISOString() ?? null,
+    firstSuccessAt: firstSuccessAt?.toISOString() ?? null,
+    paused,
+    intervalMs: pollIntervalMs,
+    broadcast: getBroadcaster().kind,
+    leader: lease.isHeld,
+    leaseHolder: lease.currentLeader,
+    subscribers: subscriberManager.count,
+    statusSubscribers: statusManager.count,
+    connections: connectionCount,
+    initiatives: getInitiatives().map(initiative => toStatus(initiative.id, getState(initiative.id))),
+    database: { store: getSnapshotStore().kind, ...databaseHealth }
+});
+
+const recordSuccess = () => { firstSuccessAt ??= new Date(); };
+
+function recordDatabaseWrite(error: unknown) {
+    if (error) {
+        databaseHealth.lastErrorAt = new Date().toISOString();
+        databaseHealth.lastError = error instanceof Error ? error.message : JSON.stringify(error);
+    } else {
+        databaseHealth.lastWriteAt = new Date().toISOString();
+        recordSuccess();
     }
+}
+
+// Another instance may have stored the same observation already (around a lease handover),
+// in a poll of its own a few seconds apart. Keyed on the change alone, so they agree; a count
+// that goes down and back up the same way twice only has the first round stored.
+const idempotencyKey = (data: LiveData, changeAmount: number) =>
+    `${data.initiativeId}:${data.signatureCount - changeAmount}->${data.signatureCount}`;
+
+// Returns false when another instance recorded this observation first
+async function saveSnapshot(data: LiveData, changeAmount: number, gapStartedAt: Date | null): Promise<boolean> {
+    const store = getSnapshotStore();
 
     try {
-        const { error } = await supabase
-            .from('signature_snapshots')
-            .insert({
-                signature_count: data.signatureCount,
-                goal: data.goal, // This will now be the overridden goal
-                change_amount: changeAmount
-            });
+        const inserted = await store.insertSnapshot({
+            initiative_id: data.initiativeId,
+            signature_count: data.signatureCount,
+            goal: data.goal,
+            official_goal: data.officialGoal,
+            goal_override: data.goalOverride,
+            change_amount: changeAmount,
+            gap_started_at: gapStartedAt?.toISOString() ?? null,
+            anomaly: data.anomaly,
+            idempotency_key: idempotencyKey(data, changeAmount),
+            // Stored under the poll time, so SSE event IDs and stored rows line up
+            timestamp: data.observedAt
+        });
+
+        recordDatabaseWrite(null);
+        console.log(inserted
+            ? `📊 [${data.initiativeId}] Data saved to ${store.kind} store (${data.goalSource} goal)`
+            : `📊 [${data.initiativeId}] ${data.signatureCount} was already stored by another instance`);
+        return inserted;
+    } catch (error) {
+        recordDatabaseWrite(error);
+        console.error('Failed to save snapshot:', error);
+        return true;
+    }
+}
+
+// Tell the other instances; they're still followed through the store if this fails
+function publish(type: 'snapshot' | 'status' | 'controls', payload: LiveData | UpstreamStatus | MonitorSettings) {
+    getBroadcaster()
+        .publish({ origin: lease.holder, type, payload })
+        .catch(error => console.error(`Failed to broadcast ${type}:`, error));
+}
+
+// Updates from the leader (or a collector) arrive here on every other instance
+function handleBroadcast(message: BroadcastMessage) {
+    if (message.origin === lease.holder) return;
+
+    if (message.type === 'snapshot') {
+        const data = message.payload as LiveData;
+        const state = getState(data.initiativeId);
+        if (data.signatureCount === state.lastSignatureCount) return;
 
-        if (error) {
-            console.error('Supabase save error:', error);
-        } else {
-            console.log('📊 Data saved to Supabase with overridden goal');
+        state.lastSignatureCount = data.signatureCount;
+        state.lastChangeAt = new Date(data.observedAt);
+        state.lastObservedAt = new Date(data.observedAt);
+        state.lastCountryCounts = new Map(data.countries.map(country => [country.countryCode, country.signatureCount]));
+        state.cachedData = data;
+        recordSuccess();
+        subscriberManager.notify(data);
+    } else if (message.type === 'status') {
+        const status = message.payload as UpstreamStatus;
+        const state = getState(status.initiativeId);
+        state.leaderReportedStale = status.stale;
+
+        // Staleness is worked out here; whether the count is frozen only the leader can tell
+        if (status.frozenSince !== (state.frozenSince?.toISOString() ?? null)) {
+            state.frozenSince = status.frozenSince ? new Date(status.frozenSince) : null;
+            statusManager.notify(toStatus(status.initiativeId, state));
         }
+    } else if (message.type === 'controls') {
+        applyControls(message.payload as MonitorSettings);
+    } else if (message.type === 'poll' && lease.isHeld) {
+        pollInitiatives().catch(error => console.error('Requested poll failed:', error));
+    }
+}
+
+// Store a row for every country whose count moved since the last poll
+async function saveCountrySnapshots(initiativeId: string, countries: CountryCount[], lastCounts: Map<string, number>) {
+    const rows = countries
+        .filter(country => country.signatureCount !== lastCounts.get(country.countryCode))
+        .map(country => {
+            const previous = lastCounts.get(country.countryCode);
+            return {
+                initiative_id: initiativeId,
+                country_code: country.countryCode,
+                signature_count: country.signatureCount,
+                change_amount: previous !== undefined ? country.signatureCount - previous : 0
+            };
+        });
+
+    if (rows.length === 0) return;
+
+    try {
+        await getSnapshotStore().insertCountrySnapshots(rows);
+
+        recordDatabaseWrite(null);
+        console.log(`🌍 [${initiativeId}] Saved ${rows.length} country snapshot(s)`);
     } catch (error) {
-        console.error('Failed to save to Supabase:', error);
+        recordDatabaseWrite(error);
+        console.error('Failed to save country snapshots:', error);
     }
 }
 
-async function checkForChanges() {
+// Pick up where the last run left off, so the first change after a restart is measured
+// against the newest stored snapshot rather than recorded as zero
+async function restoreLastSnapshot(initiativeId: string, state: InitiativeState) {
+    state.restored = true;
+
+    try {
+        const [latest] = await getSnapshotStore().listSnapshots({ initiativeId, order: 'desc', limit: 1 });
+        if (!latest) return;
+
+        state.lastSignatureCount = latest.signature_count;
+        state.lastObservedAt = new Date(latest.timestamp);
+        state.lastChangeAt = new Date(latest.timestamp);
+        console.log(`♻️ [${initiativeId}] Restored ${latest.signature_count} signatures from ${latest.timestamp}`);
+    } catch (error) {
+        console.error(`[${initiativeId}] Failed to restore the last snapshot:`, error);
+    }
+}
+
+// Flip the stale flag when the last successful poll gets too old, and tell subscribers.
+// Followers can't see the leader's polls, so they trust it while its lease is live.
+function updateStaleness(initiativeId: string, state: InitiativeState, leading: boolean) {
+    const lastSuccess = state.lastSuccessAt?.getTime() ?? 0;
+    const stale = leading
+        ? Date.now() - lastSuccess > pollerConfig.staleAfterMs
+        : !lease.leaderAlive() || state.leaderReportedStale;
+
+    if (stale === state.stale) return;
+    state.stale = stale;
+
+    console.log(stale ? `🟠 [${initiativeId}] Upstream data is stale` : `🟢 [${initiativeId}] Upstream recovered`);
+    statusManager.notify(toStatus(initiativeId, state));
+    if (leading) publish('status', toStatus(initiativeId, state));
+}
+
+// 🚩 Mark the count frozen (or moving again) and tell subscribers and the other instances
+function updateFreeze(initiativeId: string, state: InitiativeState, frozen: boolean) {
+    if (frozen === (state.frozenSince !== null)) return;
+    state.frozenSince = frozen ? state.lastChangeAt : null;
+
+    console.log(frozen
+        ? `🚩 [${initiativeId}] Count frozen since ${state.lastChangeAt.toISOString()}`
+        : `🟢 [${initiativeId}] Count moving again`);
+    statusManager.notify(toStatus(initiativeId, state));
+    publish('status', toStatus(initiativeId, state));
+}
+
+async function checkForChanges(initiative: TrackedInitiative) {
+    const state = getState(initiative.id);
+
+    // Skip while a slow poll is still running or while backing off
+    if (state.inFlight || !state.breaker.canAttempt()) return;
+    state.inFlight = true;
+
+    if (!state.restored) await restoreLastSnapshot(initiative.id, state);
+
+    const startedAt = Date.now();
+    let rawData;
+    try {
+        rawData = await fetchProgression(initiative.apiUrl, pollerConfig.timeoutMs, upstream);
+        state.breaker.recordSuccess();
+        state.latencyMs = Date.now() - startedAt;
+        state.lastSuccessAt = new Date();
+        state.lastError = null;
+        recordSuccess();
+    } catch (error) {
+        state.breaker.recordFailure();
+        state.lastFailureAt = new Date();
+        state.lastError = error instanceof Error ? error.message : String(error);
+        console.error(`[${initiative.id}] Upstream poll failed (${state.breaker.consecutiveFailures} in a row, circuit ${state.breaker.circuit}):`, state.lastError);
+        state.inFlight = false;
+        return;
+    }
+
+    // 🕳️ Nobody polled for a while: whatever changed since happened somewhere in that gap
+    const observedAt = new Date();
+    const gapStartedAt = state.lastObservedAt && observedAt.getTime() - state.lastObservedAt.getTime() > pollerConfig.gapThresholdMs
+        ? state.lastObservedAt
+        : null;
+    state.lastObservedAt = observedAt;
+
     try {
-        const response = await fetch(EU_API);
-        const rawData = await response.json();
-        
-        // 🎯 Apply goal override using the config
-        const data = applyGoalOverride(rawData);
-        
-        console.log(`🎯 Goal overridden: ${rawData.goal || 'undefined'} → ${GOAL_OVERRIDE}`);
-        
-        if (data.signatureCount === lastSignatureCount) {
-            console.log(`No change: ${data.signatureCount} signatures (${subscriberManager.count} subscribers)`);
+        // 🎯 Resolve the goal in effect right now, keeping the official one alongside
+        const goalOverride = findGoalOverride(await getGoalSettings(), initiative.id);
+        const data: LiveData = {
+            initiativeId: initiative.id,
+            signatureCount: rawData.signatureCount,
+            ...describeGoal(rawData.goal ?? null, goalOverride, initiative.goal),
+            countries: parseCountryCounts(rawData),
+            observedAt: observedAt.toISOString(),
+            anomaly: null
+        };
+        const expectedPerHour = await loadExpectedPerHour(initiative.id, observedAt);
+        const unchangedMs = observedAt.getTime() - state.lastChangeAt.getTime();
+
+        if (data.signatureCount === state.lastSignatureCount) {
+            console.log(`[${initiative.id}] No change: ${data.signatureCount} signatures (${subscriberManager.count} subscribers)`);
+
+            // Still record the gap, so coverage reports know nobody was watching
+            if (gapStartedAt) await saveSnapshot(data, 0, gapStartedAt);
+
+            // Restored from the store: nothing cached for subscribers yet
+            if (!state.cachedData) {
+                state.cachedData = data;
+                subscriberManager.notify(data);
+            }
+
+            updateFreeze(initiative.id, state, isFrozen(unchangedMs, expectedPerHour, anomalyRules));
+
+            evaluateAlerts({
+                initiativeId: initiative.id,
+                signatureCount: data.signatureCount,
+                previousCount: state.lastSignatureCount,
+                goal: data.goal,
+                lastChangeAt: state.lastChangeAt,
+                anomaly: state.frozenSince && { kind: 'freeze', since: state.frozenSince }
+            });
             return;
         }
-        
+
         // Calculate change amount
-        const changeAmount = lastSignatureCount ? 
-            data.signatureCount - lastSignatureCount : 0;
-        
-        console.log(`🎉 Signatures changed: ${lastSignatureCount} → ${data.signatureCount} (+${changeAmount})`);
-        console.log(`📈 Progress: ${((data.signatureCount / data.goal) * 100).toFixed(2)}% of ${data.goal.toLocaleString()}`);
-        
-        // Save to Supabase
-        await saveToSupabase(data, changeAmount);
-        
-        lastSignatureCount = data.signatureCount;
-        cachedData = data;
-        
+        const changeAmount = state.lastSignatureCount !== null ?
+            data.signatureCount - state.lastSignatureCount : 0;
+
+        console.log(`🎉 [${initiative.id}] Signatures changed: ${state.lastSignatureCount} → ${data.signatureCount} (+${changeAmount})`);
+        if (gapStartedAt) {
+            console.log(`🕳️ [${initiative.id}] Change spans a gap since ${gapStartedAt.toISOString()}`);
+        }
+        console.log(`📈 [${initiative.id}] Progress: ${((data.signatureCount / data.goal) * 100).toFixed(2)}% of ${data.goal.toLocaleString()}`);
+
+        data.anomaly = detectAnomaly({
+            previousCount: state.lastSignatureCount,
+            signatureCount: data.signatureCount,
+            unchangedMs,
+            expectedPerHour
+        }, anomalyRules);
+        if (data.anomaly) console.log(`🚩 [${initiative.id}] Anomaly: ${data.anomaly}`);
+
+        // Save to the snapshot store - unless another instance got there first,
+        // in which case it also handled the countries, the broadcast and the alerts
+        const ours = await saveSnapshot(data, changeAmount, gapStartedAt);
+        if (ours) await saveCountrySnapshots(initiative.id, data.countries, state.lastCountryCounts);
+
+        const previousCount = state.lastSignatureCount;
+        const previousChangeAt = state.lastChangeAt;
+        state.lastSignatureCount = data.signatureCount;
+        state.lastChangeAt = new Date();
+        state.lastCountryCounts = new Map(data.countries.map(country => [country.countryCode, country.signatureCount]));
+        state.cachedData = data;
+
         subscriberManager.notify(data);
-        
+        updateFreeze(initiative.id, state, false);
+        if (!ours) return;
+
+        publish('snapshot', data);
+        evaluateAlerts({
+            initiativeId: initiative.id,
+            signatureCount: data.signatureCount,
+            previousCount,
+            goal: data.goal,
+            lastChangeAt: state.lastChangeAt,
+            anomaly: data.anomaly && { kind: data.anomaly, since: previousChangeAt }
+        });
+
     } catch (error) {
-        console.error('Error checking for changes:', error);
+        console.error(`[${initiative.id}] Error checking for changes:`, error);
+    } finally {
+        state.inFlight = false;
     }
 }
 
-export function startMonitoring(intervalMs = 1000) {
+// Pick up whatever the leader stored since the last look
+async function followStore(initiative: TrackedInitiative) {
+    const state = getState(initiative.id);
+    if (state.inFlight) return;
+    state.inFlight = true;
+
+    try {
+        const store = getSnapshotStore();
+        const [latest] = await store.listSnapshots({ initiativeId: initiative.id, order: 'desc', limit: 1 });
+        if (!latest || latest.signature_count === state.lastSignatureCount) return;
+
+        const countryRows = await store.latestCountrySnapshots(initiative.id);
+
+        state.lastSignatureCount = latest.signature_count;
+        state.lastChangeAt = new Date(latest.timestamp);
+        state.lastObservedAt = new Date(latest.timestamp);
+        state.lastCountryCounts = new Map(latestCountryCounts(countryRows).map(country => [country.countryCode, country.signatureCount]));
+        state.cachedData = liveDataFromSnapshot(latest, latestCountryCounts(countryRows));
+        recordSuccess();
+
+        subscriberManager.notify(state.cachedData);
+    } catch (error) {
+        console.error(`[${initiative.id}] Failed to follow the snapshot store:`, error);
+    } finally {
+        state.inFlight = false;
+    }
+}
+
+// Roll up and prune in the background - only the leader writes, and never two runs at once
+function scheduleCompaction(now: number) {
+    if (retentionPolicy.intervalMs <= 0 || compacting || now - lastCompactionAt < retentionPolicy.intervalMs) return;
+    lastCompactionAt = now;
+    compacting = true;
+
+    Promise.all(getInitiatives().map(async initiative => {
+        try {
+            const { rolledUp, deleted } = await compact(initiative.id, retentionPolicy, now);
+            const removed = deleted.raw + deleted.minute + deleted.hour;
+            if (removed > 0) {
+                console.log(`🗜️ [${initiative.id}] Compacted: ${rolledUp.minute}/${rolledUp.hour}/${rolledUp.day} minute/hour/day rollups written, ${removed} rows pruned`);
+            }
+        } catch (error) {
+            console.error(`[${initiative.id}] Compaction failed:`, error);
+        }
+    })).finally(() => { compacting = false; });
+}
+
+async function tick(role: MonitorRole) {
+    // Pause and interval changes are broadcast too; reading them back covers instances the
+    // broadcast can't reach, and ones that started after the change
+    if (Date.now() - lastControlsAt >= FALLBACK_FOLLOW_MS) {
+        lastControlsAt = Date.now();
+        await loadControls();
+    }
+
+    const wasLeading = lease.isHeld;
+    const leading = role !== 'reader' && await lease.acquire();
+    if (role === 'reader') await lease.observe();
+
+    if (leading && !wasLeading) {
+        // Whatever we followed may be behind - start again from the newest stored snapshot
+        for (const state of initiativeStates.values()) state.restored = false;
+    }
+
+    // A collector without the lease has nothing to do
+    if (!leading && role === 'collector') return;
+
+    // Followers hear about changes through the broadcast; only reading the store
+    // every tick when the broadcast can't reach across instances
+    const now = Date.now();
+    const follow = !leading && (getBroadcaster().kind === 'memory' || now - lastFollowAt >= FALLBACK_FOLLOW_MS);
+    if (follow) lastFollowAt = now;
+    if (leading) scheduleCompaction(now);
+
+    await Promise.all(getInitiatives().map(async initiative => {
+        if (leading && !paused) await checkForChanges(initiative);
+        else if (follow) await followStore(initiative);
+        updateStaleness(initiative.id, getState(initiative.id), leading);
+    }));
+}
+
+// Swap the EU API out, e.g. for a SignatureSimulator in tests
+export function setUpstream(next: UpstreamFetch) {
+    upstream = next;
+}
+
+// Kept per instance, for the admin console's connection count
+export const connectionOpened = () => ++connectionCount;
+export const connectionClosed = () => --connectionCount;
+
+// 🎛️ Operator controls for the admin console. They're kept in the store under the lease's name
+// and broadcast, so they reach whichever instance polls - not just the one that was asked.
+// A paused leader keeps its lease, so no other instance starts polling in its place.
+function applyControls(settings: MonitorSettings) {
+    if (settings.paused !== paused) {
+        paused = settings.paused;
+        console.log(paused ? '⏸️ Polling paused' : '▶️ Polling resumed');
+    }
+
+    if (settings.interval_ms === null || settings.interval_ms === pollIntervalMs) return;
+    pollIntervalMs = settings.interval_ms;
+    console.log(`⏱️ Polling every ${pollIntervalMs/1000} seconds`);
+
+    if (!monitorInterval || !runTick) return;
+    clearInterval(monitorInterval);
+    monitorInterval = setInterval(runTick, pollIntervalMs);
+}
+
+async function loadControls() {
+    try {
+        const settings = await getSnapshotStore().getMonitorSettings(lease.name);
+        if (settings) applyControls(settings);
+    } catch (error) {
+        console.error('Failed to load the monitor controls:', error);
+    }
+}
+
+export async function updateMonitorControls(changes: { paused?: boolean; intervalMs?: number }) {
+    const settings = await getSnapshotStore().updateMonitorSettings(lease.name, {
+        ...(changes.paused !== undefined && { paused: changes.paused }),
+        ...(changes.intervalMs !== undefined && { interval_ms: changes.intervalMs })
+    });
+
+    applyControls(settings);
+    publish('controls', settings);
+}
+
+async function pollInitiatives(): Promise<UpstreamStatus[]> {
+    const initiatives = getInitiatives();
+    await Promise.all(initiatives.map(checkForChanges));
+    return initiatives.map(initiative => toStatus(initiative.id, getState(initiative.id)));
+}
+
+export type PollOutcome =
+    | { polled: UpstreamStatus[] }  // this instance holds the lease and polled
+    | { requestedFrom: string };    // the lease holder was asked to, over the broadcast
+
+// Polls every initiative once, paused or not - but only on the lease holder, like every other
+// poll. Null when this instance doesn't hold the lease and can't reach the one that does.
+export async function pollNow(): Promise<PollOutcome | null> {
+    if (lease.isHeld) return { polled: await pollInitiatives() };
+
+    const leader = lease.currentLeader;
+    if (!leader || getBroadcaster().kind === 'memory') return null;
+
+    await getBroadcaster().publish({ origin: lease.holder, type: 'poll', payload: null });
+    return { requestedFrom: leader };
+}
+
+// A stored snapshot was deleted - measure the next change from whatever is newest now
+export function reloadLastSnapshot(initiativeId: string) {
+    getState(initiativeId).restored = false;
+}
+
+// MONITOR_MODE when set; otherwise web instances only read from a database a collector can
+// write to, and poll themselves when the store is this process's memory nobody else can reach
+export function monitorRoleFromEnv(
+    env: Record<string, string | undefined> = process.env,
+    storeKind: StoreKind = getSnapshotStore().kind
+): MonitorRole {
+    if (env.MONITOR_MODE === 'embedded' || env.MONITOR_MODE === 'reader') return env.MONITOR_MODE;
+    return storeKind === 'memory' ? 'embedded' : 'reader';
+}
+
+export function startMonitoring(intervalMs = pollIntervalMs, role: MonitorRole = monitorRoleFromEnv()) {
     if (monitorInterval) return;
-    
-    console.log(`🚀 Starting monitoring every ${intervalMs/1000} seconds...`);
-    console.log(`🎯 Goal manually set to: ${GOAL_OVERRIDE.toLocaleString()}`);
-    
-    checkForChanges();
-    monitorInterval = setInterval(checkForChanges, intervalMs);
+    monitorRole = role;
+    pollIntervalMs = intervalMs;
+    startedAt = new Date();
+    firstSuccessAt = null;
+    lastControlsAt = 0;
+
+    const initiatives = getInitiatives();
+    console.log(`🚀 Starting ${role} monitoring of ${initiatives.length} initiative(s) every ${intervalMs/1000} seconds...`);
+    for (const initiative of initiatives) {
+        console.log(`🎯 [${initiative.id}] ${initiative.title}`);
+    }
+
+    getBroadcaster()
+        .subscribe(handleBroadcast)
+        .then(unsubscribe => { stopListening = unsubscribe; })
+        .catch(error => console.error('Failed to subscribe to broadcasts:', error));
+
+    runTick = () => tick(role).catch(error => console.error('Monitor tick failed:', error));
+    runTick();
+    monitorInterval = setInterval(runTick, intervalMs);
 }
 
-export function stopMonitoring() {
+export async function stopMonitoring() {
     if (monitorInterval) {
         clearInterval(monitorInterval);
         monitorInterval = null;
+        monitorRole = null;
+        runTick = null;
+        startedAt = null;
     }
+
+    await stopListening?.();
+    stopListening = null;
+
+    // Hand over right away instead of making the next leader wait out the TTL
+    await lease.release();
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { parseEmbedOptions, renderBadge } from './embed';
+
+describe('embed', () => {
+	it('falls back to defaults for unknown options', () => {
+		expect(parseEmbedOptions(new URL('http://x/api/badge.svg?theme=neon&size=huge&locale=%%%'))).toEqual({
+			theme: 'light',
+			locale: 'en-US',
+			size: 'medium'
+		});
+		expect(parseEmbedOptions(new URL('http://x/widget?theme=dark&size=small&locale=de-de'))).toEqual({
+			theme: 'dark',
+			locale: 'de-DE',
+			size: 'small'
+		});
+	});
+
+	it('renders the count and progress in the requested locale', () => {
+		const svg = renderBadge(
+			{ label: 'signatures', signatureCount: 1234567, goal: 1500000 },
+			{ theme: 'light', locale: 'de-DE', size: 'medium' }
+		);
+
+		expect(svg).toContain('1.234.567 · 82.3%');
+		expect(svg).toContain('height="20"');
+	});
+
+	it('escapes labels and shows a placeholder without data', () => {
+		const svg = renderBadge(
+			{ label: '<script>', signatureCount: null, goal: 1000000 },
+			{ theme: 'dark', locale: 'en-US', size: 'large' }
+		);
+
+		expect(svg).not.toContain('<script>');
+		expect(svg).toContain('unavailable');
+		expect(svg).toContain('height="28"');
+	});
+});
@@ -0,0 +1,119 @@
+// src/lib/embed.ts
+
+// 🧩 Options shared by the partner widget (/widget) and the badge (/api/badge.svg).
+// Both are served from the cached live data with CDN cache headers, so partner
+// traffic never triggers a poll or a database query of its own. The widget refreshes
+// by fetching its own cached data again once it expires - it never opens a stream.
+
+export type EmbedTheme = 'light' | 'dark';
+export type EmbedSize = 'small' | 'medium' | 'large';
+
+export interface EmbedOptions {
+    theme: EmbedTheme;
+    locale: string;
+    size: EmbedSize;
+}
+
+export interface BadgeData {
+    label: string;
+    signatureCount: number | null;
+    goal: number | null;
+}
+
+// Partners hit the CDN; we only render once a minute per variant
+export const EMBED_MAX_AGE_S = 60;
+export const EMBED_CACHE_CONTROL = `public, max-age=${EMBED_MAX_AGE_S}, s-maxage=${EMBED_MAX_AGE_S}, stale-while-revalidate=300`;
+// Nothing to show yet - try again soon rather than caching the placeholder
+export const EMBED_PENDING_MAX_AGE_S = 10;
+export const EMBED_PENDING_CACHE_CONTROL = `public, max-age=${EMBED_PENDING_MAX_AGE_S}, s-maxage=${EMBED_PENDING_MAX_AGE_S}`;
+
+const THEMES: EmbedTheme[] = ['light', 'dark'];
+const SIZES: EmbedSize[] = ['small', 'medium', 'large'];
+const DEFAULT_LOCALE = 'en-US';
+
+// Unknown or malformed values fall back to the defaults instead of failing the embed
+function parseLocale(value: string | null): string {
+    if (!value) return DEFAULT_LOCALE;
+
+    try {
+        return Intl.getCanonicalLocales(value)[0] ?? DEFAULT_LOCALE;
+    } catch {
+        return DEFAULT_LOCALE;
+    }
+}
+
+export function parseEmbedOptions(url: URL): EmbedOptions {
+    const theme = url.searchParams.get('theme') as EmbedTheme;
+    const size = url.searchParams.get('size') as EmbedSize;
+
+    return {
+        theme: THEMES.includes(theme) ? theme : 'light',
+        locale: parseLocale(url.searchParams.get('locale')),
+        size: SIZES.includes(size) ? size : 'medium'
+    };
+}
+
+export const formatCount = (value: number, locale: string) =>
+    new Intl.NumberFormat(locale).format(value);
+
+export const progressPercent = (signatureCount: number, goal: number) =>
+    goal > 0 ? Math.min(100, (signatureCount / goal) * 100) : 0;
+
+// iframe size per widget size, used by the widget page and the embed script
+export const WIDGET_DIMENSIONS: Record<EmbedSize, { width: number; height: number; ring: number }> = {
+    small: { width: 240, height: 80, ring: 56 },
+    medium: { width: 320, height: 110, ring: 80 },
+    large: { width: 420, height: 150, ring: 112 }
+};
+
+// Badge rendering
+
+const BADGE_SCALE: Record<EmbedSize, number> = { small: 0.85, medium: 1, large: 1.4 };
+
+const BADGE_COLORS: Record<EmbedTheme, { label: string; text: string; track: string; progress: string }> = {
+    light: { label: '#555', text: '#fff', track: '#9f9f9f', progress: '#10b981' },
+    dark: { label: '#1f2937', text: '#f9fafb', track: '#374151', progress: '#059669' }
+};
+
+const escapeXml = (value: string) =>
+    value.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Rough Verdana 11px width - close enough for shields-style padding
+const textWidth = (text: string) => Math.round([...text].length * 6.5);
+
+export function renderBadge(data: BadgeData, options: EmbedOptions): string {
+    const colors = BADGE_COLORS[options.theme];
+    const scale = BADGE_SCALE[options.size];
+
+    const value = data.signatureCount === null
+        ? 'unavailable'
+        : data.goal
+            ? `${formatCount(data.signatureCount, options.locale)} · ${progressPercent(data.signatureCount, data.goal).toFixed(1)}%`
+            : formatCount(data.signatureCount, options.locale);
+
+    const labelWidth = textWidth(data.label) + 12;
+    const valueWidth = textWidth(value) + 12;
+    const width = labelWidth + valueWidth;
+    const filled = data.signatureCount !== null && data.goal
+        ? Math.round(valueWidth * progressPercent(data.signatureCount, data.goal) / 100)
+        : 0;
+
+    const label = escapeXml(data.label);
+    const text = escapeXml(value);
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(width * scale)}" height="${Math.round(20 * scale)}" viewBox="0 0 ${width} 20" role="img" aria-label="${label}: ${text}">
+<title>${label}: ${text}</title>
+<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>
+<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>
+<g clip-path="url(#r)">
+<rect width="${labelWidth}" height="20" fill="${colors.label}"/>
+<rect x="${labelWidth}" width="${valueWidth}" height="20" fill="${colors.track}"/>
+<rect x="${labelWidth}" width="${filled}" height="20" fill="${colors.progress}"/>
+<rect width="${width}" height="20" fill="url(#s)"/>
+</g>
+<g fill="${colors.text}" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">
+<text x="${labelWidth / 2}" y="14">${label}</text>
+<text x="${labelWidth + valueWidth / 2}" y="14">${text}</text>
+</g>
+</svg>`;
+}
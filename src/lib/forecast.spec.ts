@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { forecastGoal, normalCdf } from './forecast';
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2025-07-10T00:00:00Z');
+
+// A week of steady signatures, busier during the day
+const points = Array.from({ length: 7 * 24 }, (_, i) => {
+	const start = new Date(now.getTime() - (7 * 24 - i) * HOUR);
+	const hour = start.getUTCHours();
+	return { start, added: hour >= 8 && hour < 22 ? 1500 : 300 };
+});
+
+describe('forecastGoal', () => {
+	it('projects completion with bounds around it', () => {
+		const forecast = forecastGoal({
+			points,
+			currentCount: 900000,
+			goal: 1000000,
+			deadline: new Date('2025-07-31T21:59:59Z'),
+			now,
+			timeZone: 'UTC'
+		});
+
+		expect(forecast).not.toBeNull();
+		const completion = new Date(forecast!.projectedCompletion!).getTime();
+		// ~23,200 a day → about 4.3 days for 100k
+		expect(completion).toBeGreaterThan(now.getTime() + 4 * 24 * HOUR);
+		expect(completion).toBeLessThan(now.getTime() + 5 * 24 * HOUR);
+		expect(new Date(forecast!.completionLow!).getTime()).toBeLessThanOrEqual(completion);
+		expect(new Date(forecast!.completionHigh!).getTime()).toBeGreaterThanOrEqual(completion);
+		expect(forecast!.probabilityOfGoal).toBeGreaterThan(0.99);
+		expect(forecast!.projectedAtDeadline).toBeGreaterThan(1000000);
+		expect(forecast!.projection).toHaveLength(24);
+	});
+
+	it('needs at least a day of history', () => {
+		expect(forecastGoal({ points: points.slice(-10), currentCount: 0, goal: 1, deadline: null, now, timeZone: 'UTC' })).toBeNull();
+	});
+
+	it('gives no chance once the deadline has passed', () => {
+		const forecast = forecastGoal({
+			points,
+			currentCount: 900000,
+			goal: 1000000,
+			deadline: new Date('2025-07-01T00:00:00Z'),
+			now,
+			timeZone: 'UTC'
+		});
+		expect(forecast!.probabilityOfGoal).toBe(0);
+		expect(forecast!.projectedAtDeadline).toBeNull();
+	});
+});
+
+describe('normalCdf', () => {
+	it('matches known values', () => {
+		expect(normalCdf(0)).toBeCloseTo(0.5, 5);
+		expect(normalCdf(1.645)).toBeCloseTo(0.95, 3);
+		expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3);
+	});
+});
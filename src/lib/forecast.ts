@@ -0,0 +1,195 @@
+// src/lib/forecast.ts
+import { toWallClock } from './timebuckets.js';
+
+// 🔮 Goal completion forecast.
+// Hourly signature counts are modelled as a linear trend times a daily (hour-of-day)
+// seasonal factor. Residual spread around the fit gives the uncertainty band, which
+// widens with the square root of the horizon.
+
+export interface HourlyPoint {
+    start: Date;
+    added: number;
+}
+
+export interface ForecastInput {
+    points: HourlyPoint[]; // complete hours, oldest first
+    currentCount: number;
+    goal: number;
+    deadline: Date | null;
+    now: Date;
+    timeZone: string;
+}
+
+export interface ProjectionPoint {
+    start: string;
+    expected: number;
+    low: number;
+    high: number;
+}
+
+export interface Forecast {
+    projectedCompletion: string | null;
+    completionLow: string | null;
+    completionHigh: string | null;
+    deadline: string | null;
+    projectedAtDeadline: number | null;
+    projectedAtDeadlineLow: number | null;
+    projectedAtDeadlineHigh: number | null;
+    probabilityOfGoal: number | null;
+    trendPerHour: number;
+    samples: number;
+    projection: ProjectionPoint[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const MIN_POINTS = 24;
+const MAX_HORIZON_HOURS = 365 * 24;
+const PROJECTION_HOURS = 24;
+const Z_90 = 1.645; // 90% interval
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26)
+export function normalCdf(x: number): number {
+    const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+    const erf = 1 - t * Math.exp(-(x * x) / 2) *
+        (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+interface Model {
+    intercept: number;
+    slope: number;
+    sigma: number;
+    seasonality: number[]; // 24 factors averaging 1
+    lastX: number;
+}
+
+function fitModel(points: HourlyPoint[], timeZone: string): Model {
+    const hours = points.map(point => toWallClock(point.start, timeZone).hour);
+    const mean = points.reduce((sum, point) => sum + point.added, 0) / points.length;
+
+    // Hour-of-day factors relative to the overall mean
+    const totals = new Array(24).fill(0);
+    const counts = new Array(24).fill(0);
+    points.forEach((point, i) => {
+        totals[hours[i]] += point.added;
+        counts[hours[i]]++;
+    });
+    const seasonality = totals.map((total, hour) =>
+        counts[hour] > 0 && mean > 0 ? total / counts[hour] / mean : 1);
+
+    // Linear trend on the deseasonalized series
+    const xs = points.map(point => (point.start.getTime() - points[0].start.getTime()) / HOUR_MS);
+    const ys = points.map((point, i) => point.added / Math.max(seasonality[hours[i]], 0.05));
+    const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+    const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+
+    let covariance = 0;
+    let variance = 0;
+    xs.forEach((x, i) => {
+        covariance += (x - meanX) * (ys[i] - meanY);
+        variance += (x - meanX) ** 2;
+    });
+    const slope = variance > 0 ? covariance / variance : 0;
+    const intercept = meanY - slope * meanX;
+
+    const residuals = xs.reduce((sum, x, i) => sum + (ys[i] - (intercept + slope * x)) ** 2, 0);
+    const sigma = Math.sqrt(residuals / Math.max(1, xs.length - 2));
+
+    return { intercept, slope, sigma, seasonality, lastX: xs[xs.length - 1] };
+}
+
+// Hours without snapshots had no new signatures - make them explicit zeros, up to the last complete hour
+function fillHourlyGaps(points: HourlyPoint[], now: Date): HourlyPoint[] {
+    if (points.length === 0) return [];
+
+    const byStart = new Map(points.map(point => [point.start.getTime(), point.added]));
+    const filled: HourlyPoint[] = [];
+
+    for (let start = points[0].start.getTime(); start + HOUR_MS <= now.getTime(); start += HOUR_MS) {
+        filled.push({ start: new Date(start), added: byStart.get(start) ?? 0 });
+    }
+
+    return filled;
+}
+
+export function forecastGoal(input: ForecastInput): Forecast | null {
+    const points = fillHourlyGaps(input.points, input.now);
+    if (points.length < MIN_POINTS) return null;
+
+    const model = fitModel(points, input.timeZone);
+    const remaining = input.goal - input.currentCount;
+    const firstFutureStart = points[points.length - 1].start.getTime() + HOUR_MS;
+
+    const deadlineHours = input.deadline
+        ? Math.floor((input.deadline.getTime() - firstFutureStart) / HOUR_MS)
+        : null;
+
+    let expectedTotal = 0;
+    let variance = 0;
+    let completion: number | null = remaining <= 0 ? input.now.getTime() : null;
+    let completionLow = completion;
+    let completionHigh = completion;
+    let atDeadline: { expected: number; sd: number } | null = null;
+    const projection: ProjectionPoint[] = [];
+
+    for (let k = 0; k < MAX_HORIZON_HOURS; k++) {
+        const start = firstFutureStart + k * HOUR_MS;
+        const factor = model.seasonality[toWallClock(new Date(start), input.timeZone).hour];
+        const expected = Math.max(0, model.intercept + model.slope * (model.lastX + 1 + k)) * factor;
+        const spread = model.sigma * factor;
+
+        expectedTotal += expected;
+        variance += spread ** 2;
+        const sd = Math.sqrt(variance);
+        const end = start + HOUR_MS;
+
+        if (k < PROJECTION_HOURS) {
+            projection.push({
+                start: new Date(start).toISOString(),
+                expected: Math.round(expected),
+                low: Math.round(Math.max(0, expected - Z_90 * spread)),
+                high: Math.round(expected + Z_90 * spread)
+            });
+        }
+
+        if (completionLow === null && expectedTotal + Z_90 * sd >= remaining) completionLow = end;
+        if (completion === null && expectedTotal >= remaining) completion = end;
+        if (completionHigh === null && expectedTotal - Z_90 * sd >= remaining) completionHigh = end;
+        if (deadlineHours !== null && k === deadlineHours - 1) atDeadline = { expected: expectedTotal, sd };
+
+        // Stop once nothing left to learn: goal bounds found (or the trend has died out) past the deadline
+        const settled = completionHigh !== null || (expected === 0 && model.slope <= 0);
+        const pastDeadline = deadlineHours === null || k >= deadlineHours;
+        if (settled && pastDeadline && k >= PROJECTION_HOURS) break;
+    }
+
+    let probabilityOfGoal: number | null = null;
+    if (remaining <= 0) {
+        probabilityOfGoal = 1;
+    } else if (deadlineHours !== null && deadlineHours <= 0) {
+        probabilityOfGoal = 0;
+    } else if (atDeadline) {
+        probabilityOfGoal = atDeadline.sd > 0
+            ? 1 - normalCdf((remaining - atDeadline.expected) / atDeadline.sd)
+            : atDeadline.expected >= remaining ? 1 : 0;
+    }
+
+    const toIso = (time: number | null) => time === null ? null : new Date(time).toISOString();
+    const projected = (offset: number) => atDeadline
+        ? Math.round(input.currentCount + Math.max(0, atDeadline.expected + offset * atDeadline.sd))
+        : null;
+
+    return {
+        projectedCompletion: toIso(completion),
+        completionLow: toIso(completionLow),
+        completionHigh: toIso(completionHigh),
+        deadline: input.deadline?.toISOString() ?? null,
+        projectedAtDeadline: projected(0),
+        projectedAtDeadlineLow: projected(-Z_90),
+        projectedAtDeadlineHigh: projected(Z_90),
+        probabilityOfGoal: probabilityOfGoal === null ? null : Math.round(probabilityOfGoal * 1000) / 1000,
+        trendPerHour: Math.round(Math.max(0, model.intercept + model.slope * model.lastX) * 10) / 10,
+        samples: points.length,
+        projection
+    };
+}
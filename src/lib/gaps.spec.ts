@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { GapDetector, changeBetween, coverage } from './gaps';
+import { aggregateSnapshots } from './timebuckets';
+
+const row = (id: number, timestamp: string, signatureCount: number, changeAmount: number, gapStartedAt: string | null = null) => ({
+	id,
+	timestamp,
+	signature_count: signatureCount,
+	change_amount: changeAmount,
+	gap_started_at: gapStartedAt
+});
+
+describe('gaps', () => {
+	const gapRow = row(2, '2025-07-01T13:00:00Z', 1600, 600, '2025-07-01T10:00:00Z');
+
+	it('spreads a change evenly over its gap', () => {
+		const hour = 60 * 60 * 1000;
+		const start = new Date('2025-07-01T10:00:00Z').getTime();
+
+		expect(changeBetween(gapRow, start, start + hour)).toBe(200);
+		expect(changeBetween(gapRow, start + 2 * hour, Infinity)).toBe(200);
+		expect(changeBetween(row(3, '2025-07-01T13:00:00Z', 1610, 10), start, Infinity)).toBe(10);
+	});
+
+	it('aggregates spread changes into the hours they cover', () => {
+		const buckets = aggregateSnapshots([row(1, '2025-07-01T09:30:00Z', 1000, 5), gapRow], 'hour', 'UTC');
+
+		expect(buckets.map((bucket) => [bucket.signaturesAdded, bucket.closingTotal, bucket.samples])).toEqual([
+			[5, 1000, 1],
+			[200, 1200, 0],
+			[200, 1400, 0],
+			[200, 1600, 0],
+			[0, 1600, 1]
+		]);
+	});
+
+	it('finds flagged gaps and restarts recorded without the flag', () => {
+		const detector = new GapDetector(60 * 1000);
+		[
+			row(1, '2025-07-01T09:00:00Z', 1000, 0),
+			row(2, '2025-07-01T09:00:30Z', 1010, 10),
+			row(3, '2025-07-01T11:00:30Z', 1500, 0), // old monitor restart: jump recorded as zero
+			row(4, '2025-07-01T12:00:30Z', 1510, 10), // quiet hour, nothing missing
+			row(5, '2025-07-01T14:00:30Z', 1700, 190, '2025-07-01T12:00:30Z')
+		].forEach((snapshot) => detector.add(snapshot));
+
+		const gaps = detector.result();
+		expect(gaps.map((gap) => [gap.snapshotId, gap.signatures, gap.flagged])).toEqual([
+			[3, 490, false],
+			[5, 190, true]
+		]);
+
+		const from = new Date('2025-07-01T09:00:00Z').getTime();
+		const to = new Date('2025-07-01T15:00:00Z').getTime();
+		expect(coverage(gaps, from, to)).toBe(0.3333);
+	});
+});
@@ -0,0 +1,98 @@
+// src/lib/gaps.ts
+import type { SnapshotRow } from './timebuckets.js';
+
+// 🕳️ Gaps are stretches nobody was polling (server down, monitor not started, upstream
+// unreachable). The first snapshot after one carries gap_started_at, and its change_amount
+// covers the whole gap - so rates spread it evenly over the gap instead of treating it
+// as a burst of signatures in a single second.
+
+export interface GapSnapshotRow extends SnapshotRow {
+    id: number;
+}
+
+export interface Gap {
+    snapshotId: number;
+    start: string;
+    end: string;
+    durationSeconds: number;
+    signatures: number;
+    flagged: boolean; // false: inferred from older rows that were stored without the flag
+}
+
+// Signatures from a snapshot's change that had come in by `time`
+function changeBefore(row: SnapshotRow, time: number): number {
+    const end = new Date(row.timestamp).getTime();
+    const start = row.gap_started_at ? new Date(row.gap_started_at).getTime() : end;
+
+    if (time > end) return row.change_amount;
+    if (time <= start) return 0;
+    return Math.round(row.change_amount * (time - start) / (end - start));
+}
+
+// The part of a snapshot's change that happened in [from, to)
+export const changeBetween = (row: SnapshotRow, from: number, to: number): number =>
+    changeBefore(row, to) - changeBefore(row, from);
+
+// When the snapshot's change started accruing
+export const changeStart = (row: SnapshotRow): number =>
+    new Date(row.gap_started_at ?? row.timestamp).getTime();
+
+// New signatures the rows brought in during [from, to); decreases don't count against them
+export const addedBetween = (rows: SnapshotRow[], from: number, to: number): number =>
+    rows.reduce((sum, row) => sum + Math.max(0, changeBetween(row, from, to)), 0);
+
+// Finds gaps in snapshots fed oldest first, one row at a time.
+// Besides flagged rows, it spots the rows older monitors stored after a restart:
+// the count jumped but change_amount doesn't account for it.
+export class GapDetector {
+    private previous: GapSnapshotRow | null = null;
+    private found: Gap[] = [];
+
+    constructor(private thresholdMs: number) {}
+
+    add(row: GapSnapshotRow) {
+        const previous = this.previous;
+        this.previous = row;
+
+        if (row.gap_started_at) {
+            this.push(row, row.gap_started_at, row.change_amount, true);
+            return;
+        }
+
+        if (!previous) return;
+
+        const elapsed = new Date(row.timestamp).getTime() - new Date(previous.timestamp).getTime();
+        const jump = row.signature_count - previous.signature_count;
+        if (elapsed > this.thresholdMs && jump !== row.change_amount) {
+            this.push(row, previous.timestamp, jump, false);
+        }
+    }
+
+    result(): Gap[] {
+        return [...this.found];
+    }
+
+    private push(row: GapSnapshotRow, start: string, signatures: number, flagged: boolean) {
+        this.found.push({
+            snapshotId: row.id,
+            start: new Date(start).toISOString(),
+            end: new Date(row.timestamp).toISOString(),
+            durationSeconds: Math.round((new Date(row.timestamp).getTime() - new Date(start).getTime()) / 1000),
+            signatures,
+            flagged
+        });
+    }
+}
+
+// Share of [from, to) not covered by any gap
+export function coverage(gaps: Gap[], from: number, to: number): number {
+    if (to <= from) return 1;
+
+    const missing = gaps.reduce((sum, gap) => {
+        const start = Math.max(from, new Date(gap.start).getTime());
+        const end = Math.min(to, new Date(gap.end).getTime());
+        return sum + Math.max(0, end - start);
+    }, 0);
+
+    return Math.round((1 - missing / (to - from)) * 10000) / 10000;
+}
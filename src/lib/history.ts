@@ -0,0 +1,132 @@
+// src/lib/history.ts
+import { getSnapshotStore, type RollupResolution, type SignatureSnapshot } from './server/store/index.js';
+import { floorTo, rollupRows, tierSpan } from './rollups.js';
+import { BucketAggregator, type SnapshotRow } from './timebuckets.js';
+
+const PAGE_SIZE = 1000;
+
+export interface HistoryRange {
+    from?: Date;
+    to?: Date;
+}
+
+// A stored snapshot, or one rebuilt from a rollup (see rollupRows in src/lib/rollups.ts)
+export type HistoryRow = SnapshotRow & Pick<SignatureSnapshot, 'goal' | 'official_goal' | 'goal_override'>;
+
+export type HistoryTier = 'raw' | RollupResolution;
+
+export interface HistorySegment {
+    tier: HistoryTier;
+    from: number;
+    to: number;
+}
+
+// Finest first
+const TIERS: HistoryTier[] = ['raw', 'minute', 'hour', 'day'];
+
+// Reads signature_snapshots oldest first, a page at a time, so big ranges never sit in memory at once
+export async function* snapshotPages(initiativeId: string, { from, to }: HistoryRange = {}) {
+    const store = getSnapshotStore();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        const data = await store.listSnapshots({ initiativeId, from, to, limit: PAGE_SIZE, offset });
+
+        if (data.length === 0) return;
+
+        yield data;
+
+        if (data.length < PAGE_SIZE) return;
+    }
+}
+
+async function* rollupPages(initiativeId: string, resolution: RollupResolution, { from, to }: HistoryRange) {
+    const store = getSnapshotStore();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        const data = await store.listRollups(resolution, { initiativeId, from, to, limit: PAGE_SIZE, offset });
+
+        if (data.length === 0) return;
+
+        yield data.flatMap(rollup => rollupRows(rollup, resolution));
+
+        if (data.length < PAGE_SIZE) return;
+    }
+}
+
+// Which tier serves which stretch of [from, to), oldest first. Going back in time, each tier
+// takes over where the finer one's oldest data begins. A caller that only needs `resolution`
+// reads its rollups as far as compaction has got, and finer tiers only after that.
+export function planHistory(
+    spans: Record<HistoryTier, { start: number | null; end: number | null }>,
+    resolution: HistoryTier,
+    from: number,
+    to: number
+): HistorySegment[] {
+    // Nothing rolled up that far yet: fall back to the finest tier that has been
+    let index = TIERS.indexOf(resolution);
+    while (index > 0 && spans[TIERS[index]].end === null) index--;
+
+    const segments: HistorySegment[] = [];
+    let end = to;
+
+    for (let i = 0; i < index; i++) {
+        const start = Math.min(end, spans[TIERS[i + 1]].end ?? end);
+        segments.push({ tier: TIERS[i], from: start, to: end });
+        end = start;
+    }
+
+    for (let i = index; i < TIERS.length; i++) {
+        const coarser = TIERS[i + 1] as RollupResolution | undefined;
+        const oldest = spans[TIERS[i]].start;
+        const start = !coarser ? -Infinity : oldest === null ? end : Math.min(end, floorTo(oldest, coarser));
+        segments.push({ tier: TIERS[i], from: start, to: end });
+        end = start;
+    }
+
+    return segments
+        .map(segment => ({ ...segment, from: Math.max(segment.from, from), to: Math.min(segment.to, to) }))
+        .filter(segment => segment.from < segment.to)
+        .reverse();
+}
+
+// Snapshot history oldest first, a page at a time, from raw rows where they're still kept and
+// from rollups beyond that (or wherever `resolution` is all the caller needs)
+export async function* historyPages(
+    initiativeId: string,
+    { from, to }: HistoryRange = {},
+    resolution: HistoryTier = 'raw'
+): AsyncGenerator<HistoryRow[]> {
+    const tiers = await Promise.all(TIERS.map(tier => tierSpan(initiativeId, tier)));
+    const spans = Object.fromEntries(TIERS.map((tier, index) => [tier, tiers[index]])) as Record<HistoryTier, { start: number | null; end: number | null }>;
+
+    const plan = planHistory(spans, resolution, from?.getTime() ?? -Infinity, to?.getTime() ?? Infinity);
+    for (const segment of plan) {
+        const range = {
+            from: isFinite(segment.from) ? new Date(segment.from) : undefined,
+            to: isFinite(segment.to) ? new Date(segment.to) : undefined
+        };
+
+        if (segment.tier === 'raw') yield* snapshotPages(initiativeId, range);
+        else yield* rollupPages(initiativeId, segment.tier, range);
+    }
+}
+
+// Parse an optional ISO date query param; undefined when missing, null when invalid
+export function parseDateParam(url: URL, name: string): Date | undefined | null {
+    const value = url.searchParams.get(name);
+    if (!value) return undefined;
+
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+// Hourly buckets since `from`, from hour rollups where compaction has made them
+export async function loadHourlyBuckets(initiativeId: string, from: Date, timeZone: string) {
+    const aggregator = new BucketAggregator('hour', timeZone);
+
+    for await (const page of historyPages(initiativeId, { from }, 'hour')) {
+        for (const row of page) aggregator.add(row);
+    }
+
+    return aggregator.result();
+}
@@ -0,0 +1,95 @@
+// src/lib/historycache.ts
+import type { AnomalyKind } from './anomalies.js';
+
+// 💾 The dashboard's recent snapshots, kept in the browser's IndexedDB: a reload shows them
+// straight away (and offline, they're all there is), and catching up after a reconnect only
+// fetches what came after the newest one. Without IndexedDB every call quietly does nothing.
+
+export interface CachedSnapshot {
+    initiative_id: string;
+    timestamp: string;
+    signature_count: number;
+    change_amount: number;
+    goal: number;
+    official_goal: number | null;
+    goal_override: number | null;
+    gap_started_at?: string | null;
+    anomaly: AnomalyKind | null;
+}
+
+// As much as the dashboard's activity feed shows
+export const CACHE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'eu-petition-tracker';
+const DB_VERSION = 1;
+const STORE = 'snapshots';
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+function openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+    database ??= new Promise(resolve => {
+        const open = indexedDB.open(DB_NAME, DB_VERSION);
+        // Keyed by initiative, then time - one initiative's rows sit together, oldest first
+        open.onupgradeneeded = () => open.result.createObjectStore(STORE, { keyPath: ['initiative_id', 'timestamp'] });
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => {
+            console.error('History cache unavailable:', open.error);
+            resolve(null);
+        };
+    });
+    return database;
+}
+
+// Every key of one initiative from `from` on
+const rangeOf = (initiativeId: string, from: Date) =>
+    IDBKeyRange.bound([initiativeId, from.toISOString()], [initiativeId, '\uffff']);
+
+// Cached snapshots of an initiative since `from`, oldest first
+export async function readCachedHistory(initiativeId: string, from: Date): Promise<CachedSnapshot[]> {
+    const db = await openDatabase();
+    if (!db) return [];
+
+    try {
+        return await request(db.transaction(STORE).objectStore(STORE).getAll(rangeOf(initiativeId, from)));
+    } catch (error) {
+        console.error('Failed to read the history cache:', error);
+        return [];
+    }
+}
+
+// Stores snapshots and drops whatever has aged out of the cache
+export async function cacheHistory(initiativeId: string, rows: CachedSnapshot[], now: number = Date.now()): Promise<void> {
+    const db = await openDatabase();
+    if (!db || rows.length === 0) return;
+
+    try {
+        const transaction = db.transaction(STORE, 'readwrite');
+        const store = transaction.objectStore(STORE);
+        for (const row of rows) {
+            store.put({ ...row, initiative_id: initiativeId, timestamp: new Date(row.timestamp).toISOString() });
+        }
+        store.delete(IDBKeyRange.bound([initiativeId, ''], [initiativeId, new Date(now - CACHE_RETENTION_MS).toISOString()], false, true));
+
+        await new Promise<void>((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    } catch (error) {
+        console.error('Failed to update the history cache:', error);
+    }
+}
+
+// Cached and freshly fetched rows as one history, oldest first, each snapshot once
+export function mergeHistory(cached: CachedSnapshot[], fresh: CachedSnapshot[]): CachedSnapshot[] {
+    const byTime = new Map<number, CachedSnapshot>();
+    for (const row of [...cached, ...fresh]) byTime.set(new Date(row.timestamp).getTime(), row);
+
+    return [...byTime.entries()].sort(([a], [b]) => a - b).map(([, row]) => row);
+}
@@ -0,0 +1,161 @@
+// src/lib/i18n/de.ts
+import type { Messages } from './en.js';
+
+export const de: Messages = {
+    'meta.title': 'EU-Petitions-Tracker - Echtzeit-Analysen',
+    'app.title': 'EU-Petitions-Tracker',
+
+    'settings.language': 'Sprache',
+    'settings.timezone': 'Zeitzone',
+
+    'status.label': 'Status: {status}',
+    'status.connecting': 'Verbinde...',
+    'status.live': '🟢 Live',
+    'status.stale': '🟠 Daten veraltet',
+    'status.disconnected': '🔴 Getrennt',
+    'status.lastUpdated': 'Zuletzt aktualisiert: {time}',
+    'status.offline': '📴 Offline – gespeicherter Verlauf',
+    'status.retryAt': 'Neuer Verbindungsversuch um {time}',
+
+    'live.ofGoal': 'von {goal} Unterschriften',
+    'live.customGoal': 'Eigenes Ziel',
+    'live.officialGoal': 'offizielles EU-Ziel: {goal}',
+    'live.complete': '{percent} % erreicht',
+    'live.remaining': 'noch {count}',
+    'live.loading': 'Live-Daten werden geladen...',
+
+    'stats.perSecond': 'Pro Sekunde',
+    'stats.perSecondUnit': 'Unt./Sek. (30-s-Fenster)',
+    'stats.perMinute': 'Pro Minute',
+    'stats.perMinuteUnit': 'Unt./Min. (5-min-Fenster)',
+    'stats.perHour': 'Pro Stunde',
+    'stats.perHourUnit': 'Unt./Std. (1-h-Fenster)',
+    'stats.perDay': 'Pro Tag',
+    'stats.perDayUnit': 'Unt./Tag (24-h-Fenster)',
+    'stats.peakHour': 'Spitzenstunde',
+    'stats.peakHourUnit': 'heute am aktivsten',
+    'stats.completion': 'Voraussichtliches Ziel',
+    'stats.completionUnit': 'Trend + Tagesverlauf',
+    'stats.todayTotal': 'Heute gesamt',
+    'stats.todayTotalUnit': 'neue Unterschriften (24 h)',
+    'stats.activity': 'Aktuelle Aktivität',
+    'stats.activityUnit': 'Unterschriftenaktivität',
+
+    'activity.high': 'Hoch',
+    'activity.medium': 'Mittel',
+    'activity.low': 'Niedrig',
+    'activity.minimal': 'Minimal',
+    'activity.none': 'Keine',
+    'activity.unknown': 'Unbekannt',
+
+    'forecast.notInSight': 'Nicht absehbar',
+    'forecast.reached': 'Ziel erreicht!',
+    'forecast.projectedBy': 'Prognose bis {date}',
+    'forecast.chance': '{percent} % Chance, das Ziel rechtzeitig zu erreichen',
+
+    'chart.activity': 'Unterschriften im Zeitverlauf ({zone})',
+    'chart.progress': 'Fortschritt',
+    'chart.complete': 'Erreicht',
+    'chart.signatures': 'Unterschriften',
+    'chart.projectionLow': 'Prognose (niedrig)',
+    'chart.projectionHigh': 'Prognose (hoch)',
+    'chart.projected': 'Prognose',
+    'chart.completed': 'Erreicht',
+    'chart.remaining': 'Verbleibend',
+
+    'export.title': 'Verlauf exportieren',
+    'export.description': 'Vollständiger Unterschriftenverlauf, Zeiten in {zone}',
+    'export.rawCsv': 'Rohdaten CSV',
+    'export.hourlyCsv': 'Stündlich CSV',
+    'export.dailyCsv': 'Täglich CSV',
+    'export.rawNdjson': 'Rohdaten NDJSON',
+
+    'countries.title': 'Unterschriften nach Land',
+    'countries.passed': '{passed} von {required} erforderlichen Ländern über dem Schwellenwert',
+    'countries.country': 'Land',
+    'countries.signatures': 'Unterschriften',
+    'countries.threshold': 'Schwellenwert',
+    'countries.reached': 'Erreicht',
+    'countries.last24h': 'Letzte 24 h',
+
+    'initiatives.title': 'Verfolgte Initiativen',
+
+    'recent.title': 'Letzte Aktivität ({zone})',
+    'recent.added': '+{count} Unterschriften',
+    'recent.total': 'Gesamt: {count}',
+    'recent.removed': '{count} Unterschriften entfernt',
+
+    'anomaly.decrease': 'Zähler gesunken',
+    'anomaly.freeze': 'Nach Stillstand wieder bewegt',
+    'anomaly.jump': 'Unplausibler Sprung',
+    'anomaly.frozen': '🚩 Zähler steht seit {time}, obwohl er sich um diese Zeit sonst bewegt',
+
+    'notify.off': '🔕 Bei Meilensteinen benachrichtigen',
+    'notify.on': '🔔 Meilenstein-Benachrichtigungen an',
+    'notify.milestone': '{count} Unterschriften – {percent} % des Ziels',
+
+    'nav.dashboard': 'Dashboard',
+    'nav.analytics': 'Analysen',
+
+    'analytics.title': 'Unterschriften-Analysen',
+    'analytics.loading': 'Analysen werden geladen...',
+    'analytics.heatmap': 'Wann unterschrieben wird ({zone})',
+    'analytics.heatmapHint': 'Durchschnittliche Unterschriften pro Stunde seit {date}',
+    'analytics.heatmapEmpty': 'Noch keine Daten',
+    'analytics.comparison': 'Heute im Vergleich ({zone})',
+    'analytics.today': 'Heute',
+    'analytics.yesterday': 'Gestern',
+    'analytics.lastWeek': 'Gleicher Tag letzte Woche',
+    'analytics.velocity': 'Unterschriftentempo',
+    'analytics.perHour': 'Pro Stunde',
+    'analytics.rolling': 'Gleitender {hours}-h-Durchschnitt',
+    'analytics.events': 'Ereignisse',
+    'analytics.noEvents': 'Noch keine Ereignisse',
+    'analytics.milestone': '{count} Unterschriften ({percent} %)',
+    'analytics.kind.milestone': 'Meilenstein',
+    'analytics.kind.campaign': 'Kampagne',
+    'analytics.kind.press': 'Presse',
+    'analytics.kind.other': 'Ereignis',
+
+    'admin.title': 'Admin-Konsole',
+    'admin.login': 'Anmelden',
+    'admin.token': 'Admin-Token',
+    'admin.loginFailed': 'Dieses Token stimmt nicht',
+    'admin.disabled': 'Die Admin-Konsole ist abgeschaltet (ADMIN_TOKEN ist nicht gesetzt)',
+    'admin.logout': 'Abmelden',
+    'admin.failed': 'Anfrage fehlgeschlagen: {error}',
+    'admin.monitor': 'Abfragen',
+    'admin.state': 'Zustand',
+    'admin.running': '▶️ Fragt ab',
+    'admin.paused': '⏸️ Pausiert',
+    'admin.stopped': 'Nicht gestartet',
+    'admin.role': 'Rolle',
+    'admin.leader': 'Leader',
+    'admin.follower': 'Follower',
+    'admin.connections': 'Live-Verbindungen',
+    'admin.subscribers': 'Abonnenten (Daten / Status)',
+    'admin.pause': 'Pausieren',
+    'admin.resume': 'Fortsetzen',
+    'admin.pollNow': 'Jetzt abfragen',
+    'admin.interval': 'Abfrageintervall (s)',
+    'admin.save': 'Speichern',
+    'admin.initiative': 'Initiative',
+    'admin.circuit': 'Circuit',
+    'admin.lastSuccess': 'Letzter Erfolg',
+    'admin.lastError': 'Letzter Fehler',
+    'admin.snapshots': 'Snapshots',
+    'admin.noSnapshots': 'Keine Snapshots gespeichert',
+    'admin.time': 'Zeit',
+    'admin.count': 'Unterschriften',
+    'admin.change': 'Änderung',
+    'admin.anomaly': 'Anomalie',
+    'admin.delete': 'Löschen',
+    'admin.confirmDelete': 'Den Snapshot mit {count} Unterschriften von {time} löschen? Der nächste Snapshot übernimmt seine Änderung.',
+    'admin.newer': 'Neuere',
+    'admin.older': 'Ältere',
+    'admin.audit': 'Audit-Log',
+    'admin.noActions': 'Noch keine Admin-Aktionen',
+    'admin.action': 'Aktion',
+    'admin.actor': 'Von',
+    'admin.details': 'Details'
+};
@@ -0,0 +1,164 @@
+// src/lib/i18n/en.ts
+
+// English is the reference catalog: every other language must translate each key.
+// {name} placeholders are filled in by translate().
+export const en = {
+    'meta.title': 'EU Petition Tracker - Real-time Analytics',
+    'app.title': 'EU Petition Tracker',
+
+    'settings.language': 'Language',
+    'settings.timezone': 'Timezone',
+
+    'status.label': 'Status: {status}',
+    'status.connecting': 'Connecting...',
+    'status.live': '🟢 Live',
+    'status.stale': '🟠 Data stale',
+    'status.disconnected': '🔴 Disconnected',
+    'status.lastUpdated': 'Last updated: {time}',
+    'status.offline': '📴 Offline - showing saved history',
+    'status.retryAt': 'Reconnecting at {time}',
+
+    'live.ofGoal': 'of {goal} signatures',
+    'live.customGoal': 'Custom goal',
+    'live.officialGoal': 'official EU goal: {goal}',
+    'live.complete': '{percent}% complete',
+    'live.remaining': '{count} remaining',
+    'live.loading': 'Loading live data...',
+
+    'stats.perSecond': 'Per Second',
+    'stats.perSecondUnit': 'sig/sec (30s window)',
+    'stats.perMinute': 'Per Minute',
+    'stats.perMinuteUnit': 'sig/min (5m window)',
+    'stats.perHour': 'Per Hour',
+    'stats.perHourUnit': 'sig/hour (1h window)',
+    'stats.perDay': 'Per Day',
+    'stats.perDayUnit': 'sig/day (24h window)',
+    'stats.peakHour': 'Peak Hour',
+    'stats.peakHourUnit': 'most active today',
+    'stats.completion': 'Est. Completion',
+    'stats.completionUnit': 'trend + daily pattern',
+    'stats.todayTotal': 'Today Total',
+    'stats.todayTotalUnit': 'new signatures (24h)',
+    'stats.activity': 'Current Activity',
+    'stats.activityUnit': 'signature activity level',
+
+    'activity.high': 'High',
+    'activity.medium': 'Medium',
+    'activity.low': 'Low',
+    'activity.minimal': 'Minimal',
+    'activity.none': 'None',
+    'activity.unknown': 'Unknown',
+
+    'forecast.notInSight': 'Not in sight',
+    'forecast.reached': 'Goal reached!',
+    'forecast.projectedBy': 'Projected by {date}',
+    'forecast.chance': '{percent}% chance of reaching the goal in time',
+
+    'chart.activity': 'Signature Activity Over Time ({zone})',
+    'chart.progress': 'Progress Overview',
+    'chart.complete': 'Complete',
+    'chart.signatures': 'Signatures',
+    'chart.projectionLow': 'Projection (low)',
+    'chart.projectionHigh': 'Projection (high)',
+    'chart.projected': 'Projected',
+    'chart.completed': 'Completed',
+    'chart.remaining': 'Remaining',
+
+    'export.title': 'Export History',
+    'export.description': 'Full signature history, times in {zone}',
+    'export.rawCsv': 'Raw CSV',
+    'export.hourlyCsv': 'Hourly CSV',
+    'export.dailyCsv': 'Daily CSV',
+    'export.rawNdjson': 'Raw NDJSON',
+
+    'countries.title': 'Signatures by Country',
+    'countries.passed': '{passed} of {required} required countries over threshold',
+    'countries.country': 'Country',
+    'countries.signatures': 'Signatures',
+    'countries.threshold': 'Threshold',
+    'countries.reached': 'Reached',
+    'countries.last24h': 'Last 24h',
+
+    'initiatives.title': 'Tracked Initiatives',
+
+    'recent.title': 'Recent Activity ({zone})',
+    'recent.added': '+{count} signatures',
+    'recent.total': 'Total: {count}',
+    'recent.removed': '{count} signatures removed',
+
+    'anomaly.decrease': 'Count went down',
+    'anomaly.freeze': 'Moved again after freezing',
+    'anomaly.jump': 'Implausible jump',
+    'anomaly.frozen': '🚩 Count frozen since {time}, though it usually moves at this hour',
+
+    'notify.off': '🔕 Notify me of milestones',
+    'notify.on': '🔔 Milestone notifications on',
+    'notify.milestone': '{count} signatures - {percent}% of the goal',
+
+    'nav.dashboard': 'Dashboard',
+    'nav.analytics': 'Analytics',
+
+    'analytics.title': 'Signature Analytics',
+    'analytics.loading': 'Loading analytics...',
+    'analytics.heatmap': 'When People Sign ({zone})',
+    'analytics.heatmapHint': 'Average signatures per hour since {date}',
+    'analytics.heatmapEmpty': 'No history yet',
+    'analytics.comparison': 'Today vs. Earlier Days ({zone})',
+    'analytics.today': 'Today',
+    'analytics.yesterday': 'Yesterday',
+    'analytics.lastWeek': 'Same day last week',
+    'analytics.velocity': 'Signature Velocity',
+    'analytics.perHour': 'Per hour',
+    'analytics.rolling': '{hours}h rolling average',
+    'analytics.events': 'Events',
+    'analytics.noEvents': 'No events yet',
+    'analytics.milestone': '{count} signatures ({percent}%)',
+    'analytics.kind.milestone': 'Milestone',
+    'analytics.kind.campaign': 'Campaign',
+    'analytics.kind.press': 'Press',
+    'analytics.kind.other': 'Event',
+
+    'admin.title': 'Admin Console',
+    'admin.login': 'Sign in',
+    'admin.token': 'Admin token',
+    'admin.loginFailed': 'That token isn\'t right',
+    'admin.disabled': 'The admin console is switched off (ADMIN_TOKEN is not set)',
+    'admin.logout': 'Sign out',
+    'admin.failed': 'Request failed: {error}',
+    'admin.monitor': 'Polling',
+    'admin.state': 'State',
+    'admin.running': '▶️ Polling',
+    'admin.paused': '⏸️ Paused',
+    'admin.stopped': 'Not started',
+    'admin.role': 'Role',
+    'admin.leader': 'Leader',
+    'admin.follower': 'Follower',
+    'admin.connections': 'Live connections',
+    'admin.subscribers': 'Subscribers (data / status)',
+    'admin.pause': 'Pause',
+    'admin.resume': 'Resume',
+    'admin.pollNow': 'Poll now',
+    'admin.interval': 'Poll interval (s)',
+    'admin.save': 'Save',
+    'admin.initiative': 'Initiative',
+    'admin.circuit': 'Circuit',
+    'admin.lastSuccess': 'Last success',
+    'admin.lastError': 'Last error',
+    'admin.snapshots': 'Snapshots',
+    'admin.noSnapshots': 'No snapshots stored',
+    'admin.time': 'Time',
+    'admin.count': 'Signatures',
+    'admin.change': 'Change',
+    'admin.anomaly': 'Anomaly',
+    'admin.delete': 'Delete',
+    'admin.confirmDelete': 'Delete the snapshot of {count} signatures from {time}? The next snapshot takes over its change.',
+    'admin.newer': 'Newer',
+    'admin.older': 'Older',
+    'admin.audit': 'Audit Log',
+    'admin.noActions': 'No admin actions yet',
+    'admin.action': 'Action',
+    'admin.actor': 'By',
+    'admin.details': 'Details'
+};
+
+export type Messages = typeof en;
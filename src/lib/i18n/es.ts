@@ -0,0 +1,161 @@
+// src/lib/i18n/es.ts
+import type { Messages } from './en.js';
+
+export const es: Messages = {
+    'meta.title': 'Seguimiento de peticiones de la UE - Análisis en tiempo real',
+    'app.title': 'Seguimiento de peticiones de la UE',
+
+    'settings.language': 'Idioma',
+    'settings.timezone': 'Zona horaria',
+
+    'status.label': 'Estado: {status}',
+    'status.connecting': 'Conectando...',
+    'status.live': '🟢 En directo',
+    'status.stale': '🟠 Datos desactualizados',
+    'status.disconnected': '🔴 Desconectado',
+    'status.lastUpdated': 'Última actualización: {time}',
+    'status.offline': '📴 Sin conexión - historial guardado',
+    'status.retryAt': 'Reconectando a las {time}',
+
+    'live.ofGoal': 'de {goal} firmas',
+    'live.customGoal': 'Objetivo personalizado',
+    'live.officialGoal': 'objetivo oficial de la UE: {goal}',
+    'live.complete': '{percent} % completado',
+    'live.remaining': 'faltan {count}',
+    'live.loading': 'Cargando datos en directo...',
+
+    'stats.perSecond': 'Por segundo',
+    'stats.perSecondUnit': 'firmas/s (ventana de 30 s)',
+    'stats.perMinute': 'Por minuto',
+    'stats.perMinuteUnit': 'firmas/min (ventana de 5 min)',
+    'stats.perHour': 'Por hora',
+    'stats.perHourUnit': 'firmas/h (ventana de 1 h)',
+    'stats.perDay': 'Por día',
+    'stats.perDayUnit': 'firmas/día (ventana de 24 h)',
+    'stats.peakHour': 'Hora punta',
+    'stats.peakHourUnit': 'la más activa hoy',
+    'stats.completion': 'Objetivo estimado',
+    'stats.completionUnit': 'tendencia + patrón diario',
+    'stats.todayTotal': 'Total de hoy',
+    'stats.todayTotalUnit': 'nuevas firmas (24 h)',
+    'stats.activity': 'Actividad actual',
+    'stats.activityUnit': 'nivel de actividad de firmas',
+
+    'activity.high': 'Alta',
+    'activity.medium': 'Media',
+    'activity.low': 'Baja',
+    'activity.minimal': 'Mínima',
+    'activity.none': 'Ninguna',
+    'activity.unknown': 'Desconocida',
+
+    'forecast.notInSight': 'No se prevé',
+    'forecast.reached': '¡Objetivo alcanzado!',
+    'forecast.projectedBy': 'Previsión a {date}',
+    'forecast.chance': '{percent} % de probabilidad de alcanzar el objetivo a tiempo',
+
+    'chart.activity': 'Firmas a lo largo del tiempo ({zone})',
+    'chart.progress': 'Progreso',
+    'chart.complete': 'Completado',
+    'chart.signatures': 'Firmas',
+    'chart.projectionLow': 'Previsión (baja)',
+    'chart.projectionHigh': 'Previsión (alta)',
+    'chart.projected': 'Previsión',
+    'chart.completed': 'Completado',
+    'chart.remaining': 'Restante',
+
+    'export.title': 'Exportar historial',
+    'export.description': 'Historial completo de firmas, horas en {zone}',
+    'export.rawCsv': 'CSV sin procesar',
+    'export.hourlyCsv': 'CSV por hora',
+    'export.dailyCsv': 'CSV por día',
+    'export.rawNdjson': 'NDJSON sin procesar',
+
+    'countries.title': 'Firmas por país',
+    'countries.passed': '{passed} de {required} países necesarios por encima del umbral',
+    'countries.country': 'País',
+    'countries.signatures': 'Firmas',
+    'countries.threshold': 'Umbral',
+    'countries.reached': 'Alcanzado',
+    'countries.last24h': 'Últimas 24 h',
+
+    'initiatives.title': 'Iniciativas seguidas',
+
+    'recent.title': 'Actividad reciente ({zone})',
+    'recent.added': '+{count} firmas',
+    'recent.total': 'Total: {count}',
+    'recent.removed': '{count} firmas retiradas',
+
+    'anomaly.decrease': 'El contador bajó',
+    'anomaly.freeze': 'Se movió tras congelarse',
+    'anomaly.jump': 'Salto inverosímil',
+    'anomaly.frozen': '🚩 Contador congelado desde las {time}, aunque suele moverse a esta hora',
+
+    'notify.off': '🔕 Avisarme de los hitos',
+    'notify.on': '🔔 Avisos de hitos activados',
+    'notify.milestone': '{count} firmas - {percent} % del objetivo',
+
+    'nav.dashboard': 'Panel',
+    'nav.analytics': 'Análisis',
+
+    'analytics.title': 'Análisis de firmas',
+    'analytics.loading': 'Cargando análisis...',
+    'analytics.heatmap': 'Cuándo firma la gente ({zone})',
+    'analytics.heatmapHint': 'Firmas medias por hora desde el {date}',
+    'analytics.heatmapEmpty': 'Aún no hay historial',
+    'analytics.comparison': 'Hoy frente a días anteriores ({zone})',
+    'analytics.today': 'Hoy',
+    'analytics.yesterday': 'Ayer',
+    'analytics.lastWeek': 'Mismo día de la semana pasada',
+    'analytics.velocity': 'Velocidad de firmas',
+    'analytics.perHour': 'Por hora',
+    'analytics.rolling': 'Media móvil de {hours} h',
+    'analytics.events': 'Eventos',
+    'analytics.noEvents': 'Aún no hay eventos',
+    'analytics.milestone': '{count} firmas ({percent} %)',
+    'analytics.kind.milestone': 'Hito',
+    'analytics.kind.campaign': 'Campaña',
+    'analytics.kind.press': 'Prensa',
+    'analytics.kind.other': 'Evento',
+
+    'admin.title': 'Consola de administración',
+    'admin.login': 'Iniciar sesión',
+    'admin.token': 'Token de administración',
+    'admin.loginFailed': 'Ese token no es correcto',
+    'admin.disabled': 'La consola de administración está desactivada (ADMIN_TOKEN no está definido)',
+    'admin.logout': 'Cerrar sesión',
+    'admin.failed': 'La solicitud falló: {error}',
+    'admin.monitor': 'Consultas',
+    'admin.state': 'Estado',
+    'admin.running': '▶️ Consultando',
+    'admin.paused': '⏸️ En pausa',
+    'admin.stopped': 'Sin iniciar',
+    'admin.role': 'Rol',
+    'admin.leader': 'Líder',
+    'admin.follower': 'Seguidor',
+    'admin.connections': 'Conexiones en directo',
+    'admin.subscribers': 'Suscriptores (datos / estado)',
+    'admin.pause': 'Pausar',
+    'admin.resume': 'Reanudar',
+    'admin.pollNow': 'Consultar ahora',
+    'admin.interval': 'Intervalo de consulta (s)',
+    'admin.save': 'Guardar',
+    'admin.initiative': 'Iniciativa',
+    'admin.circuit': 'Circuito',
+    'admin.lastSuccess': 'Último éxito',
+    'admin.lastError': 'Último error',
+    'admin.snapshots': 'Instantáneas',
+    'admin.noSnapshots': 'No hay instantáneas guardadas',
+    'admin.time': 'Hora',
+    'admin.count': 'Firmas',
+    'admin.change': 'Cambio',
+    'admin.anomaly': 'Anomalía',
+    'admin.delete': 'Eliminar',
+    'admin.confirmDelete': '¿Eliminar la instantánea de {count} firmas de {time}? La siguiente instantánea asume su cambio.',
+    'admin.newer': 'Más recientes',
+    'admin.older': 'Más antiguas',
+    'admin.audit': 'Registro de auditoría',
+    'admin.noActions': 'Aún no hay acciones de administración',
+    'admin.action': 'Acción',
+    'admin.actor': 'Por',
+    'admin.details': 'Detalles'
+};
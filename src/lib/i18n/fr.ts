@@ -0,0 +1,161 @@
+// src/lib/i18n/fr.ts
+import type { Messages } from './en.js';
+
+export const fr: Messages = {
+    'meta.title': 'Suivi des pétitions de l\'UE - Analyses en temps réel',
+    'app.title': 'Suivi des pétitions de l\'UE',
+
+    'settings.language': 'Langue',
+    'settings.timezone': 'Fuseau horaire',
+
+    'status.label': 'Statut : {status}',
+    'status.connecting': 'Connexion...',
+    'status.live': '🟢 En direct',
+    'status.stale': '🟠 Données obsolètes',
+    'status.disconnected': '🔴 Déconnecté',
+    'status.lastUpdated': 'Dernière mise à jour : {time}',
+    'status.offline': '📴 Hors ligne - historique enregistré',
+    'status.retryAt': 'Reconnexion à {time}',
+
+    'live.ofGoal': 'sur {goal} signatures',
+    'live.customGoal': 'Objectif personnalisé',
+    'live.officialGoal': 'objectif officiel de l\'UE : {goal}',
+    'live.complete': '{percent} % atteint',
+    'live.remaining': 'encore {count}',
+    'live.loading': 'Chargement des données en direct...',
+
+    'stats.perSecond': 'Par seconde',
+    'stats.perSecondUnit': 'sig./s (fenêtre de 30 s)',
+    'stats.perMinute': 'Par minute',
+    'stats.perMinuteUnit': 'sig./min (fenêtre de 5 min)',
+    'stats.perHour': 'Par heure',
+    'stats.perHourUnit': 'sig./h (fenêtre de 1 h)',
+    'stats.perDay': 'Par jour',
+    'stats.perDayUnit': 'sig./jour (fenêtre de 24 h)',
+    'stats.peakHour': 'Heure de pointe',
+    'stats.peakHourUnit': 'la plus active aujourd\'hui',
+    'stats.completion': 'Objectif estimé',
+    'stats.completionUnit': 'tendance + rythme quotidien',
+    'stats.todayTotal': 'Total du jour',
+    'stats.todayTotalUnit': 'nouvelles signatures (24 h)',
+    'stats.activity': 'Activité actuelle',
+    'stats.activityUnit': 'niveau d\'activité des signatures',
+
+    'activity.high': 'Élevée',
+    'activity.medium': 'Moyenne',
+    'activity.low': 'Faible',
+    'activity.minimal': 'Minimale',
+    'activity.none': 'Aucune',
+    'activity.unknown': 'Inconnue',
+
+    'forecast.notInSight': 'Pas en vue',
+    'forecast.reached': 'Objectif atteint !',
+    'forecast.projectedBy': 'Prévision au {date}',
+    'forecast.chance': '{percent} % de chances d\'atteindre l\'objectif à temps',
+
+    'chart.activity': 'Signatures au fil du temps ({zone})',
+    'chart.progress': 'Progression',
+    'chart.complete': 'Atteint',
+    'chart.signatures': 'Signatures',
+    'chart.projectionLow': 'Prévision (basse)',
+    'chart.projectionHigh': 'Prévision (haute)',
+    'chart.projected': 'Prévision',
+    'chart.completed': 'Atteint',
+    'chart.remaining': 'Restant',
+
+    'export.title': 'Exporter l\'historique',
+    'export.description': 'Historique complet des signatures, heures en {zone}',
+    'export.rawCsv': 'CSV brut',
+    'export.hourlyCsv': 'CSV horaire',
+    'export.dailyCsv': 'CSV quotidien',
+    'export.rawNdjson': 'NDJSON brut',
+
+    'countries.title': 'Signatures par pays',
+    'countries.passed': '{passed} des {required} pays requis au-dessus du seuil',
+    'countries.country': 'Pays',
+    'countries.signatures': 'Signatures',
+    'countries.threshold': 'Seuil',
+    'countries.reached': 'Atteint',
+    'countries.last24h': 'Dernières 24 h',
+
+    'initiatives.title': 'Initiatives suivies',
+
+    'recent.title': 'Activité récente ({zone})',
+    'recent.added': '+{count} signatures',
+    'recent.total': 'Total : {count}',
+    'recent.removed': '{count} signatures retirées',
+
+    'anomaly.decrease': 'Compteur en baisse',
+    'anomaly.freeze': 'Reparti après un gel',
+    'anomaly.jump': 'Saut invraisemblable',
+    'anomaly.frozen': '🚩 Compteur figé depuis {time}, alors qu\'il bouge d\'habitude à cette heure',
+
+    'notify.off': '🔕 Me prévenir des étapes franchies',
+    'notify.on': '🔔 Notifications d\'étapes activées',
+    'notify.milestone': '{count} signatures - {percent} % de l\'objectif',
+
+    'nav.dashboard': 'Tableau de bord',
+    'nav.analytics': 'Analyses',
+
+    'analytics.title': 'Analyses des signatures',
+    'analytics.loading': 'Chargement des analyses...',
+    'analytics.heatmap': 'Quand les gens signent ({zone})',
+    'analytics.heatmapHint': 'Signatures moyennes par heure depuis le {date}',
+    'analytics.heatmapEmpty': 'Pas encore d\'historique',
+    'analytics.comparison': 'Aujourd\'hui comparé aux jours précédents ({zone})',
+    'analytics.today': 'Aujourd\'hui',
+    'analytics.yesterday': 'Hier',
+    'analytics.lastWeek': 'Même jour la semaine dernière',
+    'analytics.velocity': 'Vitesse des signatures',
+    'analytics.perHour': 'Par heure',
+    'analytics.rolling': 'Moyenne glissante sur {hours} h',
+    'analytics.events': 'Événements',
+    'analytics.noEvents': 'Aucun événement pour l\'instant',
+    'analytics.milestone': '{count} signatures ({percent} %)',
+    'analytics.kind.milestone': 'Étape',
+    'analytics.kind.campaign': 'Campagne',
+    'analytics.kind.press': 'Presse',
+    'analytics.kind.other': 'Événement',
+
+    'admin.title': 'Console d\'administration',
+    'admin.login': 'Se connecter',
+    'admin.token': 'Jeton d\'administration',
+    'admin.loginFailed': 'Ce jeton n\'est pas le bon',
+    'admin.disabled': 'La console d\'administration est désactivée (ADMIN_TOKEN n\'est pas défini)',
+    'admin.logout': 'Se déconnecter',
+    'admin.failed': 'Échec de la requête : {error}',
+    'admin.monitor': 'Interrogation',
+    'admin.state': 'État',
+    'admin.running': '▶️ En cours',
+    'admin.paused': '⏸️ En pause',
+    'admin.stopped': 'Non démarré',
+    'admin.role': 'Rôle',
+    'admin.leader': 'Leader',
+    'admin.follower': 'Suiveur',
+    'admin.connections': 'Connexions en direct',
+    'admin.subscribers': 'Abonnés (données / statut)',
+    'admin.pause': 'Mettre en pause',
+    'admin.resume': 'Reprendre',
+    'admin.pollNow': 'Interroger maintenant',
+    'admin.interval': 'Intervalle d\'interrogation (s)',
+    'admin.save': 'Enregistrer',
+    'admin.initiative': 'Initiative',
+    'admin.circuit': 'Circuit',
+    'admin.lastSuccess': 'Dernier succès',
+    'admin.lastError': 'Dernière erreur',
+    'admin.snapshots': 'Instantanés',
+    'admin.noSnapshots': 'Aucun instantané enregistré',
+    'admin.time': 'Heure',
+    'admin.count': 'Signatures',
+    'admin.change': 'Variation',
+    'admin.anomaly': 'Anomalie',
+    'admin.delete': 'Supprimer',
+    'admin.confirmDelete': 'Supprimer l\'instantané de {count} signatures du {time} ? L\'instantané suivant reprend sa variation.',
+    'admin.newer': 'Plus récents',
+    'admin.older': 'Plus anciens',
+    'admin.audit': 'Journal d\'audit',
+    'admin.noActions': 'Aucune action d\'administration pour l\'instant',
+    'admin.action': 'Action',
+    'admin.actor': 'Par',
+    'admin.details': 'Détails'
+};
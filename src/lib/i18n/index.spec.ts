@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { createFormatters, matchLocale, translate } from './index';
+
+describe('i18n', () => {
+	it('fills in placeholders and leaves unknown ones alone', () => {
+		expect(translate('de', 'live.remaining', { count: '1.000' })).toBe('noch 1.000');
+		expect(translate('en', 'countries.passed', { passed: 3 })).toBe('3 of {required} required countries over threshold');
+	});
+
+	it('picks the first supported browser language', () => {
+		expect(matchLocale(['nl-NL', 'de-AT', 'fr'])).toBe('de');
+		expect(matchLocale(['pt-BR'])).toBe('en');
+		expect(matchLocale(['constructor'])).toBe('en');
+	});
+
+	it('formats numbers and dates for the locale and timezone', () => {
+		const format = createFormatters('de', 'Europe/Berlin');
+		expect(format.number(1234567)).toBe('1.234.567');
+		expect(format.number(12.5, 2)).toBe('12,50');
+		expect(format.bucketLabel(new Date('2025-07-03T14:00:00Z'))).toBe('3.7. 16:00');
+
+		const utc = createFormatters('en', 'UTC');
+		expect(utc.bucketLabel(new Date('2025-07-03T14:00:00Z'))).toBe('7/3 14:00');
+		expect(utc.zone()).toBe('UTC');
+	});
+
+	it('names countries in the viewer\'s language', () => {
+		expect(createFormatters('en', 'UTC').country('EL', 'Greece')).toBe('Greece');
+		expect(createFormatters('de', 'UTC').country('DE', 'Germany')).toBe('Deutschland');
+	});
+});
@@ -0,0 +1,136 @@
+// src/lib/i18n/index.ts
+import { derived, writable } from 'svelte/store';
+import { en, type Messages } from './en.js';
+import { de } from './de.js';
+import { fr } from './fr.js';
+import { es } from './es.js';
+import { it } from './it.js';
+import { pl } from './pl.js';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../timebuckets.js';
+
+// 🌐 Dashboard translations, plus locale- and timezone-aware formatting.
+// The viewer's language and timezone are remembered in localStorage.
+
+export type Locale = 'en' | 'de' | 'fr' | 'es' | 'it' | 'pl';
+export type MessageKey = keyof Messages;
+
+const CATALOGS: Record<Locale, Messages> = { en, de, fr, es, it, pl };
+
+// Each language in its own name, for the language picker
+export const LOCALES: { code: Locale; name: string }[] = [
+    { code: 'en', name: 'English' },
+    { code: 'de', name: 'Deutsch' },
+    { code: 'fr', name: 'Français' },
+    { code: 'es', name: 'Español' },
+    { code: 'it', name: 'Italiano' },
+    { code: 'pl', name: 'Polski' }
+];
+
+// Offered in the timezone picker, next to the viewer's own zone
+export const COMMON_TIMEZONES = [
+    'UTC',
+    'Europe/Lisbon',
+    'Europe/Dublin',
+    'Europe/London',
+    'Europe/Paris',
+    'Europe/Brussels',
+    'Europe/Berlin',
+    'Europe/Oslo',
+    'Europe/Madrid',
+    'Europe/Rome',
+    'Europe/Warsaw',
+    'Europe/Prague',
+    'Europe/Vienna',
+    'Europe/Stockholm',
+    'Europe/Helsinki',
+    'Europe/Athens',
+    'Europe/Bucharest'
+];
+
+const isLocale = (value: string): value is Locale => LOCALES.some(locale => locale.code === value);
+
+export function translate(locale: Locale, key: MessageKey, params: Record<string, string | number> = {}): string {
+    const template = CATALOGS[locale]?.[key] ?? en[key] ?? key;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name) => name in params ? String(params[name]) : placeholder);
+}
+
+// First supported language in the browser's preference list, e.g. "de-AT" -> "de"
+export function matchLocale(languages: readonly string[]): Locale {
+    for (const language of languages) {
+        const base = language.toLowerCase().split('-')[0];
+        if (isLocale(base)) return base;
+    }
+    return 'en';
+}
+
+export function browserTimeZone(): string {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+    } catch {
+        return DEFAULT_TIMEZONE;
+    }
+}
+
+// Formatting that follows the viewer's language and timezone
+export function createFormatters(locale: Locale, timeZone: string) {
+    const dayMonth = new Intl.DateTimeFormat(locale, { timeZone, month: 'numeric', day: 'numeric' });
+    const hour = new Intl.DateTimeFormat(locale, { timeZone, hour: '2-digit', hourCycle: 'h23' });
+    const time = new Intl.DateTimeFormat(locale, { timeZone, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    const dateTime = new Intl.DateTimeFormat(locale, { timeZone, dateStyle: 'short', timeStyle: 'medium' });
+    const date = new Intl.DateTimeFormat(locale, { timeZone, day: 'numeric', month: 'short', year: 'numeric' });
+    const zoneName = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' });
+    const relative = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+    const weekday = new Intl.DateTimeFormat(locale, { timeZone: 'UTC', weekday: 'short' });
+    const regions = typeof Intl.DisplayNames === 'function' ? new Intl.DisplayNames(locale, { type: 'region' }) : null;
+
+    return {
+        number: (value: number, fractionDigits?: number) =>
+            value.toLocaleString(locale, fractionDigits === undefined ? {} : {
+                minimumFractionDigits: fractionDigits,
+                maximumFractionDigits: fractionDigits
+            }),
+        time: (value: Date) => time.format(value),
+        dateTime: (value: Date) => dateTime.format(value),
+        date: (value: Date) => date.format(value),
+        // Chart buckets are whole hours: "3.7. 16:00" in German, "7/3 16:00" in English
+        bucketLabel: (value: Date) => {
+            const hourPart = hour.formatToParts(value).find(part => part.type === 'hour')?.value ?? '00';
+            return `${dayMonth.format(value)} ${hourPart}:00`;
+        },
+        // Short weekday name, 0 = Monday (1 January 2024 was one)
+        weekday: (index: number) => weekday.format(new Date(Date.UTC(2024, 0, 1 + index))),
+        // "CEST", "GMT+2" - whatever the locale calls the zone right now
+        zone: (at: Date = new Date()) =>
+            zoneName.formatToParts(at).find(part => part.type === 'timeZoneName')?.value ?? timeZone,
+        // "in 3 days" / "in 5 hours"
+        relative: (hours: number) => hours < 48
+            ? relative.format(Math.max(1, Math.round(hours)), 'hour')
+            : relative.format(Math.round(hours / 24), 'day'),
+        // The EU writes Greece as EL; Intl knows it as GR
+        country: (code: string, fallback: string) => regions?.of(code === 'EL' ? 'GR' : code) ?? fallback
+    };
+}
+
+export type Formatters = ReturnType<typeof createFormatters>;
+
+// A writable store that survives reloads
+function persisted<T extends string>(key: string, initial: () => T, valid: (value: string) => boolean) {
+    const storage = typeof localStorage !== 'undefined' ? localStorage : null;
+    const saved = storage?.getItem(key);
+    const store = writable<T>(saved && valid(saved) ? saved as T : initial());
+
+    store.subscribe(value => storage?.setItem(key, value));
+    return store;
+}
+
+export const locale = persisted<Locale>(
+    'locale',
+    () => matchLocale(typeof navigator !== 'undefined' ? navigator.languages : []),
+    isLocale
+);
+export const timeZone = persisted<string>('timeZone', browserTimeZone, isValidTimeZone);
+
+export const t = derived(locale, $locale =>
+    (key: MessageKey, params?: Record<string, string | number>) => translate($locale, key, params));
+
+export const format = derived([locale, timeZone], ([$locale, $timeZone]) => createFormatters($locale, $timeZone));
@@ -0,0 +1,161 @@
+// src/lib/i18n/it.ts
+import type { Messages } from './en.js';
+
+export const it: Messages = {
+    'meta.title': 'Monitoraggio petizioni UE - Analisi in tempo reale',
+    'app.title': 'Monitoraggio petizioni UE',
+
+    'settings.language': 'Lingua',
+    'settings.timezone': 'Fuso orario',
+
+    'status.label': 'Stato: {status}',
+    'status.connecting': 'Connessione...',
+    'status.live': '🟢 In diretta',
+    'status.stale': '🟠 Dati non aggiornati',
+    'status.disconnected': '🔴 Disconnesso',
+    'status.lastUpdated': 'Ultimo aggiornamento: {time}',
+    'status.offline': '📴 Offline - cronologia salvata',
+    'status.retryAt': 'Nuovo tentativo alle {time}',
+
+    'live.ofGoal': 'di {goal} firme',
+    'live.customGoal': 'Obiettivo personalizzato',
+    'live.officialGoal': 'obiettivo ufficiale UE: {goal}',
+    'live.complete': '{percent}% completato',
+    'live.remaining': 'ne mancano {count}',
+    'live.loading': 'Caricamento dei dati in diretta...',
+
+    'stats.perSecond': 'Al secondo',
+    'stats.perSecondUnit': 'firme/s (finestra di 30 s)',
+    'stats.perMinute': 'Al minuto',
+    'stats.perMinuteUnit': 'firme/min (finestra di 5 min)',
+    'stats.perHour': 'All\'ora',
+    'stats.perHourUnit': 'firme/h (finestra di 1 h)',
+    'stats.perDay': 'Al giorno',
+    'stats.perDayUnit': 'firme/giorno (finestra di 24 h)',
+    'stats.peakHour': 'Ora di punta',
+    'stats.peakHourUnit': 'la più attiva oggi',
+    'stats.completion': 'Obiettivo stimato',
+    'stats.completionUnit': 'tendenza + andamento giornaliero',
+    'stats.todayTotal': 'Totale di oggi',
+    'stats.todayTotalUnit': 'nuove firme (24 h)',
+    'stats.activity': 'Attività attuale',
+    'stats.activityUnit': 'livello di attività delle firme',
+
+    'activity.high': 'Alta',
+    'activity.medium': 'Media',
+    'activity.low': 'Bassa',
+    'activity.minimal': 'Minima',
+    'activity.none': 'Nessuna',
+    'activity.unknown': 'Sconosciuta',
+
+    'forecast.notInSight': 'Non prevedibile',
+    'forecast.reached': 'Obiettivo raggiunto!',
+    'forecast.projectedBy': 'Previsione al {date}',
+    'forecast.chance': '{percent}% di probabilità di raggiungere l\'obiettivo in tempo',
+
+    'chart.activity': 'Firme nel tempo ({zone})',
+    'chart.progress': 'Avanzamento',
+    'chart.complete': 'Completato',
+    'chart.signatures': 'Firme',
+    'chart.projectionLow': 'Previsione (bassa)',
+    'chart.projectionHigh': 'Previsione (alta)',
+    'chart.projected': 'Previsione',
+    'chart.completed': 'Completato',
+    'chart.remaining': 'Mancante',
+
+    'export.title': 'Esporta cronologia',
+    'export.description': 'Cronologia completa delle firme, orari in {zone}',
+    'export.rawCsv': 'CSV grezzo',
+    'export.hourlyCsv': 'CSV orario',
+    'export.dailyCsv': 'CSV giornaliero',
+    'export.rawNdjson': 'NDJSON grezzo',
+
+    'countries.title': 'Firme per paese',
+    'countries.passed': '{passed} dei {required} paesi richiesti sopra la soglia',
+    'countries.country': 'Paese',
+    'countries.signatures': 'Firme',
+    'countries.threshold': 'Soglia',
+    'countries.reached': 'Raggiunto',
+    'countries.last24h': 'Ultime 24 h',
+
+    'initiatives.title': 'Iniziative monitorate',
+
+    'recent.title': 'Attività recente ({zone})',
+    'recent.added': '+{count} firme',
+    'recent.total': 'Totale: {count}',
+    'recent.removed': '{count} firme rimosse',
+
+    'anomaly.decrease': 'Contatore sceso',
+    'anomaly.freeze': 'Ripartito dopo un blocco',
+    'anomaly.jump': 'Salto inverosimile',
+    'anomaly.frozen': '🚩 Contatore fermo dalle {time}, anche se a quest\'ora di solito si muove',
+
+    'notify.off': '🔕 Avvisami dei traguardi',
+    'notify.on': '🔔 Notifiche dei traguardi attive',
+    'notify.milestone': '{count} firme - {percent}% dell\'obiettivo',
+
+    'nav.dashboard': 'Pannello',
+    'nav.analytics': 'Analisi',
+
+    'analytics.title': 'Analisi delle firme',
+    'analytics.loading': 'Caricamento delle analisi...',
+    'analytics.heatmap': 'Quando si firma ({zone})',
+    'analytics.heatmapHint': 'Firme medie all\'ora dal {date}',
+    'analytics.heatmapEmpty': 'Ancora nessuno storico',
+    'analytics.comparison': 'Oggi rispetto ai giorni precedenti ({zone})',
+    'analytics.today': 'Oggi',
+    'analytics.yesterday': 'Ieri',
+    'analytics.lastWeek': 'Stesso giorno la settimana scorsa',
+    'analytics.velocity': 'Velocità delle firme',
+    'analytics.perHour': 'All\'ora',
+    'analytics.rolling': 'Media mobile su {hours} h',
+    'analytics.events': 'Eventi',
+    'analytics.noEvents': 'Ancora nessun evento',
+    'analytics.milestone': '{count} firme ({percent}%)',
+    'analytics.kind.milestone': 'Traguardo',
+    'analytics.kind.campaign': 'Campagna',
+    'analytics.kind.press': 'Stampa',
+    'analytics.kind.other': 'Evento',
+
+    'admin.title': 'Console di amministrazione',
+    'admin.login': 'Accedi',
+    'admin.token': 'Token di amministrazione',
+    'admin.loginFailed': 'Questo token non è corretto',
+    'admin.disabled': 'La console di amministrazione è disattivata (ADMIN_TOKEN non è impostato)',
+    'admin.logout': 'Esci',
+    'admin.failed': 'Richiesta non riuscita: {error}',
+    'admin.monitor': 'Interrogazione',
+    'admin.state': 'Stato',
+    'admin.running': '▶️ In corso',
+    'admin.paused': '⏸️ In pausa',
+    'admin.stopped': 'Non avviato',
+    'admin.role': 'Ruolo',
+    'admin.leader': 'Leader',
+    'admin.follower': 'Follower',
+    'admin.connections': 'Connessioni attive',
+    'admin.subscribers': 'Iscritti (dati / stato)',
+    'admin.pause': 'Metti in pausa',
+    'admin.resume': 'Riprendi',
+    'admin.pollNow': 'Interroga ora',
+    'admin.interval': 'Intervallo di interrogazione (s)',
+    'admin.save': 'Salva',
+    'admin.initiative': 'Iniziativa',
+    'admin.circuit': 'Circuito',
+    'admin.lastSuccess': 'Ultimo successo',
+    'admin.lastError': 'Ultimo errore',
+    'admin.snapshots': 'Snapshot',
+    'admin.noSnapshots': 'Nessuno snapshot salvato',
+    'admin.time': 'Ora',
+    'admin.count': 'Firme',
+    'admin.change': 'Variazione',
+    'admin.anomaly': 'Anomalia',
+    'admin.delete': 'Elimina',
+    'admin.confirmDelete': 'Eliminare lo snapshot di {count} firme delle {time}? Lo snapshot successivo ne assorbe la variazione.',
+    'admin.newer': 'Più recenti',
+    'admin.older': 'Meno recenti',
+    'admin.audit': 'Registro di audit',
+    'admin.noActions': 'Ancora nessuna azione di amministrazione',
+    'admin.action': 'Azione',
+    'admin.actor': 'Da',
+    'admin.details': 'Dettagli'
+};
@@ -0,0 +1,161 @@
+// src/lib/i18n/pl.ts
+import type { Messages } from './en.js';
+
+export const pl: Messages = {
+    'meta.title': 'Monitor petycji UE - Analizy w czasie rzeczywistym',
+    'app.title': 'Monitor petycji UE',
+
+    'settings.language': 'Język',
+    'settings.timezone': 'Strefa czasowa',
+
+    'status.label': 'Status: {status}',
+    'status.connecting': 'Łączenie...',
+    'status.live': '🟢 Na żywo',
+    'status.stale': '🟠 Nieaktualne dane',
+    'status.disconnected': '🔴 Rozłączono',
+    'status.lastUpdated': 'Ostatnia aktualizacja: {time}',
+    'status.offline': '📴 Offline – zapisana historia',
+    'status.retryAt': 'Ponowne łączenie o {time}',
+
+    'live.ofGoal': 'z {goal} podpisów',
+    'live.customGoal': 'Własny cel',
+    'live.officialGoal': 'oficjalny cel UE: {goal}',
+    'live.complete': '{percent}% celu',
+    'live.remaining': 'pozostało {count}',
+    'live.loading': 'Ładowanie danych na żywo...',
+
+    'stats.perSecond': 'Na sekundę',
+    'stats.perSecondUnit': 'podp./s (okno 30 s)',
+    'stats.perMinute': 'Na minutę',
+    'stats.perMinuteUnit': 'podp./min (okno 5 min)',
+    'stats.perHour': 'Na godzinę',
+    'stats.perHourUnit': 'podp./godz. (okno 1 godz.)',
+    'stats.perDay': 'Na dzień',
+    'stats.perDayUnit': 'podp./dzień (okno 24 godz.)',
+    'stats.peakHour': 'Godzina szczytu',
+    'stats.peakHourUnit': 'najaktywniejsza dzisiaj',
+    'stats.completion': 'Szacowane osiągnięcie celu',
+    'stats.completionUnit': 'trend + rytm dobowy',
+    'stats.todayTotal': 'Dzisiaj łącznie',
+    'stats.todayTotalUnit': 'nowe podpisy (24 godz.)',
+    'stats.activity': 'Bieżąca aktywność',
+    'stats.activityUnit': 'poziom aktywności podpisów',
+
+    'activity.high': 'Wysoka',
+    'activity.medium': 'Średnia',
+    'activity.low': 'Niska',
+    'activity.minimal': 'Minimalna',
+    'activity.none': 'Brak',
+    'activity.unknown': 'Nieznana',
+
+    'forecast.notInSight': 'Nie w zasięgu',
+    'forecast.reached': 'Cel osiągnięty!',
+    'forecast.projectedBy': 'Prognoza na {date}',
+    'forecast.chance': '{percent}% szans na osiągnięcie celu w terminie',
+
+    'chart.activity': 'Podpisy w czasie ({zone})',
+    'chart.progress': 'Postęp',
+    'chart.complete': 'Osiągnięto',
+    'chart.signatures': 'Podpisy',
+    'chart.projectionLow': 'Prognoza (niska)',
+    'chart.projectionHigh': 'Prognoza (wysoka)',
+    'chart.projected': 'Prognoza',
+    'chart.completed': 'Osiągnięto',
+    'chart.remaining': 'Pozostało',
+
+    'export.title': 'Eksport historii',
+    'export.description': 'Pełna historia podpisów, czas w strefie {zone}',
+    'export.rawCsv': 'Surowe CSV',
+    'export.hourlyCsv': 'CSV godzinowe',
+    'export.dailyCsv': 'CSV dzienne',
+    'export.rawNdjson': 'Surowe NDJSON',
+
+    'countries.title': 'Podpisy według kraju',
+    'countries.passed': '{passed} z {required} wymaganych krajów powyżej progu',
+    'countries.country': 'Kraj',
+    'countries.signatures': 'Podpisy',
+    'countries.threshold': 'Próg',
+    'countries.reached': 'Osiągnięto',
+    'countries.last24h': 'Ostatnie 24 godz.',
+
+    'initiatives.title': 'Śledzone inicjatywy',
+
+    'recent.title': 'Ostatnia aktywność ({zone})',
+    'recent.added': '+{count} podpisów',
+    'recent.total': 'Łącznie: {count}',
+    'recent.removed': '{count} podpisów usuniętych',
+
+    'anomaly.decrease': 'Licznik spadł',
+    'anomaly.freeze': 'Ruszył po zamrożeniu',
+    'anomaly.jump': 'Nieprawdopodobny skok',
+    'anomaly.frozen': '🚩 Licznik stoi od {time}, choć o tej porze zwykle rośnie',
+
+    'notify.off': '🔕 Powiadamiaj o kamieniach milowych',
+    'notify.on': '🔔 Powiadomienia o kamieniach milowych włączone',
+    'notify.milestone': '{count} podpisów – {percent}% celu',
+
+    'nav.dashboard': 'Panel',
+    'nav.analytics': 'Analizy',
+
+    'analytics.title': 'Analizy podpisów',
+    'analytics.loading': 'Ładowanie analiz...',
+    'analytics.heatmap': 'Kiedy ludzie podpisują ({zone})',
+    'analytics.heatmapHint': 'Średnia liczba podpisów na godzinę od {date}',
+    'analytics.heatmapEmpty': 'Brak historii',
+    'analytics.comparison': 'Dzisiaj na tle poprzednich dni ({zone})',
+    'analytics.today': 'Dzisiaj',
+    'analytics.yesterday': 'Wczoraj',
+    'analytics.lastWeek': 'Ten sam dzień tydzień temu',
+    'analytics.velocity': 'Tempo podpisów',
+    'analytics.perHour': 'Na godzinę',
+    'analytics.rolling': 'Średnia krocząca z {hours} godz.',
+    'analytics.events': 'Wydarzenia',
+    'analytics.noEvents': 'Brak wydarzeń',
+    'analytics.milestone': '{count} podpisów ({percent}%)',
+    'analytics.kind.milestone': 'Kamień milowy',
+    'analytics.kind.campaign': 'Kampania',
+    'analytics.kind.press': 'Prasa',
+    'analytics.kind.other': 'Wydarzenie',
+
+    'admin.title': 'Konsola administracyjna',
+    'admin.login': 'Zaloguj się',
+    'admin.token': 'Token administratora',
+    'admin.loginFailed': 'Ten token jest nieprawidłowy',
+    'admin.disabled': 'Konsola administracyjna jest wyłączona (ADMIN_TOKEN nie jest ustawiony)',
+    'admin.logout': 'Wyloguj się',
+    'admin.failed': 'Żądanie nie powiodło się: {error}',
+    'admin.monitor': 'Odpytywanie',
+    'admin.state': 'Stan',
+    'admin.running': '▶️ Odpytuje',
+    'admin.paused': '⏸️ Wstrzymane',
+    'admin.stopped': 'Nie uruchomiono',
+    'admin.role': 'Rola',
+    'admin.leader': 'Lider',
+    'admin.follower': 'Obserwator',
+    'admin.connections': 'Połączenia na żywo',
+    'admin.subscribers': 'Subskrybenci (dane / status)',
+    'admin.pause': 'Wstrzymaj',
+    'admin.resume': 'Wznów',
+    'admin.pollNow': 'Odpytaj teraz',
+    'admin.interval': 'Interwał odpytywania (s)',
+    'admin.save': 'Zapisz',
+    'admin.initiative': 'Inicjatywa',
+    'admin.circuit': 'Obwód',
+    'admin.lastSuccess': 'Ostatni sukces',
+    'admin.lastError': 'Ostatni błąd',
+    'admin.snapshots': 'Migawki',
+    'admin.noSnapshots': 'Brak zapisanych migawek',
+    'admin.time': 'Czas',
+    'admin.count': 'Podpisy',
+    'admin.change': 'Zmiana',
+    'admin.anomaly': 'Anomalia',
+    'admin.delete': 'Usuń',
+    'admin.confirmDelete': 'Usunąć migawkę z {count} podpisami z {time}? Następna migawka przejmie jej zmianę.',
+    'admin.newer': 'Nowsze',
+    'admin.older': 'Starsze',
+    'admin.audit': 'Dziennik audytu',
+    'admin.noActions': 'Brak działań administracyjnych',
+    'admin.action': 'Działanie',
+    'admin.actor': 'Przez',
+    'admin.details': 'Szczegóły'
+};
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { parseEnvInitiatives } from './initiatives';
+
+describe('parseEnvInitiatives', () => {
+	it('keeps colons and commas in titles', () => {
+		const [initiative] = parseEnvInitiatives('046|Save Bees: Part 2, Now|500000|2026-05-31');
+
+		expect(initiative.id).toBe('046');
+		expect(initiative.title).toBe('Save Bees: Part 2, Now');
+		expect(initiative.goal).toBe(500000);
+		expect(initiative.collectionDeadline).toBe('2026-05-31T23:59:59Z');
+	});
+
+	it('takes deadlines with a time of day', () => {
+		const initiatives = parseEnvInitiatives('046|A|1000|2026-06-30T12:00:00+02:00; 047 ;048|C|1000|soon');
+
+		expect(initiatives.map(initiative => initiative.collectionDeadline)).toEqual(['2026-06-30T10:00:00.000Z', null, null]);
+		expect(initiatives[1]).toMatchObject({ id: '047', title: 'Initiative 047', goal: 1000000 });
+	});
+});
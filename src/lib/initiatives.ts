@@ -0,0 +1,83 @@
+// src/lib/initiatives.ts
+
+export interface TrackedInitiative {
+    id: string;
+    title: string;
+    // Used only when the EU API doesn't report a goal and no override is configured
+    goal: number;
+    apiUrl: string;
+    // End of the signature collection period, if known
+    collectionDeadline: string | null;
+}
+
+// Point ECI_BASE_URL at `npm run simulator` to poll a simulated curve instead
+const ECI_BASE_URL = process.env.ECI_BASE_URL || 'https://eci.ec.europa.eu';
+
+export const DEFAULT_INITIATIVE_ID = '045';
+
+export const progressionUrl = (id: string) =>
+    `${ECI_BASE_URL}/${id}/public/api/report/progression`;
+
+// 🗂️ Initiatives we always track
+const BUILT_IN_INITIATIVES: TrackedInitiative[] = [
+    {
+        id: DEFAULT_INITIATIVE_ID,
+        title: 'Stop Destroying Videogames',
+        goal: 1000000,
+        apiUrl: progressionUrl(DEFAULT_INITIATIVE_ID),
+        collectionDeadline: '2025-07-31T21:59:59Z'
+    }
+];
+
+// A date alone means the end of that day, UTC; anything else must be a full ISO 8601 time
+function parseDeadline(value: string | undefined): string | null {
+    if (!value) return null;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return `${value}T23:59:59Z`;
+
+    const deadline = new Date(value);
+    return isNaN(deadline.getTime()) ? null : deadline.toISOString();
+}
+
+// Extra initiatives from env, as id|title|goal|deadline separated by ";" - like TIMELINE_EVENTS,
+// so titles can hold colons and commas and deadlines can carry a time of day
+// e.g. TRACKED_INITIATIVES="046|My Initiative: Part 2|1000000|2026-05-31;047|Other|500000|2026-06-30T12:00:00+02:00"
+export function parseEnvInitiatives(value: string | undefined): TrackedInitiative[] {
+    if (!value) return [];
+
+    return value
+        .split(';')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const [id, title, goal, deadline] = entry.split('|').map(part => part.trim());
+            return {
+                id,
+                title: title || `Initiative ${id}`,
+                goal: parseInt(goal) || 1000000,
+                apiUrl: progressionUrl(id),
+                collectionDeadline: parseDeadline(deadline)
+            };
+        });
+}
+
+function buildRegistry(): Map<string, TrackedInitiative> {
+    const registry = new Map<string, TrackedInitiative>();
+
+    for (const initiative of [...BUILT_IN_INITIATIVES, ...parseEnvInitiatives(process.env.TRACKED_INITIATIVES)]) {
+        registry.set(initiative.id, initiative);
+    }
+
+    return registry;
+}
+
+const registry = buildRegistry();
+
+export const getInitiatives = (): TrackedInitiative[] => [...registry.values()];
+
+export const getInitiative = (id: string): TrackedInitiative | undefined => registry.get(id);
+
+// Resolve the `initiative` query param, falling back to the default initiative
+export function resolveInitiative(url: URL): TrackedInitiative | undefined {
+    const id = url.searchParams.get('initiative') || DEFAULT_INITIATIVE_ID;
+    return registry.get(id);
+}
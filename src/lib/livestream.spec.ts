@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { reconnectDelay, RECONNECT_MAX_MS } from './livestream';
+import { crossedMilestone } from './notifications';
+import { mergeHistory, type CachedSnapshot } from './historycache';
+
+describe('reconnectDelay', () => {
+	it('backs off exponentially with jitter, up to a cap', () => {
+		expect(reconnectDelay(0, () => 1)).toBe(1000);
+		expect(reconnectDelay(0, () => 0)).toBe(500);
+		expect(reconnectDelay(3, () => 1)).toBe(8000);
+		expect(reconnectDelay(20, () => 1)).toBe(RECONNECT_MAX_MS);
+		expect(reconnectDelay(20, () => 0)).toBe(RECONNECT_MAX_MS / 2);
+	});
+});
+
+describe('crossedMilestone', () => {
+	it('reports the highest tenth of the goal passed', () => {
+		expect(crossedMilestone(99_000, 100_500, 1_000_000)).toBe(100_000);
+		expect(crossedMilestone(99_000, 310_000, 1_000_000)).toBe(300_000);
+		expect(crossedMilestone(100_000, 150_000, 1_000_000)).toBeNull();
+		expect(crossedMilestone(101_000, 99_000, 1_000_000)).toBeNull();
+		expect(crossedMilestone(0, 10, 0)).toBeNull();
+	});
+});
+
+describe('mergeHistory', () => {
+	const row = (timestamp: string, signature_count: number): CachedSnapshot => ({
+		initiative_id: 'x', timestamp, signature_count, change_amount: 0,
+		goal: 1000, official_goal: null, goal_override: null, anomaly: null
+	});
+
+	it('keeps each snapshot once, oldest first', () => {
+		const merged = mergeHistory(
+			[row('2025-07-01T10:00:00.000Z', 1), row('2025-07-01T10:01:00.000Z', 2)],
+			[row('2025-07-01T10:01:00Z', 3), row('2025-07-01T09:59:00Z', 0)]
+		);
+
+		expect(merged.map(r => r.signature_count)).toEqual([0, 1, 3]);
+	});
+});
@@ -0,0 +1,87 @@
+// src/lib/livestream.ts
+
+// 🔌 The dashboard's /api/data connection. EventSource retries on its own only while the
+// server keeps answering; after an error response, a deploy or a spell offline it gives up
+// for good. This one reconnects with exponential backoff and jitter, straight away when the
+// browser comes back online, and runs `backfill` first so nothing in between is missed.
+
+export const RECONNECT_BASE_MS = 1000;
+export const RECONNECT_MAX_MS = 60000;
+
+export interface LiveStreamOptions {
+    url: () => string;
+    listeners: Record<string, (event: MessageEvent) => void>;
+    onOpen: () => void;
+    onDisconnect: (retryAt: Date) => void;
+    backfill: () => Promise<void>;
+}
+
+// Between half and all of the exponential delay, so reconnecting tabs don't arrive together
+export const reconnectDelay = (attempt: number, random: () => number = Math.random): number =>
+    Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt) * (0.5 + random() / 2);
+
+export class LiveStream {
+    private source: EventSource | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private attempt = 0;
+    private closed = true;
+
+    constructor(private options: LiveStreamOptions) {}
+
+    connect() {
+        this.closed = false;
+        window.addEventListener('online', this.reconnectNow);
+        this.open();
+    }
+
+    close() {
+        this.closed = true;
+        window.removeEventListener('online', this.reconnectNow);
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+        this.source?.close();
+        this.source = null;
+    }
+
+    private open() {
+        const source = new EventSource(this.options.url());
+        this.source = source;
+
+        source.onopen = () => {
+            this.attempt = 0;
+            this.options.onOpen();
+        };
+        for (const [event, listener] of Object.entries(this.options.listeners)) {
+            source.addEventListener(event, listener as EventListener);
+        }
+
+        // Take over from the browser's own retry, which doesn't backfill
+        source.onerror = () => {
+            source.close();
+            if (this.source !== source || this.closed) return;
+
+            const delay = reconnectDelay(this.attempt++);
+            this.options.onDisconnect(new Date(Date.now() + delay));
+            this.retryTimer = setTimeout(this.reconnect, delay);
+        };
+    }
+
+    private reconnect = async () => {
+        this.retryTimer = null;
+        this.source = null;
+
+        try {
+            await this.options.backfill();
+        } catch (error) {
+            console.error('Backfill failed:', error);
+        }
+        if (!this.closed && !this.source) this.open();
+    };
+
+    // Back online: no point waiting out the backoff
+    private reconnectNow = () => {
+        if (!this.retryTimer) return;
+        clearTimeout(this.retryTimer);
+        this.reconnect();
+    };
+}
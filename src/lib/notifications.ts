@@ -0,0 +1,45 @@
+// src/lib/notifications.ts
+
+// 🔔 Browser notifications for milestones reached while the dashboard sits in a background
+// tab - every tenth of the goal, like the milestones on the analytics page. They're shown
+// through the service worker, which brings the tab back to the front when one is clicked.
+
+const PREFERENCE_KEY = 'notifyMilestones';
+
+// The highest tenth of the goal a change passed, or null
+export function crossedMilestone(previousCount: number, signatureCount: number, goal: number): number | null {
+    const step = goal / 10;
+    if (step <= 0 || signatureCount <= previousCount) return null;
+
+    const milestone = Math.floor(signatureCount / step);
+    return milestone > Math.floor(previousCount / step) ? Math.round(milestone * step) : null;
+}
+
+export const notificationsSupported = () =>
+    typeof Notification !== 'undefined' && 'serviceWorker' in navigator;
+
+export const milestoneNotificationsEnabled = () =>
+    notificationsSupported() && Notification.permission === 'granted' && localStorage.getItem(PREFERENCE_KEY) === 'on';
+
+// Asks for permission when switching on; false when the browser or the user says no
+export async function setMilestoneNotifications(enabled: boolean): Promise<boolean> {
+    if (!notificationsSupported()) return false;
+
+    if (enabled && Notification.permission !== 'granted' && await Notification.requestPermission() !== 'granted') {
+        return false;
+    }
+    localStorage.setItem(PREFERENCE_KEY, enabled ? 'on' : 'off');
+    return enabled;
+}
+
+// Only while nobody's looking - the open dashboard shows the milestone itself
+export async function notifyInBackground(title: string, body: string, tag: string): Promise<void> {
+    if (document.visibilityState !== 'hidden' || !milestoneNotificationsEnabled()) return;
+
+    try {
+        const registration = await navigator.serviceWorker.ready;
+        await registration.showNotification(title, { body, tag, icon: '/favicon.svg' });
+    } catch (error) {
+        console.error('Failed to show a notification:', error);
+    }
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker, UpstreamError, loadPollerConfig, validateProgression } from './poller';
+
+describe('validateProgression', () => {
+	it('accepts a progression report', () => {
+		expect(validateProgression({ signatureCount: 1234, goal: 1000000 }).signatureCount).toBe(1234);
+	});
+
+	it('rejects malformed payloads', () => {
+		expect(() => validateProgression('<html>')).toThrow(UpstreamError);
+		expect(() => validateProgression({ signatureCount: '1234' })).toThrow(UpstreamError);
+		expect(() => validateProgression({ signatureCount: -1 })).toThrow(UpstreamError);
+		expect(() => validateProgression({ signatureCount: 1, countries: {} })).toThrow(UpstreamError);
+	});
+});
+
+describe('CircuitBreaker', () => {
+	const config = loadPollerConfig({ POLL_CIRCUIT_THRESHOLD: '3', POLL_CIRCUIT_COOLDOWN_MS: '60000' });
+
+	it('backs off exponentially with jitter, then opens', () => {
+		const breaker = new CircuitBreaker(config, () => 1);
+
+		breaker.recordFailure(0);
+		expect(breaker.canAttempt(999)).toBe(false);
+		expect(breaker.canAttempt(1000)).toBe(true);
+
+		breaker.recordFailure(1000);
+		expect(breaker.canAttempt(2999)).toBe(false);
+		expect(breaker.canAttempt(3000)).toBe(true);
+
+		breaker.recordFailure(3000);
+		expect(breaker.circuit).toBe('open');
+		expect(breaker.canAttempt(62999)).toBe(false);
+		expect(breaker.canAttempt(63000)).toBe(true);
+		expect(breaker.circuit).toBe('half-open');
+	});
+
+	it('reopens on a failed probe and closes on success', () => {
+		const breaker = new CircuitBreaker(config, () => 0);
+		for (let i = 0; i < 3; i++) breaker.recordFailure(0);
+
+		breaker.canAttempt(60000);
+		breaker.recordFailure(60000);
+		expect(breaker.circuit).toBe('open');
+
+		breaker.canAttempt(120000);
+		breaker.recordSuccess();
+		expect(breaker.circuit).toBe('closed');
+		expect(breaker.consecutiveFailures).toBe(0);
+	});
+});
@@ -0,0 +1,147 @@
+// src/lib/poller.ts
+
+// 🛡️ Fetching the ECI API defensively: timeouts, schema validation,
+// exponential backoff with jitter and a circuit breaker per upstream.
+
+export interface PollerConfig {
+    intervalMs: number;        // how often the web app polls; /admin can change it while running
+    timeoutMs: number;
+    backoffBaseMs: number;
+    backoffMaxMs: number;
+    circuitThreshold: number;  // consecutive failures before the circuit opens
+    circuitCooldownMs: number; // how long an open circuit waits before probing again
+    staleAfterMs: number;      // no successful poll for this long = data is stale
+    gapThresholdMs: number;    // nobody polling for this long = the next snapshot comes after a gap
+}
+
+export interface ProgressionPayload {
+    signatureCount: number;
+    goal?: number;
+    countries?: unknown[];
+    [key: string]: unknown;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// How progression reports are fetched - the global fetch, or a SignatureSimulator (src/lib/simulator.ts)
+export type UpstreamFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export class UpstreamError extends Error {
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+        this.name = 'UpstreamError';
+    }
+}
+
+export function loadPollerConfig(env: Record<string, string | undefined> = process.env): PollerConfig {
+    const number = (value: string | undefined, fallback: number) =>
+        value && !isNaN(Number(value)) ? Number(value) : fallback;
+
+    return {
+        intervalMs: number(env.POLL_INTERVAL_MS, 1000),
+        timeoutMs: number(env.POLL_TIMEOUT_MS, 5000),
+        backoffBaseMs: number(env.POLL_BACKOFF_BASE_MS, 1000),
+        backoffMaxMs: number(env.POLL_BACKOFF_MAX_MS, 60000),
+        circuitThreshold: number(env.POLL_CIRCUIT_THRESHOLD, 5),
+        circuitCooldownMs: number(env.POLL_CIRCUIT_COOLDOWN_MS, 60000),
+        staleAfterMs: number(env.POLL_STALE_AFTER_MS, 30000),
+        gapThresholdMs: number(env.POLL_GAP_THRESHOLD_MS, 60000)
+    };
+}
+
+// Reject anything that doesn't look like a progression report
+export function validateProgression(raw: unknown): ProgressionPayload {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new UpstreamError('Progression payload is not an object');
+    }
+
+    const payload = raw as Record<string, unknown>;
+    const { signatureCount, goal, countries } = payload;
+
+    if (typeof signatureCount !== 'number' || !Number.isInteger(signatureCount) || signatureCount < 0) {
+        throw new UpstreamError(`Invalid signatureCount: ${JSON.stringify(signatureCount)}`);
+    }
+    if (goal !== undefined && goal !== null && (typeof goal !== 'number' || goal <= 0)) {
+        throw new UpstreamError(`Invalid goal: ${JSON.stringify(goal)}`);
+    }
+    if (countries !== undefined && !Array.isArray(countries)) {
+        throw new UpstreamError('Invalid countries: expected an array');
+    }
+
+    return payload as ProgressionPayload;
+}
+
+export async function fetchProgression(url: string, timeoutMs: number, upstream: UpstreamFetch = fetch): Promise<ProgressionPayload> {
+    let response: Response;
+    try {
+        response = await upstream(url, {
+            headers: { Accept: 'application/json' },
+            signal: AbortSignal.timeout(timeoutMs)
+        });
+    } catch (error) {
+        const reason = error instanceof Error && error.name === 'TimeoutError'
+            ? `Timed out after ${timeoutMs}ms`
+            : `Request failed: ${error instanceof Error ? error.message : error}`;
+        throw new UpstreamError(reason);
+    }
+
+    if (!response.ok) {
+        throw new UpstreamError(`HTTP ${response.status}`, response.status);
+    }
+
+    let body: unknown;
+    try {
+        body = await response.json();
+    } catch {
+        throw new UpstreamError('Response is not valid JSON', response.status);
+    }
+
+    return validateProgression(body);
+}
+
+// Decides when the next attempt is allowed after failures
+export class CircuitBreaker {
+    private failures = 0;
+    private state: CircuitState = 'closed';
+    private nextAttemptAt = 0;
+
+    constructor(private config: PollerConfig, private random: () => number = Math.random) {}
+
+    canAttempt(now = Date.now()): boolean {
+        if (now < this.nextAttemptAt) return false;
+        if (this.state === 'open') this.state = 'half-open';
+        return true;
+    }
+
+    recordSuccess() {
+        this.failures = 0;
+        this.state = 'closed';
+        this.nextAttemptAt = 0;
+    }
+
+    recordFailure(now = Date.now()) {
+        this.failures++;
+
+        if (this.state === 'half-open' || this.failures >= this.config.circuitThreshold) {
+            this.state = 'open';
+            this.nextAttemptAt = now + this.config.circuitCooldownMs;
+            return;
+        }
+
+        // Jitter: wait between half and all of the exponential delay
+        const delay = Math.min(this.config.backoffMaxMs, this.config.backoffBaseMs * 2 ** (this.failures - 1));
+        this.nextAttemptAt = now + delay * (0.5 + this.random() / 2);
+    }
+
+    get consecutiveFailures() {
+        return this.failures;
+    }
+
+    get circuit(): CircuitState {
+        return this.state;
+    }
+
+    get retryAt(): Date | null {
+        return this.nextAttemptAt ? new Date(this.nextAttemptAt) : null;
+    }
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { compact, rollUp } from './rollups';
+import { historyPages, planHistory } from './history';
+import { BucketAggregator, type SnapshotRow } from './timebuckets';
+import { MemorySnapshotStore, setSnapshotStore } from './server/store/index';
+import type { NewSignatureSnapshot, RollupResolution, SnapshotQuery } from './server/store/types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const start = new Date('2025-07-01T00:00:00Z').getTime();
+
+// A poll a minute for three days, with polls missing from 10:10 to 10:40 on the first
+function history(): (NewSignatureSnapshot & { timestamp: string })[] {
+	const rows: (NewSignatureSnapshot & { timestamp: string })[] = [];
+	let total = 100000;
+	for (let time = start; time < start + 3 * DAY; time += MINUTE) {
+		const missing = time > start + 10 * HOUR + 10 * MINUTE && time < start + 10 * HOUR + 40 * MINUTE;
+		if (missing) continue;
+
+		const gap = time === start + 10 * HOUR + 40 * MINUTE;
+		const change = gap ? 900 : (time / MINUTE) % 7;
+		total += change;
+		rows.push({
+			initiative_id: '045',
+			signature_count: total,
+			change_amount: change,
+			goal: 1000000,
+			official_goal: 1000000,
+			goal_override: null,
+			gap_started_at: gap ? new Date(start + 10 * HOUR + 10 * MINUTE).toISOString() : null,
+			anomaly: null,
+			idempotency_key: null,
+			timestamp: new Date(time).toISOString()
+		});
+	}
+	return rows;
+}
+
+function aggregate(rows: SnapshotRow[], bucket: 'hour' | 'day', timeZone: string) {
+	const aggregator = new BucketAggregator(bucket, timeZone);
+	for (const row of rows) aggregator.add(row);
+	return aggregator.result();
+}
+
+async function read(resolution: 'raw' | 'minute' | 'hour' | 'day') {
+	const rows = [];
+	for await (const page of historyPages('045', {}, resolution)) rows.push(...page);
+	return rows;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// Like Supabase: never more than 1000 rows back from one request
+class CappedStore extends MemorySnapshotStore {
+	async listSnapshots(query: SnapshotQuery) {
+		return (await super.listSnapshots(query)).slice(0, 1000);
+	}
+
+	async listRollups(resolution: RollupResolution, query: SnapshotQuery) {
+		return (await super.listRollups(resolution, query)).slice(0, 1000);
+	}
+}
+
+describe('rollups', () => {
+	let store: MemorySnapshotStore;
+	const raw = history();
+
+	beforeEach(async () => {
+		store = new MemorySnapshotStore();
+		setSnapshotStore(store);
+		for (const row of raw) await store.insertSnapshot(row);
+	});
+
+	it('keeps the raw totals at every resolution', async () => {
+		const snapshots = await store.listSnapshots({ initiativeId: '045' });
+		const minutes = rollUp('045', snapshots, 'minute').map((row, id) => ({ ...row, id }));
+		const hours = rollUp('045', minutes, 'hour').map((row, id) => ({ ...row, id }));
+		const days = rollUp('045', hours, 'day');
+
+		const added = sum(raw.map(row => row.change_amount));
+		for (const tier of [minutes, hours, days]) {
+			expect(sum(tier.map(row => row.signatures_added))).toBe(added);
+			expect(sum(tier.map(row => row.gap_signatures))).toBe(900);
+			expect(sum(tier.map(row => row.samples))).toBe(raw.length);
+			expect(tier.at(-1)?.closing_total).toBe(raw.at(-1)?.signature_count);
+		}
+
+		expect(days).toHaveLength(3);
+		expect(days[0].gap_started_at).toBe('2025-07-01T10:10:00.000Z');
+	});
+
+	it('prunes each tier once the next one has it, and reads the same buckets back', async () => {
+		const hourly = aggregate(raw, 'hour', 'Europe/Oslo');
+		const now = start + 3 * DAY + 5 * MINUTE;
+		const policy = { rawDays: 1, minuteDays: 2, hourDays: 0, intervalMs: MINUTE };
+
+		const result = await compact('045', policy, now);
+		// Minutes without a poll get no rollup
+		expect(result.rolledUp).toEqual({ minute: 3 * 24 * 60 - 29, hour: 3 * 24, day: 3 });
+		expect(result.deleted.raw).toBe(raw.filter(row => new Date(row.timestamp).getTime() < start + 2 * DAY).length);
+		expect(result.deleted.minute).toBe(24 * 60 - 29);
+
+		const [oldestRaw] = await store.listSnapshots({ initiativeId: '045', limit: 1 });
+		expect(oldestRaw.timestamp).toBe('2025-07-03T00:00:00.000Z');
+
+		for (const resolution of ['raw', 'minute', 'hour'] as const) {
+			expect(aggregate(await read(resolution), 'hour', 'Europe/Oslo')).toEqual(hourly);
+		}
+		expect(aggregate(await read('day'), 'day', 'UTC')).toEqual(aggregate(raw, 'day', 'UTC'));
+
+		// Running it again changes nothing
+		const again = await compact('045', policy, now);
+		expect(again.deleted).toEqual({ raw: 0, minute: 0, hour: 0, day: 0 });
+		expect(aggregate(await read('hour'), 'hour', 'Europe/Oslo')).toEqual(hourly);
+	});
+
+	it('plans which tier serves which stretch', () => {
+		const spans = {
+			raw: { start: 5 * DAY + HOUR, end: null },
+			minute: { start: 3 * DAY, end: 7 * DAY - HOUR },
+			hour: { start: 0, end: 6 * DAY },
+			day: { start: 0, end: 6 * DAY }
+		};
+
+		expect(planHistory(spans, 'raw', 0, 8 * DAY)).toEqual([
+			{ tier: 'hour', from: 0, to: 3 * DAY },
+			{ tier: 'minute', from: 3 * DAY, to: 5 * DAY + HOUR },
+			{ tier: 'raw', from: 5 * DAY + HOUR, to: 8 * DAY }
+		]);
+		expect(planHistory(spans, 'hour', 2 * DAY, 8 * DAY)).toEqual([
+			{ tier: 'hour', from: 2 * DAY, to: 6 * DAY },
+			{ tier: 'minute', from: 6 * DAY, to: 7 * DAY - HOUR },
+			{ tier: 'raw', from: 7 * DAY - HOUR, to: 8 * DAY }
+		]);
+
+		// Nothing rolled up yet: all raw
+		const empty = { start: null, end: null };
+		expect(planHistory({ raw: { start: 0, end: null }, minute: empty, hour: empty, day: empty }, 'day', 0, DAY))
+			.toEqual([{ tier: 'raw', from: 0, to: DAY }]);
+	});
+
+	it('reads a chunk with more rows than one request returns', async () => {
+		const capped = new CappedStore();
+		setSnapshotStore(capped);
+
+		// A poll every two seconds: 1800 rows in the hour the minute tier reads at once
+		const polls = raw.slice(0, 1800).map((row, i) => ({ ...row, timestamp: new Date(start + i * 2000).toISOString() }));
+		for (const row of polls) await capped.insertSnapshot(row);
+
+		await compact('045', { rawDays: 0, minuteDays: 0, hourDays: 0, intervalMs: MINUTE }, start + 2 * HOUR);
+
+		const minutes = await capped.listRollups('minute', { initiativeId: '045' });
+		expect(minutes).toHaveLength(60);
+		expect(sum(minutes.map(row => row.samples))).toBe(1800);
+		expect(sum(minutes.map(row => row.signatures_added))).toBe(sum(polls.map(row => row.change_amount)));
+		expect(minutes.at(-1)?.closing_total).toBe(polls.at(-1)?.signature_count);
+	});
+});
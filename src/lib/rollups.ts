@@ -0,0 +1,262 @@
+// src/lib/rollups.ts
+import {
+    getSnapshotStore,
+    type NewSignatureRollup,
+    type RollupResolution,
+    type SignatureRollup,
+    type SignatureSnapshot,
+    type SnapshotPosition
+} from './server/store/index.js';
+import type { HistoryRow } from './history.js';
+import { BUCKET_MS } from './timebuckets.js';
+
+// 🗜️ Retention and rollups. Raw snapshots are only kept for a few days: compaction sums them
+// into UTC minute rollups, minutes into hours and hours into days, then deletes whatever has
+// aged out of each tier. src/lib/history.ts reads every stretch of time from the right tier.
+
+export const RESOLUTIONS: RollupResolution[] = ['minute', 'hour', 'day'];
+
+export interface RetentionPolicy {
+    rawDays: number;     // raw snapshots (0 keeps them forever)
+    minuteDays: number;  // minute rollups (0 keeps them forever); day rollups are never deleted
+    hourDays: number;    // hour rollups (0 keeps them forever)
+    intervalMs: number;  // how often the collector compacts (0 disables it)
+}
+
+export interface CompactionResult {
+    initiativeId: string;
+    rolledUp: Record<RollupResolution, number>; // buckets written
+    deleted: Record<'raw' | RollupResolution, number>;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+    rawDays: 7,
+    minuteDays: 90,
+    hourDays: 0,
+    intervalMs: 60 * 1000
+};
+
+// Polls are stored a moment after they're taken - only roll up minutes no row can still land in
+const SETTLE_MS = 2 * 60 * 1000;
+
+// How much of the tier below is read at once: a day of hours is 24 rows, an hour of raw polls 3600
+const CHUNK_MS: Record<RollupResolution, number> = {
+    minute: BUCKET_MS.hour,
+    hour: BUCKET_MS.day,
+    day: 30 * BUCKET_MS.day
+};
+
+// Rows per read - Supabase never returns more than 1000 at once, however much a query asks for
+const READ_PAGE = 1000;
+
+// Each tier is built from the one below it
+const SOURCE: Record<RollupResolution, 'raw' | RollupResolution> = { minute: 'raw', hour: 'minute', day: 'hour' };
+
+// Start of the UTC bucket `time` falls in
+export const floorTo = (time: number, resolution: RollupResolution) =>
+    Math.floor(time / BUCKET_MS[resolution]) * BUCKET_MS[resolution];
+
+export function parseRetentionPolicy(env: Record<string, string | undefined>): RetentionPolicy {
+    const number = (value: string | undefined, fallback: number) =>
+        value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : fallback;
+
+    return {
+        rawDays: number(env.RETENTION_RAW_DAYS, DEFAULT_RETENTION.rawDays),
+        minuteDays: number(env.RETENTION_MINUTE_DAYS, DEFAULT_RETENTION.minuteDays),
+        hourDays: number(env.RETENTION_HOUR_DAYS, DEFAULT_RETENTION.hourDays),
+        intervalMs: number(env.COMPACTION_INTERVAL_MS, DEFAULT_RETENTION.intervalMs)
+    };
+}
+
+// What one raw snapshot or finer rollup adds to the bucket it falls in
+const contribution = (row: SignatureSnapshot | SignatureRollup) => 'signature_count' in row
+    ? { added: row.change_amount, gap: row.gap_started_at ? row.change_amount : 0, closing: row.signature_count, samples: 1 }
+    : { added: row.signatures_added, gap: row.gap_signatures, closing: row.closing_total, samples: row.samples };
+
+// Sums rows (oldest first) into one rollup per UTC bucket. Changes stay in the bucket they
+// were reported in; a change reported after a gap keeps where the gap started instead.
+export function rollUp(
+    initiativeId: string,
+    rows: Iterable<SignatureSnapshot | SignatureRollup>,
+    resolution: RollupResolution
+): NewSignatureRollup[] {
+    const rollups = new Map<number, NewSignatureRollup>();
+
+    for (const row of rows) {
+        const start = floorTo(new Date(row.timestamp).getTime(), resolution);
+        const { added, gap, closing, samples } = contribution(row);
+
+        let rollup = rollups.get(start);
+        if (!rollup) {
+            rollup = {
+                initiative_id: initiativeId,
+                timestamp: new Date(start).toISOString(),
+                signatures_added: 0,
+                gap_signatures: 0,
+                gap_started_at: null,
+                closing_total: closing,
+                samples: 0,
+                goal: row.goal,
+                official_goal: row.official_goal,
+                goal_override: row.goal_override
+            };
+            rollups.set(start, rollup);
+        }
+
+        rollup.signatures_added += added;
+        rollup.gap_signatures += gap;
+        rollup.samples += samples;
+        rollup.closing_total = closing;
+        rollup.goal = row.goal;
+        rollup.official_goal = row.official_goal;
+        rollup.goal_override = row.goal_override;
+
+        if (gap !== 0 && row.gap_started_at
+            && (!rollup.gap_started_at || new Date(row.gap_started_at) < new Date(rollup.gap_started_at))) {
+            rollup.gap_started_at = new Date(row.gap_started_at).toISOString();
+        }
+    }
+
+    return [...rollups.values()];
+}
+
+// A rollup as rows the rate and bucket code already understands: what came in during the
+// bucket spread evenly over it, and what was reported after a gap spread over that gap
+export function rollupRows(rollup: SignatureRollup, resolution: RollupResolution): HistoryRow[] {
+    const start = new Date(rollup.timestamp).getTime();
+    const row = {
+        timestamp: new Date(start + BUCKET_MS[resolution] - 1).toISOString(),
+        signature_count: rollup.closing_total,
+        goal: rollup.goal,
+        official_goal: rollup.official_goal,
+        goal_override: rollup.goal_override
+    };
+    const rows: HistoryRow[] = [];
+
+    if (rollup.gap_signatures !== 0 && rollup.gap_started_at) {
+        rows.push({ ...row, change_amount: rollup.gap_signatures, gap_started_at: rollup.gap_started_at, samples: 0 });
+    }
+    rows.push({
+        ...row,
+        change_amount: rollup.signatures_added - rollup.gap_signatures,
+        gap_started_at: new Date(start).toISOString(),
+        samples: rollup.samples
+    });
+
+    return rows;
+}
+
+// Where a tier starts and (for rollups) where it has got to; nulls while it's empty
+export async function tierSpan(initiativeId: string, tier: 'raw' | RollupResolution) {
+    const store = getSnapshotStore();
+    const time = (row: { timestamp: string } | undefined) => row ? new Date(row.timestamp).getTime() : null;
+
+    if (tier === 'raw') {
+        const [oldest] = await store.listSnapshots({ initiativeId, limit: 1 });
+        return { start: time(oldest), end: null };
+    }
+
+    const [[oldest], [newest]] = await Promise.all([
+        store.listRollups(tier, { initiativeId, limit: 1 }),
+        store.listRollups(tier, { initiativeId, order: 'desc', limit: 1 })
+    ]);
+    return { start: time(oldest), end: newest ? new Date(newest.timestamp).getTime() + BUCKET_MS[tier] : null };
+}
+
+// Everything in [from, to), oldest first, read a page at a time after the last row of the one before
+async function readChunk(initiativeId: string, source: 'raw' | RollupResolution, from: Date, to: Date) {
+    const store = getSnapshotStore();
+    const rows: (SignatureSnapshot | SignatureRollup)[] = [];
+
+    for (let after: SnapshotPosition | undefined; ;) {
+        const query = { initiativeId, from, to, limit: READ_PAGE, after };
+        const page = source === 'raw' ? await store.listSnapshots(query) : await store.listRollups(source, query);
+        rows.push(...page);
+
+        if (page.length < READ_PAGE) return rows;
+        after = page[page.length - 1];
+    }
+}
+
+// Rolls the tier below up into `resolution`, from where it left off to `until`.
+// Only complete buckets are written, so `until` must be a bucket boundary.
+async function rollUpTier(initiativeId: string, resolution: RollupResolution, until: number): Promise<number> {
+    const source = SOURCE[resolution];
+    const done = (await tierSpan(initiativeId, resolution)).end;
+    const sourceStart = (await tierSpan(initiativeId, source)).start;
+    const from = done ?? (sourceStart !== null ? floorTo(sourceStart, resolution) : null);
+    if (from === null) return 0;
+
+    let written = 0;
+    for (let start = from; start < until; start += CHUNK_MS[resolution]) {
+        const end = Math.min(start + CHUNK_MS[resolution], until);
+        const rows = rollUp(initiativeId, await readChunk(initiativeId, source, new Date(start), new Date(end)), resolution);
+
+        await getSnapshotStore().upsertRollups(resolution, rows);
+        written += rows.length;
+    }
+
+    return written;
+}
+
+// Rewrites whatever rollups compaction already wrote for the buckets `times` fall in, after
+// `removed` was deleted from under them. A minute left without rows becomes an empty rollup
+// closing where the count stood before `removed`, so the hours and days above drop it too.
+export async function rebuildRollups(initiativeId: string, removed: SignatureSnapshot, times: number[]): Promise<void> {
+    for (const resolution of RESOLUTIONS) {
+        const done = (await tierSpan(initiativeId, resolution)).end;
+        const starts = new Set(times.map(time => floorTo(time, resolution)).filter(start => done !== null && start < done));
+
+        for (const start of starts) {
+            const source = await readChunk(initiativeId, SOURCE[resolution], new Date(start), new Date(start + BUCKET_MS[resolution]));
+            const rows = rollUp(initiativeId, source, resolution);
+
+            if (rows.length === 0 && resolution === 'minute') {
+                rows.push({
+                    initiative_id: initiativeId,
+                    timestamp: new Date(start).toISOString(),
+                    signatures_added: 0,
+                    gap_signatures: 0,
+                    gap_started_at: null,
+                    closing_total: removed.signature_count - removed.change_amount,
+                    samples: 0,
+                    goal: removed.goal,
+                    official_goal: removed.official_goal,
+                    goal_override: removed.goal_override
+                });
+            }
+            await getSnapshotStore().upsertRollups(resolution, rows);
+        }
+    }
+}
+
+// Roll up everything that's complete, then delete what's past each tier's retention. Nothing
+// is deleted before the tier above has it, and cut-offs fall on UTC midnight so the tiers
+// always meet on a boundary every one of them shares.
+export async function compact(initiativeId: string, policy: RetentionPolicy, now: number = Date.now()): Promise<CompactionResult> {
+    const store = getSnapshotStore();
+    const rolledUp = { minute: 0, hour: 0, day: 0 };
+    const rolledUntil = { minute: 0, hour: 0, day: 0 };
+
+    for (const resolution of RESOLUTIONS) {
+        const source = SOURCE[resolution];
+        const sourceEnd = source === 'raw' ? now - SETTLE_MS : rolledUntil[source];
+        rolledUp[resolution] = await rollUpTier(initiativeId, resolution, floorTo(sourceEnd, resolution));
+        rolledUntil[resolution] = (await tierSpan(initiativeId, resolution)).end ?? 0;
+    }
+
+    const cutoff = (days: number, rolledUntil: number) =>
+        days > 0 ? new Date(floorTo(Math.min(now - days * BUCKET_MS.day, rolledUntil), 'day')) : null;
+    const rawCutoff = cutoff(policy.rawDays, rolledUntil.minute);
+    const minuteCutoff = cutoff(policy.minuteDays, rolledUntil.hour);
+    const hourCutoff = cutoff(policy.hourDays, rolledUntil.day);
+
+    const deleted = {
+        raw: rawCutoff ? await store.deleteSnapshotsBefore(initiativeId, rawCutoff) : 0,
+        minute: minuteCutoff ? await store.deleteRollupsBefore('minute', initiativeId, minuteCutoff) : 0,
+        hour: hourCutoff ? await store.deleteRollupsBefore('hour', initiativeId, hourCutoff) : 0,
+        day: 0
+    };
+
+    return { initiativeId, rolledUp, deleted };
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { ADMIN_SESSION_COOKIE, ADMIN_SESSION_TTL_MS, adminActor, createAdminSession, isAdminToken, requireAdmin, verifyAdminSession } from './admin';
+
+const env = { ADMIN_TOKEN: 'secret' };
+
+const request = (headers: Record<string, string>) => new Request('http://localhost/api/admin/monitor', { headers });
+
+describe('requireAdmin', () => {
+	it('takes the token or a session signed with it', () => {
+		const session = createAdminSession('secret');
+
+		expect(adminActor(request({ Authorization: 'Bearer secret' }), env)).toBe('token');
+		expect(adminActor(request({ Cookie: `theme=dark; ${ADMIN_SESSION_COOKIE}=${session}` }), env)).toBe('session');
+		expect(requireAdmin(request({ Authorization: 'secret' }), env)?.status).toBe(401);
+		expect(requireAdmin(request({ Cookie: `${ADMIN_SESSION_COOKIE}=${createAdminSession('old token')}` }), env)?.status).toBe(401);
+		expect(requireAdmin(request({ Authorization: 'Bearer secret' }), {})?.status).toBe(403);
+	});
+
+	it('lets sessions expire and rejects tampered ones', () => {
+		const session = createAdminSession('secret', 0);
+		const [expires, signature] = session.split('.');
+
+		expect(verifyAdminSession(session, 'secret', ADMIN_SESSION_TTL_MS - 1)).toBe(true);
+		expect(verifyAdminSession(session, 'secret', ADMIN_SESSION_TTL_MS)).toBe(false);
+		expect(verifyAdminSession(`${Number(expires) * 2}.${signature}`, 'secret', 0)).toBe(false);
+		expect(verifyAdminSession('garbage', 'secret', 0)).toBe(false);
+	});
+
+	it('turns away non-ASCII tokens and malformed cookies instead of throwing', () => {
+		// Same length as the token in UTF-16, longer in bytes
+		expect(isAdminToken('sécret', env)).toBe(false);
+		expect(isAdminToken('secret', { ADMIN_TOKEN: 'sécret' })).toBe(false);
+		expect(isAdminToken('sécret', { ADMIN_TOKEN: 'sécret' })).toBe(true);
+		expect(verifyAdminSession('1.sïgnature', 'secret', 0)).toBe(false);
+
+		expect(adminActor(request({ Cookie: `${ADMIN_SESSION_COOKIE}=%E0` }), env)).toBeNull();
+		expect(requireAdmin(request({ Cookie: `${ADMIN_SESSION_COOKIE}=%E0.abc` }), env)?.status).toBe(401);
+	});
+});
@@ -0,0 +1,70 @@
+// src/lib/server/admin.ts
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+
+// 🔑 Admin routes require `Authorization: Bearer <ADMIN_TOKEN>`, or the session cookie the
+// /admin login hands out for the same token. Without ADMIN_TOKEN they're switched off entirely.
+
+export const ADMIN_SESSION_COOKIE = 'admin_session';
+export const ADMIN_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+export type AdminActor = 'token' | 'session';
+
+type Env = Record<string, string | undefined>;
+
+const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+const sign = (value: string, token: string) => createHmac('sha256', token).update(value).digest('base64url');
+
+// Compares fixed-length digests, so neither the length nor the characters of either side matter
+const digest = (value: string) => createHash('sha256').update(value).digest();
+const safeEqual = (a: string, b: string) => timingSafeEqual(digest(a), digest(b));
+
+// `<expiry>.<signature>`, signed with the token itself - changing ADMIN_TOKEN ends every session
+export function createAdminSession(token: string, now: number = Date.now()): string {
+    const expires = String(now + ADMIN_SESSION_TTL_MS);
+    return `${expires}.${sign(expires, token)}`;
+}
+
+export function verifyAdminSession(session: string, token: string, now: number = Date.now()): boolean {
+    const [expires, signature] = session.split('.');
+    return Boolean(signature) && safeEqual(signature, sign(expires, token)) && Number(expires) > now;
+}
+
+export const isAdminToken = (candidate: string, env: Env = process.env) =>
+    Boolean(env.ADMIN_TOKEN) && safeEqual(candidate, env.ADMIN_TOKEN!);
+
+function sessionCookie(request: Request): string | null {
+    const cookies = request.headers.get('Cookie') || '';
+    const match = cookies.match(new RegExp(`(?:^|;\\s*)${ADMIN_SESSION_COOKIE}=([^;]+)`));
+    if (!match) return null;
+
+    try {
+        return decodeURIComponent(match[1]);
+    } catch {
+        return null; // malformed escapes, e.g. %E0
+    }
+}
+
+// How the request signed in, or null when it didn't
+export function adminActor(request: Request, env: Env = process.env): AdminActor | null {
+    const token = env.ADMIN_TOKEN;
+    if (!token) return null;
+
+    const header = request.headers.get('Authorization') || '';
+    if (header.startsWith('Bearer ') && isAdminToken(header.slice('Bearer '.length), env)) return 'token';
+
+    const session = sessionCookie(request);
+    return session && verifyAdminSession(session, token) ? 'session' : null;
+}
+
+// Returns the error response to send, or null when the request may go ahead
+export function requireAdmin(request: Request, env: Env = process.env): Response | null {
+    if (!env.ADMIN_TOKEN) return json({ error: 'Admin routes are disabled (ADMIN_TOKEN is not set)' }, 403);
+    if (!adminActor(request, env)) return json({ error: 'Unauthorized' }, 401);
+
+    return null;
+}
@@ -0,0 +1,40 @@
+// src/lib/server/api/cors.ts
+
+// 🌍 Which browser origins may call /api/v1: API_CORS_ORIGINS is "*" (anyone, the default),
+// a comma-separated list of origins, or empty to send no CORS headers at all.
+
+export type CorsConfig = { anyOrigin: true } | { anyOrigin: false; origins: string[] };
+
+export function loadCorsConfig(env: Record<string, string | undefined> = process.env): CorsConfig {
+    const value = env.API_CORS_ORIGINS ?? '*';
+    if (value.trim() === '*') return { anyOrigin: true };
+
+    return {
+        anyOrigin: false,
+        origins: value.split(',').map(origin => origin.trim().replace(/\/$/, '')).filter(Boolean)
+    };
+}
+
+// Headers the browser may read from our responses
+const EXPOSED_HEADERS = ['ETag', 'Last-Modified', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'];
+
+export function corsHeaders(origin: string | null, config: CorsConfig): Record<string, string> {
+    const exposed = { 'Access-Control-Expose-Headers': EXPOSED_HEADERS.join(', ') };
+
+    if (config.anyOrigin) return { 'Access-Control-Allow-Origin': '*', ...exposed };
+    if (!origin || !config.origins.includes(origin)) return { Vary: 'Origin' };
+
+    return { 'Access-Control-Allow-Origin': origin, Vary: 'Origin', ...exposed };
+}
+
+export function preflightHeaders(origin: string | null, config: CorsConfig): Record<string, string> {
+    const headers = corsHeaders(origin, config);
+    if (!headers['Access-Control-Allow-Origin']) return headers;
+
+    return {
+        ...headers,
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'If-None-Match, If-Modified-Since',
+        'Access-Control-Max-Age': '86400'
+    };
+}
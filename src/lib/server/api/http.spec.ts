@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { cachedJson } from './http';
+
+const request = (headers: Record<string, string> = {}) => new Request('http://x/api/v1/initiatives', { headers });
+
+describe('cached json', () => {
+	const body = { data: [1, 2, 3] };
+	const lastModified = new Date('2025-07-01T10:00:00.500Z');
+
+	it('answers a matching ETag with 304', async () => {
+		const first = cachedJson(request(), body, { maxAge: 5, lastModified });
+		const etag = first.headers.get('ETag')!;
+
+		expect(first.status).toBe(200);
+		expect(await first.json()).toEqual(body);
+		expect(first.headers.get('Last-Modified')).toBe('Tue, 01 Jul 2025 10:00:00 GMT');
+
+		expect(cachedJson(request({ 'If-None-Match': etag }), body, { maxAge: 5 }).status).toBe(304);
+		expect(cachedJson(request({ 'If-None-Match': etag }), { data: [] }, { maxAge: 5 }).status).toBe(200);
+	});
+
+	it('falls back to If-Modified-Since without an ETag', () => {
+		const since = (value: string) => cachedJson(request({ 'If-Modified-Since': value }), body, { maxAge: 5, lastModified }).status;
+
+		expect(since('Tue, 01 Jul 2025 10:00:00 GMT')).toBe(304);
+		expect(since('Tue, 01 Jul 2025 09:59:59 GMT')).toBe(200);
+	});
+});
@@ -0,0 +1,68 @@
+// src/lib/server/api/http.ts
+import { createHash } from 'node:crypto';
+import type { RequestEvent } from '@sveltejs/kit';
+import type { ApiErrorV1 } from '../../api/types.js';
+import { ApiError } from './params.js';
+
+export interface CacheOptions {
+    maxAge: number; // seconds
+    lastModified?: Date | null;
+}
+
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
+
+export const errorResponse = (status: number, body: ApiErrorV1, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { ...JSON_HEADERS, ...headers } });
+
+// Second precision, like the header itself
+const httpDate = (date: Date) => new Date(Math.floor(date.getTime() / 1000) * 1000);
+
+function notModified(request: Request, etag: string, lastModified: Date | null | undefined): boolean {
+    // If-None-Match wins when both are sent
+    const ifNoneMatch = request.headers.get('If-None-Match');
+    if (ifNoneMatch) {
+        return ifNoneMatch.trim() === '*'
+            || ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag.replace(/^W\//, ''));
+    }
+
+    const ifModifiedSince = request.headers.get('If-Modified-Since');
+    if (!ifModifiedSince || !lastModified) return false;
+
+    const since = Date.parse(ifModifiedSince);
+    return !isNaN(since) && httpDate(lastModified).getTime() <= since;
+}
+
+// 🏷️ JSON with an ETag (and Last-Modified where the caller knows it), answering
+// conditional requests with 304 so pollers only pay for changes
+export function cachedJson(request: Request, body: unknown, { maxAge, lastModified }: CacheOptions): Response {
+    const payload = JSON.stringify(body);
+    const etag = `W/"${createHash('sha1').update(payload).digest('base64url')}"`;
+
+    const headers: Record<string, string> = {
+        'Cache-Control': `public, max-age=${maxAge}`,
+        ETag: etag
+    };
+    if (lastModified) headers['Last-Modified'] = httpDate(lastModified).toUTCString();
+
+    if (notModified(request, etag, lastModified)) {
+        return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(payload, { headers: { ...JSON_HEADERS, ...headers } });
+}
+
+// Turns ApiErrors into their JSON error responses and anything else into a logged 500
+export function apiHandler<E extends RequestEvent>(handler: (event: E) => Promise<Response>) {
+    return async (event: E): Promise<Response> => {
+        try {
+            return await handler(event);
+        } catch (error) {
+            if (error instanceof ApiError) {
+                return errorResponse(error.status, { error: error.message, ...(error.details && { details: error.details }) });
+            }
+
+            console.error(`API error on ${event.url.pathname}:`, error);
+            return errorResponse(500, { error: 'Internal server error' });
+        }
+    };
+}
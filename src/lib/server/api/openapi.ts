@@ -0,0 +1,196 @@
+// src/lib/server/api/openapi.ts
+import type { ParamSpec } from './params.js';
+import { HISTORY_PARAMS, MAX_HISTORY_PAGE, STATS_PARAMS } from './v1.js';
+
+// 📖 The OpenAPI 3.1 document served at /api/v1/openapi.json. Query parameters come from
+// the same specs the routes validate with; the schemas mirror src/lib/api/types.ts.
+
+type Schema = Record<string, unknown>;
+
+interface Endpoint {
+    path: string;
+    summary: string;
+    params?: Record<string, ParamSpec>;
+    response: string;
+}
+
+const ENDPOINTS: Endpoint[] = [
+    { path: '/initiatives', summary: 'Tracked initiatives and their latest counts', response: 'InitiativeList' },
+    { path: '/initiatives/{id}', summary: 'One initiative and its latest count', response: 'Initiative' },
+    {
+        path: '/initiatives/{id}/stats',
+        summary: 'Signature rates, totals and the goal forecast',
+        params: STATS_PARAMS,
+        response: 'Stats'
+    },
+    {
+        path: '/initiatives/{id}/history',
+        summary: `Stored snapshots, up to ${MAX_HISTORY_PAGE} per page`,
+        params: HISTORY_PARAMS,
+        response: 'HistoryPage'
+    }
+];
+
+const nullable = (type: string, extra: Schema = {}): Schema => ({ type: [type, 'null'], ...extra });
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const object = (properties: Record<string, Schema>): Schema => ({
+    type: 'object',
+    required: Object.keys(properties),
+    properties
+});
+
+const goalSource = { type: 'string', enum: ['official', 'override', 'default'] };
+const dateTime = { type: 'string', format: 'date-time' };
+
+export const SCHEMAS: Record<string, Schema> = {
+    Error: {
+        type: 'object',
+        required: ['error'],
+        properties: { error: { type: 'string' }, details: { type: 'array', items: { type: 'string' } } }
+    },
+    Initiative: object({
+        id: { type: 'string' },
+        title: { type: 'string' },
+        collectionDeadline: nullable('string', { format: 'date-time' }),
+        signatureCount: nullable('integer'),
+        goal: { type: 'integer' },
+        officialGoal: nullable('integer'),
+        goalOverride: nullable('integer'),
+        goalSource,
+        observedAt: nullable('string', { format: 'date-time' }),
+        stale: { type: 'boolean' }
+    }),
+    InitiativeList: object({
+        data: { type: 'array', items: ref('Initiative') },
+        count: { type: 'integer' }
+    }),
+    Forecast: object({
+        projectedCompletion: nullable('string', { format: 'date-time' }),
+        completionLow: nullable('string', { format: 'date-time' }),
+        completionHigh: nullable('string', { format: 'date-time' }),
+        deadline: nullable('string', { format: 'date-time' }),
+        projectedAtDeadline: nullable('integer'),
+        projectedAtDeadlineLow: nullable('integer'),
+        projectedAtDeadlineHigh: nullable('integer'),
+        probabilityOfGoal: nullable('number'),
+        trendPerHour: { type: 'number' },
+        samples: { type: 'integer' },
+        projection: {
+            type: 'array',
+            items: object({ start: dateTime, expected: { type: 'number' }, low: { type: 'number' }, high: { type: 'number' } })
+        }
+    }),
+    Stats: object({
+        initiative: { type: 'string' },
+        currentSignatures: { type: 'integer' },
+        goal: { type: 'integer' },
+        officialGoal: nullable('integer'),
+        goalOverride: nullable('integer'),
+        goalSource,
+        secRate: { type: 'number' },
+        minRate: { type: 'number' },
+        hourlyRate: { type: 'number' },
+        dailyRate: { type: 'number' },
+        peakHour: { type: 'integer', description: 'Busiest hour of the day (0-23) in timeZone' },
+        totalToday: { type: 'integer' },
+        activityLevel: { type: 'string' },
+        timeZone: { type: 'string' },
+        forecast: { oneOf: [ref('Forecast'), { type: 'null' }] }
+    }),
+    Snapshot: object({
+        id: { type: 'integer' },
+        timestamp: dateTime,
+        signature_count: { type: 'integer' },
+        change_amount: { type: 'integer', description: 'Signatures added since the previous snapshot' },
+        goal: { type: 'integer' },
+        official_goal: nullable('integer'),
+        goal_override: nullable('integer'),
+        goal_source: goalSource,
+        gap_started_at: nullable('string', {
+            format: 'date-time',
+            description: 'Set when nobody was polling before this snapshot; change_amount covers the whole gap'
+        }),
+        anomaly: nullable('string', {
+            enum: ['decrease', 'freeze', 'jump', null],
+            description: 'Set when the count looked wrong: it went down, moved again after freezing at a usually busy time, or jumped implausibly far'
+        })
+    }),
+    HistoryPage: object({
+        initiative: { type: 'string' },
+        data: { type: 'array', items: ref('Snapshot') },
+        count: { type: 'integer' },
+        nextCursor: nullable('string')
+    })
+};
+
+function paramSchema(spec: ParamSpec): Schema {
+    switch (spec.type) {
+        case 'integer':
+            return { type: 'integer', minimum: spec.minimum, maximum: spec.maximum, default: spec.default };
+        case 'datetime':
+            return dateTime;
+        case 'enum':
+            return { type: 'string', enum: spec.values, default: spec.default };
+        case 'timezone':
+            return { type: 'string', default: spec.default };
+        default:
+            return { type: 'string' };
+    }
+}
+
+const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: ref('Error') } }
+});
+
+function operation(endpoint: Endpoint) {
+    const parameters = [
+        ...(endpoint.path.includes('{id}')
+            ? [{ name: 'id', in: 'path', required: true, description: 'Initiative ID, e.g. 045', schema: { type: 'string' } }]
+            : []),
+        ...Object.entries(endpoint.params ?? {}).map(([name, spec]) => ({
+            name,
+            in: 'query',
+            required: false,
+            description: spec.description,
+            schema: paramSchema(spec)
+        }))
+    ];
+
+    return {
+        get: {
+            summary: endpoint.summary,
+            parameters,
+            responses: {
+                200: {
+                    description: 'OK',
+                    headers: {
+                        ETag: { schema: { type: 'string' } },
+                        'Last-Modified': { schema: { type: 'string' } }
+                    },
+                    content: { 'application/json': { schema: ref(endpoint.response) } }
+                },
+                304: { description: 'Not modified since the ETag or date sent' },
+                400: errorResponse('Invalid query parameters'),
+                404: errorResponse('Unknown initiative'),
+                429: errorResponse('Rate limit exceeded - see Retry-After')
+            }
+        }
+    };
+}
+
+export function buildOpenApiDocument(serverUrl: string) {
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: 'EU Petition Tracker API',
+            version: '1.0.0',
+            description: 'Live signature counts and history of European Citizens\' Initiatives. '
+                + 'Requests are rate limited per IP (see the RateLimit-* headers); '
+                + 'send If-None-Match or If-Modified-Since to get 304s for unchanged data.'
+        },
+        servers: [{ url: `${serverUrl}/api/v1` }],
+        paths: Object.fromEntries(ENDPOINTS.map(endpoint => [endpoint.path, operation(endpoint)])),
+        components: { schemas: SCHEMAS }
+    };
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { ApiError, decodeCursor, encodeCursor, parseParams } from './params';
+
+const specs = {
+	from: { type: 'datetime', description: '' },
+	order: { type: 'enum', values: ['asc', 'desc'], default: 'asc', description: '' },
+	limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100, description: '' },
+	cursor: { type: 'cursor', description: '' }
+} as const;
+
+const parse = (query: string) => parseParams(new URL(`http://x/api/v1/history?${query}`), specs);
+
+describe('api params', () => {
+	it('applies defaults and parses values', () => {
+		expect(parse('')).toEqual({ from: undefined, order: 'asc', limit: 100, cursor: undefined });
+
+		const cursor = encodeCursor({ timestamp: '2025-07-01T10:00:00.000Z', id: 7 });
+		expect(parse(`from=2025-07-01T00:00:00Z&order=desc&limit=5&cursor=${cursor}`)).toEqual({
+			from: new Date('2025-07-01T00:00:00Z'),
+			order: 'desc',
+			limit: 5,
+			cursor: { timestamp: '2025-07-01T10:00:00.000Z', id: 7 }
+		});
+	});
+
+	it('reports every invalid parameter at once', () => {
+		try {
+			parse('from=yesterday&order=random&limit=5000&cursor=nope');
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(ApiError);
+			expect((error as ApiError).status).toBe(400);
+			expect((error as ApiError).details).toHaveLength(4);
+		}
+	});
+
+	it('rejects cursors that do not decode to a position', () => {
+		expect(decodeCursor(Buffer.from('["2025-07-01", "7"]').toString('base64url'))).toBeNull();
+		expect(decodeCursor('%%%')).toBeNull();
+	});
+});
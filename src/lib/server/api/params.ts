@@ -0,0 +1,106 @@
+// src/lib/server/api/params.ts
+import type { SnapshotPosition } from '../store/index.js';
+import { isValidTimeZone } from '../../timebuckets.js';
+
+// ✅ Query parameters of the /api/v1 routes are declared once: the same specs validate
+// requests at runtime and describe the parameters in the OpenAPI document.
+
+export class ApiError extends Error {
+    constructor(public readonly status: number, message: string, public readonly details?: string[]) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+interface BaseSpec {
+    description: string;
+}
+
+export type ParamSpec = BaseSpec & (
+    | { type: 'string' }
+    | { type: 'datetime' }
+    | { type: 'cursor' }
+    | { type: 'timezone'; default?: string }
+    | { type: 'integer'; minimum: number; maximum: number; default?: number }
+    | { type: 'enum'; values: readonly string[]; default?: string }
+);
+
+type ParamValue<S extends ParamSpec> =
+    S extends { type: 'integer' } ? number :
+    S extends { type: 'datetime' } ? Date :
+    S extends { type: 'cursor' } ? SnapshotPosition :
+    S extends { type: 'enum'; values: readonly (infer V)[] } ? V :
+    string;
+
+export type ParsedParams<P extends Record<string, ParamSpec>> = {
+    [K in keyof P]: P[K] extends { default: unknown } ? ParamValue<P[K]> : ParamValue<P[K]> | undefined;
+};
+
+// Cursors are opaque to clients: a base64url-encoded position in the snapshot order
+export const encodeCursor = ({ timestamp, id }: SnapshotPosition) =>
+    Buffer.from(JSON.stringify([timestamp, id])).toString('base64url');
+
+export function decodeCursor(value: string): SnapshotPosition | null {
+    try {
+        const [timestamp, id] = JSON.parse(Buffer.from(value, 'base64url').toString());
+        if (typeof timestamp !== 'string' || isNaN(Date.parse(timestamp)) || !Number.isInteger(id)) return null;
+        return { timestamp, id };
+    } catch {
+        return null;
+    }
+}
+
+function parseValue(name: string, value: string, spec: ParamSpec): unknown {
+    switch (spec.type) {
+        case 'integer': {
+            const number = Number(value);
+            if (!Number.isInteger(number) || number < spec.minimum || number > spec.maximum) {
+                throw new ApiError(400, `${name} must be an integer from ${spec.minimum} to ${spec.maximum}`);
+            }
+            return number;
+        }
+        case 'datetime': {
+            const date = new Date(value);
+            if (isNaN(date.getTime())) throw new ApiError(400, `${name} must be an ISO 8601 date`);
+            return date;
+        }
+        case 'cursor': {
+            const position = decodeCursor(value);
+            if (!position) throw new ApiError(400, `${name} is not a valid cursor`);
+            return position;
+        }
+        case 'timezone':
+            if (!isValidTimeZone(value)) throw new ApiError(400, `${name} must be an IANA timezone, e.g. Europe/Berlin`);
+            return value;
+        case 'enum':
+            if (!spec.values.includes(value)) throw new ApiError(400, `${name} must be one of ${spec.values.join(', ')}`);
+            return value;
+        default:
+            return value;
+    }
+}
+
+// Collects every problem at once, so clients can fix a request in one go
+export function parseParams<P extends Record<string, ParamSpec>>(url: URL, specs: P): ParsedParams<P> {
+    const parsed: Record<string, unknown> = {};
+    const problems: string[] = [];
+
+    for (const [name, spec] of Object.entries(specs)) {
+        const value = url.searchParams.get(name);
+
+        if (value === null || value === '') {
+            parsed[name] = 'default' in spec ? spec.default : undefined;
+            continue;
+        }
+
+        try {
+            parsed[name] = parseValue(name, value, spec);
+        } catch (error) {
+            if (!(error instanceof ApiError)) throw error;
+            problems.push(error.message);
+        }
+    }
+
+    if (problems.length > 0) throw new ApiError(400, 'Invalid query parameters', problems);
+    return parsed as ParsedParams<P>;
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter, loadRateLimitConfig, rateLimitHeaders } from './ratelimit';
+
+describe('rate limiter', () => {
+	it('allows the limit per window and client, then resets', () => {
+		const limiter = new RateLimiter({ limit: 2, windowMs: 1000 });
+
+		expect(limiter.hit('a', 0).allowed).toBe(true);
+		expect(limiter.hit('a', 100).remaining).toBe(0);
+		expect(limiter.hit('a', 200).allowed).toBe(false);
+		expect(limiter.hit('b', 200).allowed).toBe(true);
+		expect(limiter.hit('a', 1000).allowed).toBe(true);
+	});
+
+	it('tells blocked clients when to retry', () => {
+		const limiter = new RateLimiter({ limit: 1, windowMs: 60000 });
+		limiter.hit('a', 0);
+
+		expect(rateLimitHeaders(limiter.hit('a', 15000), 15000)).toEqual({
+			'RateLimit-Limit': '1',
+			'RateLimit-Remaining': '0',
+			'RateLimit-Reset': '45',
+			'Retry-After': '45'
+		});
+	});
+
+	it('is switched off with a limit of 0', () => {
+		expect(new RateLimiter(loadRateLimitConfig({ API_RATE_LIMIT: '0' })).enabled).toBe(false);
+		expect(loadRateLimitConfig({})).toEqual({ limit: 60, windowMs: 60000 });
+	});
+});
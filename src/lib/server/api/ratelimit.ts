@@ -0,0 +1,78 @@
+// src/lib/server/api/ratelimit.ts
+
+// 🚦 Fixed-window request limits per client IP. Counters live in process memory,
+// so every instance enforces the limit on its own share of the traffic.
+
+export interface RateLimitConfig {
+    limit: number;    // requests per window; 0 switches limiting off
+    windowMs: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetAt: number; // epoch ms
+}
+
+export function loadRateLimitConfig(env: Record<string, string | undefined> = process.env): RateLimitConfig {
+    const number = (value: string | undefined, fallback: number) =>
+        value && !isNaN(Number(value)) ? Number(value) : fallback;
+
+    return {
+        limit: number(env.API_RATE_LIMIT, 60),
+        windowMs: number(env.API_RATE_LIMIT_WINDOW_MS, 60000)
+    };
+}
+
+export class RateLimiter {
+    private windows = new Map<string, { count: number; resetAt: number }>();
+    private nextSweep = 0;
+
+    constructor(private config: RateLimitConfig) {}
+
+    get enabled() {
+        return this.config.limit > 0;
+    }
+
+    hit(key: string, now = Date.now()): RateLimitResult {
+        this.sweep(now);
+
+        let window = this.windows.get(key);
+        if (!window || window.resetAt <= now) {
+            window = { count: 0, resetAt: now + this.config.windowMs };
+            this.windows.set(key, window);
+        }
+
+        window.count++;
+
+        return {
+            allowed: window.count <= this.config.limit,
+            limit: this.config.limit,
+            remaining: Math.max(0, this.config.limit - window.count),
+            resetAt: window.resetAt
+        };
+    }
+
+    // Forget clients whose window has ended, once per window
+    private sweep(now: number) {
+        if (now < this.nextSweep) return;
+        this.nextSweep = now + this.config.windowMs;
+
+        for (const [key, window] of this.windows) {
+            if (window.resetAt <= now) this.windows.delete(key);
+        }
+    }
+}
+
+// Draft IETF RateLimit headers, plus Retry-After once the limit is hit
+export function rateLimitHeaders(result: RateLimitResult, now = Date.now()): Record<string, string> {
+    const reset = String(Math.max(0, Math.ceil((result.resetAt - now) / 1000)));
+
+    return {
+        'RateLimit-Limit': String(result.limit),
+        'RateLimit-Remaining': String(result.remaining),
+        'RateLimit-Reset': reset,
+        ...(!result.allowed && { 'Retry-After': reset })
+    };
+}
@@ -0,0 +1,79 @@
+// src/lib/server/api/v1.ts
+import type { InitiativeV1, SnapshotV1, StatsV1 } from '../../api/types.js';
+import { goalSourceOf } from '../../config.js';
+import { getCurrentData, getUpstreamStatus } from '../../datamonitor.js';
+import { getInitiative, type TrackedInitiative } from '../../initiatives.js';
+import type { StatsResponse } from '../../stats.js';
+import type { SignatureSnapshot } from '../store/index.js';
+import { DEFAULT_TIMEZONE } from '../../timebuckets.js';
+import { ApiError, type ParamSpec } from './params.js';
+
+// 🔢 Mapping internal rows onto the /api/v1 contract, plus the parameters its routes take
+
+export const MAX_HISTORY_PAGE = 1000;
+
+export const HISTORY_PARAMS = {
+    from: { type: 'datetime', description: 'Only snapshots taken at or after this time (ISO 8601)' },
+    to: { type: 'datetime', description: 'Only snapshots taken before this time (ISO 8601)' },
+    order: { type: 'enum', values: ['asc', 'desc'], default: 'asc', description: 'Oldest or newest first' },
+    limit: { type: 'integer', minimum: 1, maximum: MAX_HISTORY_PAGE, default: 100, description: 'Snapshots per page' },
+    cursor: { type: 'cursor', description: 'nextCursor of the previous page' }
+} as const satisfies Record<string, ParamSpec>;
+
+export const STATS_PARAMS = {
+    tz: { type: 'timezone', default: DEFAULT_TIMEZONE, description: 'IANA timezone peakHour is reported in' }
+} as const satisfies Record<string, ParamSpec>;
+
+export function requireInitiative(id: string): TrackedInitiative {
+    const initiative = getInitiative(id);
+    if (!initiative) throw new ApiError(404, 'Unknown initiative');
+    return initiative;
+}
+
+export function toInitiativeV1(initiative: TrackedInitiative): InitiativeV1 {
+    const liveData = getCurrentData(initiative.id);
+
+    return {
+        id: initiative.id,
+        title: initiative.title,
+        collectionDeadline: initiative.collectionDeadline,
+        signatureCount: liveData?.signatureCount ?? null,
+        goal: liveData?.goal ?? initiative.goal,
+        officialGoal: liveData?.officialGoal ?? null,
+        goalOverride: liveData?.goalOverride ?? null,
+        goalSource: liveData?.goalSource ?? 'default',
+        observedAt: liveData?.observedAt ?? null,
+        stale: getUpstreamStatus(initiative.id).stale
+    };
+}
+
+export const toSnapshotV1 = (row: SignatureSnapshot): SnapshotV1 => ({
+    id: row.id,
+    timestamp: row.timestamp,
+    signature_count: row.signature_count,
+    change_amount: row.change_amount,
+    goal: row.goal,
+    official_goal: row.official_goal,
+    goal_override: row.goal_override,
+    goal_source: goalSourceOf(row),
+    gap_started_at: row.gap_started_at,
+    anomaly: row.anomaly
+});
+
+export const toStatsV1 = (stats: StatsResponse): StatsV1 => ({
+    initiative: stats.initiative,
+    currentSignatures: stats.currentSignatures,
+    goal: stats.goal,
+    officialGoal: stats.officialGoal,
+    goalOverride: stats.goalOverride,
+    goalSource: stats.goalSource,
+    secRate: stats.secRate,
+    minRate: stats.minRate,
+    hourlyRate: stats.hourlyRate,
+    dailyRate: stats.dailyRate,
+    peakHour: stats.peakHour,
+    totalToday: stats.totalToday,
+    activityLevel: stats.activityLevel,
+    timeZone: stats.timeZone,
+    forecast: stats.forecast
+});
@@ -0,0 +1,40 @@
+// src/lib/server/audit.ts
+import type { RequestEvent } from '@sveltejs/kit';
+import { adminActor } from './admin.js';
+import { getSnapshotStore } from './store/index.js';
+
+// 📜 Who changed what from the admin console or the admin API, kept in the snapshot store.
+// A failed write is logged and otherwise ignored - it never undoes or blocks the action.
+
+export interface AuditEntry {
+    action: string; // e.g. monitor.pause, snapshot.delete
+    initiativeId?: string | null;
+    details?: Record<string, unknown>;
+    actor?: string; // defaults to how the request signed in
+}
+
+type AuditEvent = Pick<RequestEvent, 'request' | 'getClientAddress'>;
+
+function clientAddress(event: AuditEvent): string | null {
+    try {
+        return event.getClientAddress();
+    } catch {
+        return null; // not every adapter can tell
+    }
+}
+
+export async function recordAdminAction(event: AuditEvent, { action, initiativeId = null, details, actor }: AuditEntry): Promise<void> {
+    try {
+        await getSnapshotStore().insertAdminAction({
+            actor: actor ?? adminActor(event.request) ?? 'anonymous',
+            address: clientAddress(event),
+            action,
+            initiative_id: initiativeId,
+            details: details ?? null
+        });
+
+        console.log(`📜 Admin action: ${action}${initiativeId ? ` [${initiativeId}]` : ''}`);
+    } catch (error) {
+        console.error(`Failed to audit ${action}:`, error);
+    }
+}
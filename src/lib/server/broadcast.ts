@@ -0,0 +1,87 @@
+// src/lib/server/broadcast.ts
+import postgres from 'postgres';
+
+// 📣 Fans live updates out to every server instance, so one poll reaches the
+// /api/data subscribers of all of them. In memory (the default) only reaches this
+// process; Postgres LISTEN/NOTIFY reaches everything connected to DATABASE_URL.
+
+export type BroadcastKind = 'memory' | 'postgres';
+
+export interface BroadcastMessage<T = unknown> {
+    origin: string; // holder ID of the publishing instance
+    type: string;
+    payload: T;
+}
+
+export type BroadcastHandler = (message: BroadcastMessage) => void;
+
+export interface Broadcaster {
+    readonly kind: BroadcastKind;
+    publish(message: BroadcastMessage): Promise<void>;
+    // Resolves once listening; the returned function stops it
+    subscribe(handler: BroadcastHandler): Promise<() => Promise<void>>;
+}
+
+const CHANNEL = 'signature_updates';
+const BROADCAST_KINDS: BroadcastKind[] = ['memory', 'postgres'];
+
+export class MemoryBroadcaster implements Broadcaster {
+    readonly kind = 'memory';
+    private handlers = new Set<BroadcastHandler>();
+
+    async publish(message: BroadcastMessage) {
+        for (const handler of this.handlers) handler(message);
+    }
+
+    async subscribe(handler: BroadcastHandler) {
+        this.handlers.add(handler);
+        return async () => {
+            this.handlers.delete(handler);
+        };
+    }
+}
+
+export class PostgresBroadcaster implements Broadcaster {
+    readonly kind = 'postgres';
+    private sql: postgres.Sql;
+
+    constructor(url: string | undefined = process.env.DATABASE_URL) {
+        if (!url) throw new Error('DATABASE_URL is not set');
+        // LISTEN holds a connection of its own; NOTIFY only needs one more
+        this.sql = postgres(url, { max: 2 });
+    }
+
+    async publish(message: BroadcastMessage) {
+        await this.sql.notify(CHANNEL, JSON.stringify(message));
+    }
+
+    async subscribe(handler: BroadcastHandler) {
+        const { unlisten } = await this.sql.listen(CHANNEL, payload => {
+            try {
+                handler(JSON.parse(payload));
+            } catch (error) {
+                console.error('Ignoring malformed broadcast:', error);
+            }
+        });
+        return unlisten;
+    }
+}
+
+export function resolveBroadcastKind(env: Record<string, string | undefined> = process.env): BroadcastKind {
+    const configured = env.BROADCAST?.trim().toLowerCase() || 'memory';
+
+    if (!(BROADCAST_KINDS as string[]).includes(configured)) {
+        throw new Error(`Unknown BROADCAST "${env.BROADCAST}" (expected ${BROADCAST_KINDS.join(', ')})`);
+    }
+    return configured as BroadcastKind;
+}
+
+let broadcaster: Broadcaster | null = null;
+
+export function getBroadcaster(): Broadcaster {
+    if (!broadcaster) {
+        broadcaster = resolveBroadcastKind() === 'postgres' ? new PostgresBroadcaster() : new MemoryBroadcaster();
+        console.log(`📣 Using ${broadcaster.kind} broadcast`);
+    }
+    return broadcaster;
+}
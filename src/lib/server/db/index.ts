@@ -1,10 +1,12 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import * as schema from './schema';
-import { env } from '$env/dynamic/private';
 
-if (!env.DATABASE_URL) throw new Error('DATABASE_URL is not set');
+export type Database = ReturnType<typeof createDb>;
 
-const client = postgres(env.DATABASE_URL);
+// Connects lazily so importing this module never needs DATABASE_URL
+export function createDb(url: string | undefined = process.env.DATABASE_URL) {
+	if (!url) throw new Error('DATABASE_URL is not set');
 
-export const db = drizzle(client, { schema });
\ No newline at end of file
+	return drizzle(postgres(url), { schema });
+}
@@ -1,6 +1,164 @@
-import { pgTable, serial, integer } from 'drizzle-orm/pg-core';
+import { desc } from 'drizzle-orm';
+import {
+	pgTable,
+	pgView,
+	bigserial,
+	boolean,
+	text,
+	integer,
+	jsonb,
+	timestamp,
+	index,
+	uniqueIndex
+} from 'drizzle-orm/pg-core';
 
-export const user = pgTable('user', {
-	id: serial('id').primaryKey(),
-	age: integer('age')
+export const signatureSnapshots = pgTable(
+	'signature_snapshots',
+	{
+		id: bigserial('id', { mode: 'number' }).primaryKey(),
+		initiativeId: text('initiative_id').notNull().default('045'),
+		timestamp: timestamp('timestamp', { withTimezone: true }).notNull().defaultNow(),
+		signatureCount: integer('signature_count').notNull(),
+		changeAmount: integer('change_amount').notNull().default(0),
+		goal: integer('goal').notNull(),
+		officialGoal: integer('official_goal'),
+		goalOverride: integer('goal_override'),
+		// Set when nobody was polling before this snapshot: its change_amount covers the whole gap
+		gapStartedAt: timestamp('gap_started_at', { withTimezone: true }),
+		// decrease, freeze or jump when this count looked wrong (src/lib/anomalies.ts)
+		anomaly: text('anomaly'),
+		// One row per observed count, however many instances saw it
+		idempotencyKey: text('idempotency_key').unique()
+	},
+	(table) => [
+		index('signature_snapshots_initiative_timestamp_idx').on(table.initiativeId, table.timestamp)
+	]
+);
+
+// Snapshots summed per UTC minute, hour or day (src/lib/rollups.ts). Raw rows are rolled
+// into minutes, minutes into hours and hours into days before retention deletes them.
+const rollupTable = (name: string) =>
+	pgTable(
+		name,
+		{
+			id: bigserial('id', { mode: 'number' }).primaryKey(),
+			initiativeId: text('initiative_id').notNull(),
+			// Start of the bucket
+			timestamp: timestamp('timestamp', { withTimezone: true }).notNull(),
+			signaturesAdded: integer('signatures_added').notNull(),
+			// The part of signatures_added reported after a gap, spread back to gap_started_at
+			gapSignatures: integer('gap_signatures').notNull().default(0),
+			gapStartedAt: timestamp('gap_started_at', { withTimezone: true }),
+			closingTotal: integer('closing_total').notNull(),
+			samples: integer('samples').notNull(),
+			goal: integer('goal').notNull(),
+			officialGoal: integer('official_goal'),
+			goalOverride: integer('goal_override')
+		},
+		(table) => [
+			uniqueIndex(`${name}_initiative_timestamp_idx`).on(table.initiativeId, table.timestamp)
+		]
+	);
+
+export const signatureRollupsMinute = rollupTable('signature_rollups_minute');
+export const signatureRollupsHour = rollupTable('signature_rollups_hour');
+export const signatureRollupsDay = rollupTable('signature_rollups_day');
+
+export const countrySnapshots = pgTable(
+	'country_snapshots',
+	{
+		id: bigserial('id', { mode: 'number' }).primaryKey(),
+		initiativeId: text('initiative_id').notNull().default('045'),
+		countryCode: text('country_code').notNull(),
+		signatureCount: integer('signature_count').notNull(),
+		changeAmount: integer('change_amount').notNull().default(0),
+		timestamp: timestamp('timestamp', { withTimezone: true }).notNull().defaultNow()
+	},
+	(table) => [
+		index('country_snapshots_initiative_timestamp_idx').on(table.initiativeId, table.timestamp),
+		index('country_snapshots_initiative_country_timestamp_idx').on(table.initiativeId, table.countryCode, table.timestamp)
+	]
+);
+
+// The newest row per initiative and country, however long ago a country last moved
+export const latestCountrySnapshots = pgView('latest_country_snapshots').as((qb) =>
+	qb
+		.selectDistinctOn([countrySnapshots.initiativeId, countrySnapshots.countryCode])
+		.from(countrySnapshots)
+		.orderBy(
+			countrySnapshots.initiativeId,
+			countrySnapshots.countryCode,
+			desc(countrySnapshots.timestamp),
+			desc(countrySnapshots.id)
+		)
+);
+
+export const goalSettings = pgTable(
+	'goal_settings',
+	{
+		id: bigserial('id', { mode: 'number' }).primaryKey(),
+		initiativeId: text('initiative_id').notNull(),
+		goal: integer('goal').notNull(),
+		effectiveFrom: timestamp('effective_from', { withTimezone: true }).notNull().defaultNow(),
+		createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+	},
+	(table) => [
+		index('goal_settings_initiative_effective_idx').on(table.initiativeId, table.effectiveFrom)
+	]
+);
+
+// Campaign events marked on the timeline, to compare signature rates before and after
+export const annotations = pgTable(
+	'annotations',
+	{
+		id: bigserial('id', { mode: 'number' }).primaryKey(),
+		initiativeId: text('initiative_id').notNull(),
+		timestamp: timestamp('timestamp', { withTimezone: true }).notNull(),
+		label: text('label').notNull(),
+		url: text('url'),
+		createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+	},
+	(table) => [
+		index('annotations_initiative_timestamp_idx').on(table.initiativeId, table.timestamp)
+	]
+);
+
+export const alertDeliveries = pgTable('alert_deliveries', {
+	key: text('key').primaryKey(),
+	initiativeId: text('initiative_id').notNull(),
+	kind: text('kind').notNull(),
+	message: text('message').notNull(),
+	firedAt: timestamp('fired_at', { withTimezone: true }).notNull().defaultNow()
+});
+
+// Leader election between collectors: whoever holds an unexpired lease polls and writes
+export const collectorLeases = pgTable('collector_leases', {
+	name: text('name').primaryKey(),
+	holder: text('holder').notNull(),
+	expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+	renewedAt: timestamp('renewed_at', { withTimezone: true }).notNull().defaultNow()
 });
+
+// Pause and poll interval set from the admin console, for whichever instance holds the lease
+export const monitorSettings = pgTable('monitor_settings', {
+	name: text('name').primaryKey(),
+	paused: boolean('paused').notNull().default(false),
+	intervalMs: integer('interval_ms'),
+	updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow()
+});
+
+// Every change made through the admin console or the admin API (src/lib/server/audit.ts)
+export const adminAuditLog = pgTable(
+	'admin_audit_log',
+	{
+		id: bigserial('id', { mode: 'number' }).primaryKey(),
+		timestamp: timestamp('timestamp', { withTimezone: true }).notNull().defaultNow(),
+		// How the admin signed in (token or session) and from which address
+		actor: text('actor').notNull(),
+		address: text('address'),
+		action: text('action').notNull(),
+		initiativeId: text('initiative_id'),
+		details: jsonb('details')
+	},
+	(table) => [index('admin_audit_log_timestamp_idx').on(table.timestamp)]
+);
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { LeaderLease } from './lease';
+import { MemorySnapshotStore } from './store/memory';
+
+describe('leader lease', () => {
+	it('lets one holder lead and hands over on release', async () => {
+		const store = new MemorySnapshotStore();
+		const first = new LeaderLease(() => store, 'collector', 'first', 30000);
+		const second = new LeaderLease(() => store, 'collector', 'second', 30000);
+
+		expect(await first.acquire()).toBe(true);
+		expect(await second.acquire()).toBe(false);
+		expect(second.currentLeader).toBe('first');
+		expect(second.leaderAlive()).toBe(true);
+
+		await first.release();
+		expect(await second.acquire(Date.now() + 10001)).toBe(true);
+	});
+
+	it('takes over an expired lease', async () => {
+		const store = new MemorySnapshotStore();
+		await store.acquireLease('collector', 'crashed', -1);
+
+		const lease = new LeaderLease(() => store, 'collector', 'next', 30000);
+		expect(await lease.acquire()).toBe(true);
+	});
+});
@@ -0,0 +1,97 @@
+// src/lib/server/lease.ts
+import { hostname } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import type { SnapshotStore } from './store/index.js';
+
+// 👑 Leader election on top of the snapshot store: only the process holding the
+// lease polls the EU API and writes snapshots. Holders renew every third of the TTL,
+// so a crashed leader is replaced within one TTL.
+
+export const defaultHolderId = () => `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+export class LeaderLease {
+    private held = false;
+    private nextCheckAt = 0;
+    private leader: string | null = null;
+    private leaderUntil = 0;
+
+    constructor(
+        private store: () => SnapshotStore,
+        readonly name: string,
+        readonly holder: string,
+        private ttlMs: number
+    ) {}
+
+    // Take or renew the lease; true while we hold it
+    async acquire(now = Date.now()): Promise<boolean> {
+        if (now < this.nextCheckAt) return this.held;
+        this.nextCheckAt = now + this.ttlMs / 3;
+
+        const wasHeld = this.held;
+        try {
+            this.held = await this.store().acquireLease(this.name, this.holder, this.ttlMs);
+            if (this.held) {
+                this.leader = this.holder;
+                this.leaderUntil = now + this.ttlMs;
+            } else {
+                await this.refresh();
+            }
+        } catch (error) {
+            // Can't prove we still hold it - stop writing until we can
+            console.error(`Failed to acquire the ${this.name} lease:`, error);
+            this.held = false;
+        }
+
+        if (this.held !== wasHeld) {
+            console.log(this.held
+                ? `👑 ${this.holder} is now the ${this.name} leader`
+                : `👥 ${this.holder} lost the ${this.name} lease (leader: ${this.leader ?? 'none'})`);
+        }
+
+        return this.held;
+    }
+
+    // Keep track of the leader without competing - for read-only instances
+    async observe(now = Date.now()) {
+        if (now < this.nextCheckAt) return;
+        this.nextCheckAt = now + this.ttlMs / 3;
+
+        try {
+            await this.refresh();
+        } catch (error) {
+            console.error(`Failed to read the ${this.name} lease:`, error);
+        }
+    }
+
+    async release() {
+        if (!this.held) return;
+        this.held = false;
+        this.nextCheckAt = 0;
+
+        try {
+            await this.store().releaseLease(this.name, this.holder);
+            console.log(`👋 ${this.holder} released the ${this.name} lease`);
+        } catch (error) {
+            console.error(`Failed to release the ${this.name} lease:`, error);
+        }
+    }
+
+    get isHeld() {
+        return this.held;
+    }
+
+    get currentLeader() {
+        return this.leaderAlive() ? this.leader : null;
+    }
+
+    // Whether somebody (maybe us) holds an unexpired lease
+    leaderAlive(now = Date.now()) {
+        return this.held || (this.leader !== null && now < this.leaderUntil);
+    }
+
+    private async refresh() {
+        const lease = await this.store().getLease(this.name);
+        this.leader = lease?.holder ?? null;
+        this.leaderUntil = lease ? new Date(lease.expires_at).getTime() : 0;
+    }
+}
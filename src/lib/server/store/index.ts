@@ -0,0 +1,54 @@
+// src/lib/server/store/index.ts
+import { hasValidSupabase } from '../../supabase.js';
+import { MemorySnapshotStore } from './memory.js';
+import { PostgresSnapshotStore } from './postgres.js';
+import { SupabaseSnapshotStore } from './supabase.js';
+import type { SnapshotStore, StoreKind } from './types.js';
+
+export * from './types.js';
+export { MemorySnapshotStore, PostgresSnapshotStore, SupabaseSnapshotStore };
+
+const STORE_KINDS: StoreKind[] = ['supabase', 'postgres', 'memory'];
+
+let store: SnapshotStore | null = null;
+
+// SNAPSHOT_STORE picks the backend; without it, Supabase when configured, then
+// DATABASE_URL, and finally memory so the app still runs with no database at all
+export function resolveStoreKind(env: Record<string, string | undefined> = process.env): StoreKind {
+    const configured = env.SNAPSHOT_STORE?.trim().toLowerCase();
+
+    if (configured) {
+        if (!(STORE_KINDS as string[]).includes(configured)) {
+            throw new Error(`Unknown SNAPSHOT_STORE "${env.SNAPSHOT_STORE}" (expected ${STORE_KINDS.join(', ')})`);
+        }
+        return configured as StoreKind;
+    }
+
+    if (hasValidSupabase) return 'supabase';
+    if (env.DATABASE_URL) return 'postgres';
+    return 'memory';
+}
+
+export function createSnapshotStore(kind: StoreKind = resolveStoreKind()): SnapshotStore {
+    switch (kind) {
+        case 'supabase':
+            return new SupabaseSnapshotStore();
+        case 'postgres':
+            return new PostgresSnapshotStore();
+        case 'memory':
+            return new MemorySnapshotStore();
+    }
+}
+
+export function getSnapshotStore(): SnapshotStore {
+    if (!store) {
+        store = createSnapshotStore();
+        console.log(`🗄️ Using ${store.kind} snapshot store`);
+    }
+    return store;
+}
+
+// Swap the store out, e.g. for a MemorySnapshotStore in tests
+export function setSnapshotStore(next: SnapshotStore) {
+    store = next;
+}
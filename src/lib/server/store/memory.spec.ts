@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { MemorySnapshotStore } from './memory';
+import { resolveStoreKind } from './index';
+
+const snapshot = (signatureCount: number, timestamp: string, initiativeId = '045') => ({
+	initiative_id: initiativeId,
+	signature_count: signatureCount,
+	change_amount: 0,
+	goal: 1000000,
+	official_goal: 1000000,
+	goal_override: null,
+	gap_started_at: null,
+	anomaly: null,
+	idempotency_key: null,
+	timestamp
+});
+
+describe('memory snapshot store', () => {
+	it('filters by initiative and range, oldest first', async () => {
+		const store = new MemorySnapshotStore();
+		await store.insertSnapshot(snapshot(3, '2025-07-01T12:00:00Z'));
+		await store.insertSnapshot(snapshot(1, '2025-07-01T10:00:00Z'));
+		await store.insertSnapshot(snapshot(2, '2025-07-01T11:00:00Z'));
+		await store.insertSnapshot(snapshot(9, '2025-07-01T11:00:00Z', '046'));
+
+		const rows = await store.listSnapshots({
+			initiativeId: '045',
+			from: new Date('2025-07-01T10:30:00Z'),
+			to: new Date('2025-07-01T12:00:00Z')
+		});
+		expect(rows.map((row) => row.signature_count)).toEqual([2]);
+
+		const all = await store.listSnapshots({ initiativeId: '045' });
+		expect(all.map((row) => row.signature_count)).toEqual([1, 2, 3]);
+	});
+
+	it('pages newest first', async () => {
+		const store = new MemorySnapshotStore();
+		for (let hour = 10; hour < 15; hour++) {
+			await store.insertSnapshot(snapshot(hour, `2025-07-01T${hour}:00:00Z`));
+		}
+
+		const page = await store.listSnapshots({ initiativeId: '045', order: 'desc', limit: 2, offset: 1 });
+		expect(page.map((row) => row.signature_count)).toEqual([13, 12]);
+	});
+
+	it('pages by position, breaking timestamp ties by id', async () => {
+		const store = new MemorySnapshotStore();
+		await store.insertSnapshot(snapshot(1, '2025-07-01T10:00:00Z'));
+		await store.insertSnapshot(snapshot(2, '2025-07-01T11:00:00Z'));
+		await store.insertSnapshot(snapshot(3, '2025-07-01T11:00:00Z'));
+		await store.insertSnapshot(snapshot(4, '2025-07-01T12:00:00Z'));
+
+		const after = { timestamp: '2025-07-01T11:00:00.000Z', id: 2 };
+		const forward = await store.listSnapshots({ initiativeId: '045', after });
+		expect(forward.map((row) => row.signature_count)).toEqual([3, 4]);
+
+		const backward = await store.listSnapshots({ initiativeId: '045', order: 'desc', after });
+		expect(backward.map((row) => row.signature_count)).toEqual([1]);
+	});
+
+	it('skips rows whose idempotency key was stored before', async () => {
+		const store = new MemorySnapshotStore();
+		const row = { ...snapshot(5, '2025-07-01T10:00:00Z'), idempotency_key: '045:4->5@1' };
+
+		expect(await store.insertSnapshot(row)).toBe(true);
+		expect(await store.insertSnapshot(row)).toBe(false);
+		expect(await store.listSnapshots({ initiativeId: '045' })).toHaveLength(1);
+	});
+
+	it('keeps the latest row per country however far back it is, and sums recent growth', async () => {
+		const store = new MemorySnapshotStore();
+		const country = (code: string, count: number, timestamp: string) => ({
+			initiative_id: '045',
+			country_code: code,
+			signature_count: count,
+			change_amount: 0,
+			timestamp
+		});
+
+		// Malta stopped moving long before 1200 newer German rows were stored
+		await store.insertCountrySnapshots([country('MT', 5, '2025-06-01T00:00:00Z')]);
+		await store.insertCountrySnapshots(
+			Array.from({ length: 1200 }, (_, i) => country('DE', i, new Date(Date.parse('2025-07-01T00:00:00Z') + i * 60000).toISOString()))
+		);
+		await store.insertCountrySnapshots([{ ...country('MT', 9, '2025-07-02T00:00:00Z'), initiative_id: '046' }]);
+
+		const latest = await store.latestCountrySnapshots('045');
+		expect(latest.map((row) => [row.country_code, row.signature_count]).sort()).toEqual([
+			['DE', 1199],
+			['MT', 5]
+		]);
+
+		// The 1200 German rows each moved by 0 except the ones added below
+		await store.insertCountrySnapshots([
+			{ ...country('DE', 1210, '2025-07-02T00:00:00Z'), change_amount: 11 },
+			{ ...country('DE', 1205, '2025-07-02T00:01:00Z'), change_amount: -5 }
+		]);
+		expect(await store.countryGrowthSince('045', new Date('2025-07-01T12:00:00Z'))).toEqual([
+			{ country_code: 'DE', signatures_added: 11 }
+		]);
+	});
+
+	it('records each alert delivery once, until it is deleted', async () => {
+		const store = new MemorySnapshotStore();
+		const delivery = { key: '045:goal:1000000', initiative_id: '045', kind: 'goal', message: 'Goal reached' };
+
+		expect(await store.recordAlertDelivery(delivery)).toBe(true);
+		expect(await store.recordAlertDelivery(delivery)).toBe(false);
+
+		await store.deleteAlertDelivery(delivery.key);
+		expect(await store.recordAlertDelivery(delivery)).toBe(true);
+	});
+});
+
+describe('store selection', () => {
+	it('honours SNAPSHOT_STORE and falls back to DATABASE_URL, then memory', () => {
+		expect(resolveStoreKind({ SNAPSHOT_STORE: 'memory', DATABASE_URL: 'postgres://x' })).toBe('memory');
+		expect(resolveStoreKind({ DATABASE_URL: 'postgres://x' })).toBe('postgres');
+		expect(resolveStoreKind({})).toBe('memory');
+		expect(() => resolveStoreKind({ SNAPSHOT_STORE: 'sqlite' })).toThrow();
+	});
+
+	it('adds, edits and deletes annotations', async () => {
+		const store = new MemorySnapshotStore();
+		const first = await store.insertAnnotation({ initiative_id: '045', timestamp: '2025-07-01T12:00:00.000Z', label: 'TV', url: null });
+		await store.insertAnnotation({ initiative_id: '045', timestamp: '2025-07-01T09:00:00.000Z', label: 'Newsletter', url: null });
+		await store.insertAnnotation({ initiative_id: '046', timestamp: '2025-07-01T10:00:00.000Z', label: 'Other', url: null });
+
+		expect((await store.listAnnotations({ initiativeId: '045' })).map((row) => row.label)).toEqual(['Newsletter', 'TV']);
+
+		const updated = await store.updateAnnotation(first.id, { label: 'TV segment' });
+		expect(updated?.label).toBe('TV segment');
+		expect(await store.updateAnnotation(999, { label: 'x' })).toBeNull();
+
+		expect(await store.deleteAnnotation(first.id)).toBe(true);
+		expect(await store.deleteAnnotation(first.id)).toBe(false);
+		expect(await store.getAnnotation(first.id)).toBeNull();
+	});
+});
@@ -0,0 +1,245 @@
+// src/lib/server/store/memory.ts
+import type {
+    AdminAction,
+    AlertDelivery,
+    Annotation,
+    AnnotationChanges,
+    CountryGrowth,
+    CountrySnapshot,
+    GoalSettingRow,
+    Lease,
+    MonitorSettings,
+    MonitorSettingsChanges,
+    NewAdminAction,
+    NewAnnotation,
+    NewCountrySnapshot,
+    NewSignatureRollup,
+    NewSignatureSnapshot,
+    RollupResolution,
+    SignatureRollup,
+    SignatureSnapshot,
+    SnapshotQuery,
+    SnapshotStore
+} from './types.js';
+
+// Keeps the rows in process memory - for local runs and tests, lost on restart
+export class MemorySnapshotStore implements SnapshotStore {
+    readonly kind = 'memory';
+
+    private snapshots: SignatureSnapshot[] = [];
+    private rollups: Record<RollupResolution, SignatureRollup[]> = { minute: [], hour: [], day: [] };
+    private rollupKeys: Record<RollupResolution, Map<string, SignatureRollup>> = { minute: new Map(), hour: new Map(), day: new Map() };
+    private countrySnapshots: CountrySnapshot[] = [];
+    private annotations: Annotation[] = [];
+    private adminActions: AdminAction[] = [];
+    private deliveries = new Set<string>();
+    private leases = new Map<string, Lease>();
+    private monitorSettings = new Map<string, MonitorSettings>();
+    private nextId = 1;
+
+    constructor(private goalSettings: GoalSettingRow[] = []) {}
+
+    async insertSnapshot(row: NewSignatureSnapshot) {
+        if (row.idempotency_key && this.snapshots.some(snapshot => snapshot.idempotency_key === row.idempotency_key)) {
+            return false;
+        }
+
+        this.snapshots.push({ ...row, id: this.nextId++, timestamp: row.timestamp ?? new Date().toISOString() });
+        return true;
+    }
+
+    async listSnapshots(query: SnapshotQuery) {
+        return select(this.snapshots, query);
+    }
+
+    async markSnapshotGap(id: number, gapStartedAt: string, changeAmount: number) {
+        const row = this.snapshots.find(snapshot => snapshot.id === id);
+        if (!row) return;
+
+        row.gap_started_at = gapStartedAt;
+        row.change_amount = changeAmount;
+    }
+
+    async getSnapshot(id: number) {
+        const row = this.snapshots.find(snapshot => snapshot.id === id);
+        return row ? { ...row } : null;
+    }
+
+    async setSnapshotChange(id: number, changeAmount: number) {
+        const row = this.snapshots.find(snapshot => snapshot.id === id);
+        if (row) row.change_amount = changeAmount;
+    }
+
+    async deleteSnapshot(id: number) {
+        const index = this.snapshots.findIndex(snapshot => snapshot.id === id);
+        if (index === -1) return null;
+
+        const [row] = this.snapshots.splice(index, 1);
+        return row;
+    }
+
+    async deleteSnapshotsBefore(initiativeId: string, before: Date) {
+        const kept = this.snapshots.filter(row => row.initiative_id !== initiativeId || new Date(row.timestamp) >= before);
+        const deleted = this.snapshots.length - kept.length;
+        this.snapshots = kept;
+        return deleted;
+    }
+
+    async deleteRollupsBefore(resolution: RollupResolution, initiativeId: string, before: Date) {
+        const rows = this.rollups[resolution];
+        const kept = rows.filter(row => row.initiative_id !== initiativeId || new Date(row.timestamp) >= before);
+        this.rollups[resolution] = kept;
+        this.rollupKeys[resolution] = new Map(kept.map(row => [rollupKey(row), row]));
+        return rows.length - kept.length;
+    }
+
+    async upsertRollups(resolution: RollupResolution, rows: NewSignatureRollup[]) {
+        for (const row of rows) {
+            const existing = this.rollupKeys[resolution].get(rollupKey(row));
+
+            if (existing) {
+                Object.assign(existing, row);
+            } else {
+                const rollup = { ...row, id: this.nextId++ };
+                this.rollups[resolution].push(rollup);
+                this.rollupKeys[resolution].set(rollupKey(rollup), rollup);
+            }
+        }
+    }
+
+    async listRollups(resolution: RollupResolution, query: SnapshotQuery) {
+        return select(this.rollups[resolution], query);
+    }
+
+    async insertCountrySnapshots(rows: NewCountrySnapshot[]) {
+        const timestamp = new Date().toISOString();
+        for (const row of rows) {
+            this.countrySnapshots.push({ ...row, id: this.nextId++, timestamp: row.timestamp ?? timestamp });
+        }
+    }
+
+    async listCountrySnapshots(query: SnapshotQuery) {
+        return select(this.countrySnapshots, query);
+    }
+
+    async latestCountrySnapshots(initiativeId: string) {
+        const latest = new Map<string, CountrySnapshot>();
+        for (const row of select(this.countrySnapshots, { initiativeId, order: 'desc' })) {
+            if (!latest.has(row.country_code)) latest.set(row.country_code, row);
+        }
+        return [...latest.values()];
+    }
+
+    async countryGrowthSince(initiativeId: string, since: Date) {
+        const growth = new Map<string, number>();
+        for (const row of select(this.countrySnapshots, { initiativeId, from: since })) {
+            growth.set(row.country_code, (growth.get(row.country_code) ?? 0) + Math.max(0, row.change_amount));
+        }
+        return [...growth].map(([country_code, signatures_added]): CountryGrowth => ({ country_code, signatures_added }));
+    }
+
+    async listGoalSettings() {
+        return [...this.goalSettings];
+    }
+
+    async insertAnnotation(row: NewAnnotation) {
+        const annotation = { ...row, id: this.nextId++, created_at: new Date().toISOString() };
+        this.annotations.push(annotation);
+        return { ...annotation };
+    }
+
+    async listAnnotations(query: SnapshotQuery) {
+        return select(this.annotations, query);
+    }
+
+    async getAnnotation(id: number) {
+        const annotation = this.annotations.find(row => row.id === id);
+        return annotation ? { ...annotation } : null;
+    }
+
+    async updateAnnotation(id: number, changes: AnnotationChanges) {
+        const annotation = this.annotations.find(row => row.id === id);
+        if (!annotation) return null;
+
+        Object.assign(annotation, changes);
+        return { ...annotation };
+    }
+
+    async deleteAnnotation(id: number) {
+        const before = this.annotations.length;
+        this.annotations = this.annotations.filter(row => row.id !== id);
+        return this.annotations.length < before;
+    }
+
+    async recordAlertDelivery(delivery: AlertDelivery) {
+        if (this.deliveries.has(delivery.key)) return false;
+        this.deliveries.add(delivery.key);
+        return true;
+    }
+
+    async deleteAlertDelivery(key: string) {
+        this.deliveries.delete(key);
+    }
+
+    async insertAdminAction(row: NewAdminAction) {
+        const action = { ...row, id: this.nextId++, timestamp: new Date().toISOString() };
+        this.adminActions.push(action);
+        return { ...action };
+    }
+
+    async listAdminActions({ limit, offset = 0 }: { limit: number; offset?: number }) {
+        return [...this.adminActions].reverse().slice(offset, offset + limit).map(row => ({ ...row }));
+    }
+
+    async acquireLease(name: string, holder: string, ttlMs: number) {
+        const current = this.leases.get(name);
+        if (current && current.holder !== holder && new Date(current.expires_at).getTime() > Date.now()) {
+            return false;
+        }
+
+        this.leases.set(name, { name, holder, expires_at: new Date(Date.now() + ttlMs).toISOString() });
+        return true;
+    }
+
+    async releaseLease(name: string, holder: string) {
+        if (this.leases.get(name)?.holder === holder) this.leases.delete(name);
+    }
+
+    async getLease(name: string) {
+        const lease = this.leases.get(name);
+        return lease ? { ...lease } : null;
+    }
+
+    async getMonitorSettings(name: string) {
+        const settings = this.monitorSettings.get(name);
+        return settings ? { ...settings } : null;
+    }
+
+    async updateMonitorSettings(name: string, changes: MonitorSettingsChanges) {
+        const settings = { name, paused: false, interval_ms: null, ...this.monitorSettings.get(name), ...changes };
+        this.monitorSettings.set(name, settings);
+        return { ...settings };
+    }
+}
+
+// One rollup per initiative and bucket, however its timestamp is written
+const rollupKey = (row: NewSignatureRollup) => `${row.initiative_id}:${new Date(row.timestamp).getTime()}`;
+
+function select<T extends { id: number; initiative_id: string; timestamp: string }>(rows: T[], query: SnapshotQuery): T[] {
+    const from = query.from?.getTime() ?? -Infinity;
+    const to = query.to?.getTime() ?? Infinity;
+    const direction = query.order === 'desc' ? -1 : 1;
+    const after = query.after && { time: new Date(query.after.timestamp).getTime(), id: query.after.id };
+
+    const matching = rows
+        .filter(row => {
+            const time = new Date(row.timestamp).getTime();
+            const past = !after || direction * (time - after.time || row.id - after.id) > 0;
+            return row.initiative_id === query.initiativeId && time >= from && time < to && past;
+        })
+        .sort((a, b) =>
+            direction * (new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() || a.id - b.id));
+
+    const offset = query.offset ?? 0;
+    return matching.slice(offset, query.limit !== undefined ? offset + query.limit : undefined).map(row => ({ ...row }));
+}
@@ -0,0 +1,437 @@
+// src/lib/server/store/postgres.ts
+import { and, asc, desc, eq, gt, gte, lt, or, sql, type SQL } from 'drizzle-orm';
+import { createDb, type Database } from '../db/index.js';
+import {
+    adminAuditLog,
+    alertDeliveries,
+    annotations,
+    collectorLeases,
+    countrySnapshots,
+    goalSettings,
+    latestCountrySnapshots,
+    monitorSettings,
+    signatureRollupsDay,
+    signatureRollupsHour,
+    signatureRollupsMinute,
+    signatureSnapshots
+} from '../db/schema.js';
+import type { AnomalyKind } from '../../anomalies.js';
+import type {
+    AdminAction,
+    AlertDelivery,
+    Annotation,
+    AnnotationChanges,
+    CountryGrowth,
+    CountrySnapshot,
+    GoalSettingRow,
+    Lease,
+    MonitorSettings,
+    MonitorSettingsChanges,
+    NewAdminAction,
+    NewAnnotation,
+    NewCountrySnapshot,
+    NewSignatureRollup,
+    NewSignatureSnapshot,
+    RollupResolution,
+    SignatureRollup,
+    SignatureSnapshot,
+    SnapshotPosition,
+    SnapshotQuery,
+    SnapshotStore
+} from './types.js';
+
+const ROLLUP_TABLES = {
+    minute: signatureRollupsMinute,
+    hour: signatureRollupsHour,
+    day: signatureRollupsDay
+};
+
+type RollupTable = (typeof ROLLUP_TABLES)[RollupResolution];
+type SnapshotTable = typeof signatureSnapshots | typeof countrySnapshots | typeof annotations | RollupTable;
+
+// Talks to Postgres directly through Drizzle - for self-hosting without Supabase.
+// The tables come from the migrations in drizzle/ (npm run db:migrate).
+export class PostgresSnapshotStore implements SnapshotStore {
+    readonly kind = 'postgres';
+
+    constructor(private db: Database = createDb()) {}
+
+    async insertSnapshot(row: NewSignatureSnapshot) {
+        const inserted = await this.db.insert(signatureSnapshots).values({
+            initiativeId: row.initiative_id,
+            signatureCount: row.signature_count,
+            changeAmount: row.change_amount,
+            goal: row.goal,
+            officialGoal: row.official_goal,
+            goalOverride: row.goal_override,
+            gapStartedAt: row.gap_started_at ? new Date(row.gap_started_at) : null,
+            anomaly: row.anomaly,
+            idempotencyKey: row.idempotency_key,
+            ...(row.timestamp && { timestamp: new Date(row.timestamp) })
+        })
+            .onConflictDoNothing({ target: signatureSnapshots.idempotencyKey })
+            .returning({ id: signatureSnapshots.id });
+
+        return inserted.length > 0;
+    }
+
+    async listSnapshots(query: SnapshotQuery): Promise<SignatureSnapshot[]> {
+        const rows = await this.paged(
+            this.db.select().from(signatureSnapshots).where(filter(signatureSnapshots, query)).orderBy(...ordering(signatureSnapshots, query)).$dynamic(),
+            query
+        );
+
+        return rows.map(toSnapshot);
+    }
+
+    async markSnapshotGap(id: number, gapStartedAt: string, changeAmount: number) {
+        await this.db
+            .update(signatureSnapshots)
+            .set({ gapStartedAt: new Date(gapStartedAt), changeAmount })
+            .where(eq(signatureSnapshots.id, id));
+    }
+
+    async getSnapshot(id: number): Promise<SignatureSnapshot | null> {
+        const [row] = await this.db.select().from(signatureSnapshots).where(eq(signatureSnapshots.id, id));
+        return row ? toSnapshot(row) : null;
+    }
+
+    async setSnapshotChange(id: number, changeAmount: number) {
+        await this.db.update(signatureSnapshots).set({ changeAmount }).where(eq(signatureSnapshots.id, id));
+    }
+
+    async deleteSnapshot(id: number): Promise<SignatureSnapshot | null> {
+        const [row] = await this.db.delete(signatureSnapshots).where(eq(signatureSnapshots.id, id)).returning();
+        return row ? toSnapshot(row) : null;
+    }
+
+    async deleteSnapshotsBefore(initiativeId: string, before: Date) {
+        const deleted = await this.db
+            .delete(signatureSnapshots)
+            .where(and(eq(signatureSnapshots.initiativeId, initiativeId), lt(signatureSnapshots.timestamp, before)))
+            .returning({ id: signatureSnapshots.id });
+
+        return deleted.length;
+    }
+
+    async deleteRollupsBefore(resolution: RollupResolution, initiativeId: string, before: Date) {
+        const table = ROLLUP_TABLES[resolution];
+        const deleted = await this.db
+            .delete(table)
+            .where(and(eq(table.initiativeId, initiativeId), lt(table.timestamp, before)))
+            .returning({ id: table.id });
+
+        return deleted.length;
+    }
+
+    async upsertRollups(resolution: RollupResolution, rows: NewSignatureRollup[]) {
+        if (rows.length === 0) return;
+
+        const table = ROLLUP_TABLES[resolution];
+        await this.db
+            .insert(table)
+            .values(rows.map(row => ({
+                initiativeId: row.initiative_id,
+                timestamp: new Date(row.timestamp),
+                signaturesAdded: row.signatures_added,
+                gapSignatures: row.gap_signatures,
+                gapStartedAt: row.gap_started_at ? new Date(row.gap_started_at) : null,
+                closingTotal: row.closing_total,
+                samples: row.samples,
+                goal: row.goal,
+                officialGoal: row.official_goal,
+                goalOverride: row.goal_override
+            })))
+            .onConflictDoUpdate({
+                target: [table.initiativeId, table.timestamp],
+                set: {
+                    signaturesAdded: sql`excluded.signatures_added`,
+                    gapSignatures: sql`excluded.gap_signatures`,
+                    gapStartedAt: sql`excluded.gap_started_at`,
+                    closingTotal: sql`excluded.closing_total`,
+                    samples: sql`excluded.samples`,
+                    goal: sql`excluded.goal`,
+                    officialGoal: sql`excluded.official_goal`,
+                    goalOverride: sql`excluded.goal_override`
+                }
+            });
+    }
+
+    async listRollups(resolution: RollupResolution, query: SnapshotQuery): Promise<SignatureRollup[]> {
+        const table = ROLLUP_TABLES[resolution];
+        const rows = await this.paged(
+            this.db.select().from(table).where(filter(table, query)).orderBy(...ordering(table, query)).$dynamic(),
+            query
+        );
+
+        return rows.map(row => ({
+            id: row.id,
+            initiative_id: row.initiativeId,
+            timestamp: row.timestamp.toISOString(),
+            signatures_added: row.signaturesAdded,
+            gap_signatures: row.gapSignatures,
+            gap_started_at: row.gapStartedAt?.toISOString() ?? null,
+            closing_total: row.closingTotal,
+            samples: row.samples,
+            goal: row.goal,
+            official_goal: row.officialGoal,
+            goal_override: row.goalOverride
+        }));
+    }
+
+    async insertCountrySnapshots(rows: NewCountrySnapshot[]) {
+        if (rows.length === 0) return;
+
+        await this.db.insert(countrySnapshots).values(rows.map(row => ({
+            initiativeId: row.initiative_id,
+            countryCode: row.country_code,
+            signatureCount: row.signature_count,
+            changeAmount: row.change_amount,
+            ...(row.timestamp && { timestamp: new Date(row.timestamp) })
+        })));
+    }
+
+    async listCountrySnapshots(query: SnapshotQuery): Promise<CountrySnapshot[]> {
+        const rows = await this.paged(
+            this.db.select().from(countrySnapshots).where(filter(countrySnapshots, query)).orderBy(...ordering(countrySnapshots, query)).$dynamic(),
+            query
+        );
+
+        return rows.map(toCountrySnapshot);
+    }
+
+    async latestCountrySnapshots(initiativeId: string): Promise<CountrySnapshot[]> {
+        const rows = await this.db.select().from(latestCountrySnapshots).where(eq(latestCountrySnapshots.initiativeId, initiativeId));
+        return rows.map(toCountrySnapshot);
+    }
+
+    async countryGrowthSince(initiativeId: string, since: Date): Promise<CountryGrowth[]> {
+        return this.db
+            .select({
+                country_code: countrySnapshots.countryCode,
+                signatures_added: sql<number>`sum(greatest(${countrySnapshots.changeAmount}, 0))`.mapWith(Number)
+            })
+            .from(countrySnapshots)
+            .where(and(eq(countrySnapshots.initiativeId, initiativeId), gte(countrySnapshots.timestamp, since)))
+            .groupBy(countrySnapshots.countryCode);
+    }
+
+    async listGoalSettings(): Promise<GoalSettingRow[]> {
+        const rows = await this.db.select().from(goalSettings);
+
+        return rows.map(row => ({
+            initiative_id: row.initiativeId,
+            goal: row.goal,
+            effective_from: row.effectiveFrom.toISOString()
+        }));
+    }
+
+    async insertAnnotation(row: NewAnnotation): Promise<Annotation> {
+        const [inserted] = await this.db.insert(annotations).values({
+            initiativeId: row.initiative_id,
+            timestamp: new Date(row.timestamp),
+            label: row.label,
+            url: row.url
+        }).returning();
+
+        return toAnnotation(inserted);
+    }
+
+    async listAnnotations(query: SnapshotQuery): Promise<Annotation[]> {
+        const rows = await this.paged(
+            this.db.select().from(annotations).where(filter(annotations, query)).orderBy(...ordering(annotations, query)).$dynamic(),
+            query
+        );
+
+        return rows.map(toAnnotation);
+    }
+
+    async getAnnotation(id: number): Promise<Annotation | null> {
+        const [row] = await this.db.select().from(annotations).where(eq(annotations.id, id));
+        return row ? toAnnotation(row) : null;
+    }
+
+    async updateAnnotation(id: number, changes: AnnotationChanges): Promise<Annotation | null> {
+        const [row] = await this.db
+            .update(annotations)
+            .set({
+                ...(changes.timestamp !== undefined && { timestamp: new Date(changes.timestamp) }),
+                ...(changes.label !== undefined && { label: changes.label }),
+                ...(changes.url !== undefined && { url: changes.url })
+            })
+            .where(eq(annotations.id, id))
+            .returning();
+
+        return row ? toAnnotation(row) : null;
+    }
+
+    async deleteAnnotation(id: number) {
+        const deleted = await this.db.delete(annotations).where(eq(annotations.id, id)).returning({ id: annotations.id });
+        return deleted.length > 0;
+    }
+
+    async recordAlertDelivery(delivery: AlertDelivery) {
+        const inserted = await this.db
+            .insert(alertDeliveries)
+            .values({
+                key: delivery.key,
+                initiativeId: delivery.initiative_id,
+                kind: delivery.kind,
+                message: delivery.message
+            })
+            .onConflictDoNothing()
+            .returning({ key: alertDeliveries.key });
+
+        return inserted.length > 0;
+    }
+
+    async deleteAlertDelivery(key: string) {
+        await this.db.delete(alertDeliveries).where(eq(alertDeliveries.key, key));
+    }
+
+    async insertAdminAction(row: NewAdminAction): Promise<AdminAction> {
+        const [inserted] = await this.db.insert(adminAuditLog).values({
+            actor: row.actor,
+            address: row.address,
+            action: row.action,
+            initiativeId: row.initiative_id,
+            details: row.details
+        }).returning();
+
+        return toAdminAction(inserted);
+    }
+
+    async listAdminActions({ limit, offset = 0 }: { limit: number; offset?: number }): Promise<AdminAction[]> {
+        const rows = await this.db
+            .select()
+            .from(adminAuditLog)
+            .orderBy(desc(adminAuditLog.timestamp), desc(adminAuditLog.id))
+            .limit(limit)
+            .offset(offset);
+
+        return rows.map(toAdminAction);
+    }
+
+    async acquireLease(name: string, holder: string, ttlMs: number) {
+        const expiresAt = new Date(Date.now() + ttlMs);
+
+        // One statement: insert, or renew ours / take over an expired one
+        const rows = await this.db
+            .insert(collectorLeases)
+            .values({ name, holder, expiresAt })
+            .onConflictDoUpdate({
+                target: collectorLeases.name,
+                set: { holder, expiresAt, renewedAt: sql`now()` },
+                setWhere: or(eq(collectorLeases.holder, holder), lt(collectorLeases.expiresAt, sql`now()`))
+            })
+            .returning({ name: collectorLeases.name });
+
+        return rows.length > 0;
+    }
+
+    async releaseLease(name: string, holder: string) {
+        await this.db
+            .delete(collectorLeases)
+            .where(and(eq(collectorLeases.name, name), eq(collectorLeases.holder, holder)));
+    }
+
+    async getLease(name: string): Promise<Lease | null> {
+        const [row] = await this.db.select().from(collectorLeases).where(eq(collectorLeases.name, name));
+        return row ? { name: row.name, holder: row.holder, expires_at: row.expiresAt.toISOString() } : null;
+    }
+
+    async getMonitorSettings(name: string): Promise<MonitorSettings | null> {
+        const [row] = await this.db.select().from(monitorSettings).where(eq(monitorSettings.name, name));
+        return row ? toMonitorSettings(row) : null;
+    }
+
+    async updateMonitorSettings(name: string, changes: MonitorSettingsChanges): Promise<MonitorSettings> {
+        const set = { paused: changes.paused, intervalMs: changes.interval_ms, updatedAt: new Date() };
+        const [row] = await this.db
+            .insert(monitorSettings)
+            .values({ name, ...set })
+            .onConflictDoUpdate({ target: monitorSettings.name, set })
+            .returning();
+
+        return toMonitorSettings(row);
+    }
+
+    private paged<T extends { limit(limit: number): T; offset(offset: number): T }>(select: T, { limit, offset }: SnapshotQuery): T {
+        if (limit === undefined) return select;
+        return select.limit(limit).offset(offset ?? 0);
+    }
+}
+
+const toSnapshot = (row: typeof signatureSnapshots.$inferSelect): SignatureSnapshot => ({
+    id: row.id,
+    initiative_id: row.initiativeId,
+    timestamp: row.timestamp.toISOString(),
+    signature_count: row.signatureCount,
+    change_amount: row.changeAmount,
+    goal: row.goal,
+    official_goal: row.officialGoal,
+    goal_override: row.goalOverride,
+    gap_started_at: row.gapStartedAt?.toISOString() ?? null,
+    anomaly: row.anomaly as AnomalyKind | null,
+    idempotency_key: row.idempotencyKey
+});
+
+const toCountrySnapshot = (row: typeof countrySnapshots.$inferSelect): CountrySnapshot => ({
+    id: row.id,
+    initiative_id: row.initiativeId,
+    country_code: row.countryCode,
+    signature_count: row.signatureCount,
+    change_amount: row.changeAmount,
+    timestamp: row.timestamp.toISOString()
+});
+
+const toMonitorSettings = (row: typeof monitorSettings.$inferSelect): MonitorSettings => ({
+    name: row.name,
+    paused: row.paused,
+    interval_ms: row.intervalMs
+});
+
+const toAnnotation = (row: typeof annotations.$inferSelect): Annotation => ({
+    id: row.id,
+    initiative_id: row.initiativeId,
+    timestamp: row.timestamp.toISOString(),
+    label: row.label,
+    url: row.url,
+    created_at: row.createdAt.toISOString()
+});
+
+const toAdminAction = (row: typeof adminAuditLog.$inferSelect): AdminAction => ({
+    id: row.id,
+    timestamp: row.timestamp.toISOString(),
+    actor: row.actor,
+    address: row.address,
+    action: row.action,
+    initiative_id: row.initiativeId,
+    details: row.details as Record<string, unknown> | null
+});
+
+function filter(table: SnapshotTable, { initiativeId, from, to, after, order }: SnapshotQuery): SQL | undefined {
+    return and(
+        eq(table.initiativeId, initiativeId),
+        from ? gte(table.timestamp, from) : undefined,
+        to ? lt(table.timestamp, to) : undefined,
+        after ? past(table, after, order) : undefined
+    );
+}
+
+// Rows come back with millisecond timestamps, so positions compare at that precision
+function past(table: SnapshotTable, after: SnapshotPosition, order: SnapshotQuery['order']): SQL | undefined {
+    const beyond = order === 'desc' ? lt : gt;
+    const timestamp = sql`date_trunc('milliseconds', ${table.timestamp})`;
+    const position = new Date(after.timestamp);
+
+    return or(
+        beyond(timestamp, position),
+        and(eq(timestamp, position), beyond(table.id, after.id))
+    );
+}
+
+function ordering(table: SnapshotTable, { order }: SnapshotQuery): SQL[] {
+    const direction = order === 'desc' ? desc : asc;
+    return [direction(table.timestamp), direction(table.id)];
+}
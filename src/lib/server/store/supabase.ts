@@ -0,0 +1,312 @@
+// src/lib/server/store/supabase.ts
+import { supabase } from '../../supabase.js';
+import type {
+    AdminAction,
+    AlertDelivery,
+    Annotation,
+    AnnotationChanges,
+    CountryGrowth,
+    CountrySnapshot,
+    GoalSettingRow,
+    Lease,
+    MonitorSettings,
+    MonitorSettingsChanges,
+    NewAdminAction,
+    NewAnnotation,
+    NewCountrySnapshot,
+    NewSignatureRollup,
+    NewSignatureSnapshot,
+    RollupResolution,
+    SignatureRollup,
+    SignatureSnapshot,
+    SnapshotQuery,
+    SnapshotStore
+} from './types.js';
+
+const UNIQUE_VIOLATION = '23505';
+
+const rollupTable = (resolution: RollupResolution) => `signature_rollups_${resolution}`;
+
+export class SupabaseSnapshotStore implements SnapshotStore {
+    readonly kind = 'supabase';
+
+    async insertSnapshot(row: NewSignatureSnapshot) {
+        const { error } = await supabase.from('signature_snapshots').insert(row);
+
+        if (error?.code === UNIQUE_VIOLATION) return false;
+        if (error) throw error;
+        return true;
+    }
+
+    async deleteAlertDelivery(key: string) {
+        const { error } = await supabase.from('alert_deliveries').delete().eq('key', key);
+
+        if (error) throw error;
+    }
+
+    async listSnapshots(query: SnapshotQuery): Promise<SignatureSnapshot[]> {
+        return this.select('signature_snapshots', query);
+    }
+
+    async markSnapshotGap(id: number, gapStartedAt: string, changeAmount: number) {
+        const { error } = await supabase
+            .from('signature_snapshots')
+            .update({ gap_started_at: gapStartedAt, change_amount: changeAmount })
+            .eq('id', id);
+
+        if (error) throw error;
+    }
+
+    async getSnapshot(id: number): Promise<SignatureSnapshot | null> {
+        const { data, error } = await supabase.from('signature_snapshots').select('*').eq('id', id).maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async setSnapshotChange(id: number, changeAmount: number) {
+        const { error } = await supabase.from('signature_snapshots').update({ change_amount: changeAmount }).eq('id', id);
+
+        if (error) throw error;
+    }
+
+    async deleteSnapshot(id: number): Promise<SignatureSnapshot | null> {
+        const { data, error } = await supabase.from('signature_snapshots').delete().eq('id', id).select('*').maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async deleteSnapshotsBefore(initiativeId: string, before: Date) {
+        return this.deleteBefore('signature_snapshots', initiativeId, before);
+    }
+
+    async deleteRollupsBefore(resolution: RollupResolution, initiativeId: string, before: Date) {
+        return this.deleteBefore(rollupTable(resolution), initiativeId, before);
+    }
+
+    async upsertRollups(resolution: RollupResolution, rows: NewSignatureRollup[]) {
+        if (rows.length === 0) return;
+
+        const { error } = await supabase
+            .from(rollupTable(resolution))
+            .upsert(rows, { onConflict: 'initiative_id,timestamp' });
+
+        if (error) throw error;
+    }
+
+    async listRollups(resolution: RollupResolution, query: SnapshotQuery): Promise<SignatureRollup[]> {
+        return this.select(rollupTable(resolution), query);
+    }
+
+    async insertCountrySnapshots(rows: NewCountrySnapshot[]) {
+        if (rows.length === 0) return;
+
+        const { error } = await supabase.from('country_snapshots').insert(rows);
+        if (error) throw error;
+    }
+
+    async listCountrySnapshots(query: SnapshotQuery): Promise<CountrySnapshot[]> {
+        return this.select('country_snapshots', query);
+    }
+
+    async latestCountrySnapshots(initiativeId: string): Promise<CountrySnapshot[]> {
+        // One row per country from the latest_country_snapshots view (DISTINCT ON), so it stays
+        // well under the row cap however many rows older polls left behind
+        const { data, error } = await supabase
+            .from('latest_country_snapshots')
+            .select('*')
+            .eq('initiative_id', initiativeId);
+
+        if (error) throw error;
+        return data || [];
+    }
+
+    async countryGrowthSince(initiativeId: string, since: Date): Promise<CountryGrowth[]> {
+        // country_growth_since (drizzle/0012) sums in the database: one row per country
+        const { data, error } = await supabase.rpc('country_growth_since', {
+            p_initiative_id: initiativeId,
+            p_since: since.toISOString()
+        });
+
+        if (error) throw error;
+        return (data || []).map((row: CountryGrowth) => ({ ...row, signatures_added: Number(row.signatures_added) }));
+    }
+
+    async listGoalSettings(): Promise<GoalSettingRow[]> {
+        const { data, error } = await supabase
+            .from('goal_settings')
+            .select('initiative_id, goal, effective_from');
+
+        if (error) throw error;
+        return data || [];
+    }
+
+    async insertAnnotation(row: NewAnnotation): Promise<Annotation> {
+        const { data, error } = await supabase.from('annotations').insert(row).select('*').single();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async listAnnotations(query: SnapshotQuery): Promise<Annotation[]> {
+        return this.select('annotations', query);
+    }
+
+    async getAnnotation(id: number): Promise<Annotation | null> {
+        const { data, error } = await supabase.from('annotations').select('*').eq('id', id).maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async updateAnnotation(id: number, changes: AnnotationChanges): Promise<Annotation | null> {
+        const { data, error } = await supabase.from('annotations').update(changes).eq('id', id).select('*').maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async deleteAnnotation(id: number) {
+        const { data, error } = await supabase.from('annotations').delete().eq('id', id).select('id');
+
+        if (error) throw error;
+        return (data?.length ?? 0) > 0;
+    }
+
+    async recordAlertDelivery(delivery: AlertDelivery) {
+        const { error } = await supabase.from('alert_deliveries').insert(delivery);
+
+        // Unique violation: another run already delivered this alert
+        if (error?.code === UNIQUE_VIOLATION) return false;
+        if (error) throw error;
+        return true;
+    }
+
+    async insertAdminAction(row: NewAdminAction): Promise<AdminAction> {
+        const { data, error } = await supabase.from('admin_audit_log').insert(row).select('*').single();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async listAdminActions({ limit, offset = 0 }: { limit: number; offset?: number }): Promise<AdminAction[]> {
+        const { data, error } = await supabase
+            .from('admin_audit_log')
+            .select('*')
+            .order('timestamp', { ascending: false })
+            .order('id', { ascending: false })
+            .range(offset, offset + limit - 1);
+
+        if (error) throw error;
+        return data || [];
+    }
+
+    async acquireLease(name: string, holder: string, ttlMs: number) {
+        const now = new Date();
+        const expiresAt = new Date(now.getTime() + ttlMs).toISOString();
+
+        // Renew our own lease or take over an expired one
+        const { data, error } = await supabase
+            .from('collector_leases')
+            .update({ holder, expires_at: expiresAt, renewed_at: now.toISOString() })
+            .eq('name', name)
+            .or(`holder.eq."${holder}",expires_at.lt.${now.toISOString()}`)
+            .select('name');
+
+        if (error) throw error;
+        if (data && data.length > 0) return true;
+
+        // Nobody has held it yet
+        const { error: insertError } = await supabase
+            .from('collector_leases')
+            .insert({ name, holder, expires_at: expiresAt });
+
+        if (insertError?.code === UNIQUE_VIOLATION) return false;
+        if (insertError) throw insertError;
+        return true;
+    }
+
+    async releaseLease(name: string, holder: string) {
+        const { error } = await supabase
+            .from('collector_leases')
+            .delete()
+            .eq('name', name)
+            .eq('holder', holder);
+
+        if (error) throw error;
+    }
+
+    async getLease(name: string): Promise<Lease | null> {
+        const { data, error } = await supabase
+            .from('collector_leases')
+            .select('name, holder, expires_at')
+            .eq('name', name)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async getMonitorSettings(name: string): Promise<MonitorSettings | null> {
+        const { data, error } = await supabase
+            .from('monitor_settings')
+            .select('name, paused, interval_ms')
+            .eq('name', name)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
+    }
+
+    async updateMonitorSettings(name: string, changes: MonitorSettingsChanges): Promise<MonitorSettings> {
+        // Upserts only touch the columns sent, so an unchanged setting keeps its value
+        const { data, error } = await supabase
+            .from('monitor_settings')
+            .upsert({ name, ...changes, updated_at: new Date().toISOString() }, { onConflict: 'name' })
+            .select('name, paused, interval_ms')
+            .single();
+
+        if (error) throw error;
+        return data;
+    }
+
+    private async deleteBefore(table: string, initiativeId: string, before: Date) {
+        const { count, error } = await supabase
+            .from(table)
+            .delete({ count: 'exact' })
+            .eq('initiative_id', initiativeId)
+            .lt('timestamp', before.toISOString());
+
+        if (error) throw error;
+        return count ?? 0;
+    }
+
+    private async select(table: string, { initiativeId, from, to, order, limit, offset, after }: SnapshotQuery) {
+        const ascending = order !== 'desc';
+
+        let query = supabase
+            .from(table)
+            .select('*')
+            .eq('initiative_id', initiativeId)
+            .order('timestamp', { ascending })
+            .order('id', { ascending });
+
+        if (from) query = query.gte('timestamp', from.toISOString());
+        if (to) query = query.lt('timestamp', to.toISOString());
+        if (after) {
+            const beyond = ascending ? 'gt' : 'lt';
+            const timestamp = `"${after.timestamp}"`;
+            query = query.or(`timestamp.${beyond}.${timestamp},and(timestamp.eq.${timestamp},id.${beyond}.${after.id})`);
+        }
+
+        if (limit !== undefined) {
+            const start = offset ?? 0;
+            query = query.range(start, start + limit - 1);
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data || [];
+    }
+}
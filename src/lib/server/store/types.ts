@@ -0,0 +1,180 @@
+// src/lib/server/store/types.ts
+import type { AnomalyKind } from '../../anomalies.js';
+
+// 🗄️ Everything the tracker persists goes through a SnapshotStore, so the same code
+// runs against Supabase, a plain Postgres database or nothing at all (in memory).
+// Rows keep the snake_case column names the API has always returned.
+
+export interface SignatureSnapshot {
+    id: number;
+    initiative_id: string;
+    timestamp: string;
+    signature_count: number;
+    change_amount: number;
+    goal: number;
+    official_goal: number | null;
+    goal_override: number | null;
+    gap_started_at: string | null; // see src/lib/gaps.ts
+    anomaly: AnomalyKind | null; // see src/lib/anomalies.ts
+    idempotency_key: string | null;
+}
+
+export type RollupResolution = 'minute' | 'hour' | 'day';
+
+// Snapshots summed over one UTC minute, hour or day - see src/lib/rollups.ts
+export interface SignatureRollup {
+    id: number;
+    initiative_id: string;
+    timestamp: string; // start of the bucket
+    signatures_added: number;
+    gap_signatures: number; // the part of signatures_added reported after a gap
+    gap_started_at: string | null; // earliest start of those gaps
+    closing_total: number;
+    samples: number;
+    goal: number; // as of the bucket's last snapshot
+    official_goal: number | null;
+    goal_override: number | null;
+}
+
+export interface CountrySnapshot {
+    id: number;
+    initiative_id: string;
+    country_code: string;
+    signature_count: number;
+    change_amount: number;
+    timestamp: string;
+}
+
+export interface GoalSettingRow {
+    initiative_id: string;
+    goal: number;
+    effective_from: string;
+}
+
+export interface AlertDelivery {
+    key: string;
+    initiative_id: string;
+    kind: string;
+    message: string;
+}
+
+// A campaign event (newsletter, TV segment, influencer post...) marked on the timeline
+export interface Annotation {
+    id: number;
+    initiative_id: string;
+    timestamp: string; // when it happened
+    label: string;
+    url: string | null;
+    created_at: string;
+}
+
+// One entry of the admin audit log - see src/lib/server/audit.ts
+export interface AdminAction {
+    id: number;
+    timestamp: string;
+    actor: string; // 'token', 'session', or 'anonymous' for a failed login
+    address: string | null;
+    action: string;
+    initiative_id: string | null;
+    details: Record<string, unknown> | null;
+}
+
+export interface CountryGrowth {
+    country_code: string;
+    signatures_added: number;
+}
+
+export interface Lease {
+    name: string;
+    holder: string;
+    expires_at: string;
+}
+
+export interface MonitorSettings {
+    name: string;
+    paused: boolean;
+    interval_ms: number | null; // null: whatever the instance was started with
+}
+
+// The timestamp defaults to now
+export type NewSignatureSnapshot = Omit<SignatureSnapshot, 'id' | 'timestamp'> & { timestamp?: string };
+export type NewSignatureRollup = Omit<SignatureRollup, 'id'>;
+export type NewCountrySnapshot = Omit<CountrySnapshot, 'id' | 'timestamp'> & { timestamp?: string };
+export type NewAnnotation = Omit<Annotation, 'id' | 'created_at'>;
+export type AnnotationChanges = Partial<Pick<Annotation, 'timestamp' | 'label' | 'url'>>;
+export type NewAdminAction = Omit<AdminAction, 'id' | 'timestamp'>;
+export type MonitorSettingsChanges = Partial<Pick<MonitorSettings, 'paused' | 'interval_ms'>>;
+
+export interface SnapshotQuery {
+    initiativeId: string;
+    from?: Date;  // inclusive
+    to?: Date;    // exclusive
+    order?: 'asc' | 'desc'; // by timestamp, then id
+    limit?: number;
+    offset?: number; // only together with limit
+    after?: SnapshotPosition; // keyset paging: only rows past this one, in the query's order
+}
+
+// Where a row sits in timestamp-then-id order
+export interface SnapshotPosition {
+    timestamp: string;
+    id: number;
+}
+
+export type StoreKind = 'supabase' | 'postgres' | 'memory';
+
+// Implementations throw on failure; callers decide whether that's fatal
+export interface SnapshotStore {
+    readonly kind: StoreKind;
+
+    // Returns false when a row with the same idempotency key exists already
+    insertSnapshot(row: NewSignatureSnapshot): Promise<boolean>;
+    listSnapshots(query: SnapshotQuery): Promise<SignatureSnapshot[]>;
+    getSnapshot(id: number): Promise<SignatureSnapshot | null>;
+    markSnapshotGap(id: number, gapStartedAt: string, changeAmount: number): Promise<void>;
+    setSnapshotChange(id: number, changeAmount: number): Promise<void>;
+    // Returns the deleted row, or null when there's no snapshot with that id
+    deleteSnapshot(id: number): Promise<SignatureSnapshot | null>;
+    // Both return how many rows went
+    deleteSnapshotsBefore(initiativeId: string, before: Date): Promise<number>;
+    deleteRollupsBefore(resolution: RollupResolution, initiativeId: string, before: Date): Promise<number>;
+
+    // Replaces the rollup of the same initiative and bucket, so compaction can run again safely
+    upsertRollups(resolution: RollupResolution, rows: NewSignatureRollup[]): Promise<void>;
+    listRollups(resolution: RollupResolution, query: SnapshotQuery): Promise<SignatureRollup[]>;
+
+    insertCountrySnapshots(rows: NewCountrySnapshot[]): Promise<void>;
+    listCountrySnapshots(query: SnapshotQuery): Promise<CountrySnapshot[]>;
+    // The newest row for each country, however long ago it last moved
+    latestCountrySnapshots(initiativeId: string): Promise<CountrySnapshot[]>;
+    // Signatures each country gained since `since` (decreases count as zero), summed by the store
+    countryGrowthSince(initiativeId: string, since: Date): Promise<CountryGrowth[]>;
+
+    listGoalSettings(): Promise<GoalSettingRow[]>;
+
+    insertAnnotation(row: NewAnnotation): Promise<Annotation>;
+    listAnnotations(query: SnapshotQuery): Promise<Annotation[]>;
+    getAnnotation(id: number): Promise<Annotation | null>;
+    // Both return null / false when there's no annotation with that id
+    updateAnnotation(id: number, changes: AnnotationChanges): Promise<Annotation | null>;
+    deleteAnnotation(id: number): Promise<boolean>;
+
+    // Returns false when the key was recorded before
+    recordAlertDelivery(delivery: AlertDelivery): Promise<boolean>;
+    // Forgets a delivery that failed, so the key can be recorded again
+    deleteAlertDelivery(key: string): Promise<void>;
+
+    // The audit log, newest first
+    insertAdminAction(row: NewAdminAction): Promise<AdminAction>;
+    listAdminActions(query: { limit: number; offset?: number }): Promise<AdminAction[]>;
+
+    // Takes the lease when it's free or expired, renews it when we already hold it;
+    // false while someone else holds it
+    acquireLease(name: string, holder: string, ttlMs: number): Promise<boolean>;
+    releaseLease(name: string, holder: string): Promise<void>;
+    getLease(name: string): Promise<Lease | null>;
+
+    // Null until they're first changed
+    getMonitorSettings(name: string): Promise<MonitorSettings | null>;
+    updateMonitorSettings(name: string, changes: MonitorSettingsChanges): Promise<MonitorSettings>;
+}
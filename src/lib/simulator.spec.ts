@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { SignatureSimulator, recordedScenario } from './simulator';
+import { fetchProgression } from './poller';
+
+const MINUTE = 60 * 1000;
+
+describe('SignatureSimulator', () => {
+	const simulator = new SignatureSimulator({
+		startCount: 1000,
+		goal: 5000,
+		steps: [
+			{ kind: 'steady', durationMs: 10 * MINUTE, perMinute: 6 },
+			{ kind: 'stall', durationMs: 5 * MINUTE },
+			{ kind: 'decrease', signatures: 20 },
+			{ kind: 'fault', durationMs: MINUTE, fault: 'http-error' },
+			{ kind: 'fault', durationMs: MINUTE, fault: 'invalid-json' },
+			{ kind: 'fault', durationMs: MINUTE, fault: 'timeout' }
+		]
+	}, { startedAt: 0, speed: 60 });
+
+	it('plays the curve at its speed', () => {
+		// 60x: a simulated minute every real second
+		expect(simulator.countAt(0)).toBe(1000);
+		expect(simulator.countAt(5 * 1000)).toBe(1030);
+		expect(simulator.countAt(12 * 1000)).toBe(1060);
+		expect(simulator.countAt(60 * 1000)).toBe(1040);
+	});
+
+	it('breaks the way the real API does', async () => {
+		// An upstream that answers like the simulator at a given moment
+		const at = (seconds: number) => async () => {
+			const response = simulator.respond(seconds * 1000);
+			if (!response) throw new DOMException('The operation timed out', 'TimeoutError');
+			return new Response(response.body, { status: response.status });
+		};
+
+		expect((await fetchProgression('', 1000, at(0))).signatureCount).toBe(1000);
+		await expect(fetchProgression('', 1000, at(15.5))).rejects.toThrow('HTTP 503');
+		await expect(fetchProgression('', 1000, at(16.5))).rejects.toThrow('Response is not valid JSON');
+		await expect(fetchProgression('', 1000, at(17.5))).rejects.toThrow('Timed out after 1000ms');
+		expect((await fetchProgression('', 1000, at(18.5))).signatureCount).toBe(1040);
+	});
+
+	it('replays a recording as it happened', () => {
+		const recording = new SignatureSimulator(recordedScenario([
+			{ timestamp: '2025-07-01T10:01:00Z', signature_count: 120 },
+			{ timestamp: '2025-07-01T10:00:00Z', signature_count: 100 },
+			{ timestamp: '2025-07-01T10:03:00Z', signature_count: 110 }
+		]), { startedAt: 0 });
+
+		expect(recording.countAt(30 * 1000)).toBe(100);
+		expect(recording.countAt(MINUTE)).toBe(120);
+		expect(recording.countAt(2.5 * MINUTE)).toBe(120);
+		expect(recording.countAt(10 * MINUTE)).toBe(110);
+	});
+});
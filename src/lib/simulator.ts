@@ -0,0 +1,181 @@
+// src/lib/simulator.ts
+import type { UpstreamFetch } from './poller.js';
+
+// 🧪 A stand-in for the ECI progression API: replays a synthetic or recorded signature
+// curve at any speed, with the bursts, stalls, decreases and broken responses the real
+// one has produced. Hand `simulator.fetch` to setUpstream (src/lib/datamonitor.ts) in
+// tests, or serve it over HTTP with `npm run simulator` and point ECI_BASE_URL at it.
+
+export type SimulatedFault =
+    | 'http-error'      // 503 Service Unavailable
+    | 'invalid-json'    // a 200 whose body isn't JSON
+    | 'invalid-payload' // JSON without a usable signatureCount
+    | 'timeout';        // never answers
+
+// A scenario plays its steps one after another; durations are in simulated time
+export type ScenarioStep =
+    | { kind: 'steady'; durationMs: number; perMinute: number }
+    | { kind: 'burst'; durationMs: number; signatures: number }
+    | { kind: 'stall'; durationMs: number }
+    | { kind: 'decrease'; signatures: number }
+    | { kind: 'fault'; durationMs: number; fault: SimulatedFault }
+    | { kind: 'set'; signatureCount: number; durationMs?: number };
+
+export interface Scenario {
+    startCount: number;
+    goal?: number;
+    steps: ScenarioStep[];
+}
+
+export interface SimulatorOptions {
+    speed?: number;     // simulated ms per real ms
+    startedAt?: number; // real time the scenario starts at
+}
+
+export interface SimulatedResponse {
+    status: number;
+    body: string;
+}
+
+// A stretch of the curve: the count moves linearly from `from` to `to` over [start, end)
+interface Segment {
+    start: number;
+    end: number;
+    from: number;
+    to: number;
+    fault: SimulatedFault | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Something of everything: a quiet start, a newsletter burst, a stall, a correction and an outage
+export const DEMO_SCENARIO: Scenario = {
+    startCount: 1000000,
+    goal: 1400000,
+    steps: [
+        { kind: 'steady', durationMs: 30 * MINUTE_MS, perMinute: 40 },
+        { kind: 'burst', durationMs: 10 * MINUTE_MS, signatures: 5000 },
+        { kind: 'steady', durationMs: 20 * MINUTE_MS, perMinute: 60 },
+        { kind: 'stall', durationMs: 45 * MINUTE_MS },
+        { kind: 'decrease', signatures: 250 },
+        { kind: 'steady', durationMs: 15 * MINUTE_MS, perMinute: 30 },
+        { kind: 'fault', durationMs: 2 * MINUTE_MS, fault: 'http-error' },
+        { kind: 'fault', durationMs: MINUTE_MS, fault: 'invalid-payload' },
+        { kind: 'steady', durationMs: 60 * MINUTE_MS, perMinute: 40 }
+    ]
+};
+
+// Replays stored snapshots (/api/history rows or a raw NDJSON export) as they happened
+export function recordedScenario(rows: { timestamp: string; signature_count: number }[], goal?: number): Scenario {
+    const sorted = [...rows].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    if (sorted.length === 0) throw new Error('A recording needs at least one snapshot');
+
+    return {
+        startCount: sorted[0].signature_count,
+        goal,
+        steps: sorted.slice(1).map((row, index) => ({
+            kind: 'set',
+            signatureCount: row.signature_count,
+            durationMs: new Date(row.timestamp).getTime() - new Date(sorted[index].timestamp).getTime()
+        }))
+    };
+}
+
+function toSegments({ startCount, steps }: Scenario): Segment[] {
+    const segments: Segment[] = [];
+    let time = 0;
+    let count = startCount;
+
+    const push = (durationMs: number, to: number, fault: SimulatedFault | null = null) => {
+        segments.push({ start: time, end: time + durationMs, from: count, to, fault });
+        time += durationMs;
+        count = to;
+    };
+
+    for (const step of steps) {
+        switch (step.kind) {
+            case 'steady':
+                push(step.durationMs, count + Math.round(step.perMinute * step.durationMs / MINUTE_MS));
+                break;
+            case 'burst':
+                push(step.durationMs, count + step.signatures);
+                break;
+            case 'stall':
+                push(step.durationMs, count);
+                break;
+            case 'decrease':
+                count = Math.max(0, count - step.signatures);
+                break;
+            case 'fault':
+                push(step.durationMs, count, step.fault);
+                break;
+            case 'set':
+                // A recorded count holds until the next one was seen
+                push(step.durationMs ?? 0, count);
+                count = step.signatureCount;
+                break;
+        }
+    }
+
+    // The last count holds forever
+    segments.push({ start: time, end: Infinity, from: count, to: count, fault: null });
+    return segments;
+}
+
+export class SignatureSimulator {
+    private segments: Segment[];
+    private speed: number;
+    private startedAt: number;
+    requests = 0;
+
+    constructor(private scenario: Scenario, { speed = 1, startedAt = Date.now() }: SimulatorOptions = {}) {
+        this.segments = toSegments(scenario);
+        this.speed = speed;
+        this.startedAt = startedAt;
+    }
+
+    // Simulated time since the scenario started
+    elapsed(now = Date.now()): number {
+        return Math.max(0, (now - this.startedAt) * this.speed);
+    }
+
+    private segmentAt(now: number): Segment {
+        const elapsed = this.elapsed(now);
+        return this.segments.find(segment => elapsed < segment.end && segment.end > segment.start)!;
+    }
+
+    // What the curve stands at, faults aside
+    countAt(now = Date.now()): number {
+        const segment = this.segmentAt(now);
+        const progress = (this.elapsed(now) - segment.start) / (segment.end - segment.start);
+        return isFinite(progress) ? Math.floor(segment.from + (segment.to - segment.from) * progress) : segment.from;
+    }
+
+    // The response the API would give now; null when it wouldn't answer at all
+    respond(now = Date.now()): SimulatedResponse | null {
+        switch (this.segmentAt(now).fault) {
+            case 'http-error':
+                return { status: 503, body: 'Service Unavailable' };
+            case 'invalid-json':
+                return { status: 200, body: '<html>Maintenance</html>' };
+            case 'invalid-payload':
+                return { status: 200, body: JSON.stringify({ signatureCount: null, goal: this.scenario.goal }) };
+            case 'timeout':
+                return null;
+            default:
+                return { status: 200, body: JSON.stringify({ signatureCount: this.countAt(now), goal: this.scenario.goal }) };
+        }
+    }
+
+    // Drop-in for fetch: timeouts reject right away instead of waiting out the caller's signal
+    fetch: UpstreamFetch = async () => {
+        this.requests++;
+        const response = this.respond();
+        if (!response) throw new DOMException('The operation timed out', 'TimeoutError');
+
+        return new Response(response.body, {
+            status: response.status,
+            headers: { 'Content-Type': response.status === 200 ? 'application/json' : 'text/plain' }
+        });
+    };
+}
@@ -0,0 +1,206 @@
+// src/lib/stats.ts
+import { describeGoal, findGoalOverride, getGoalSettings, goalSourceOf, type GoalInfo } from './config.js';
+import { getCurrentData } from './datamonitor.js';
+import type { TrackedInitiative } from './initiatives.js';
+import { forecastGoal, type Forecast, type HourlyPoint } from './forecast.js';
+import { historyPages, loadHourlyBuckets, type HistoryRow } from './history.js';
+import { BUCKET_MS, DEFAULT_TIMEZONE, aggregateSnapshots, toWallClock } from './timebuckets.js';
+import { addedBetween, changeStart } from './gaps.js';
+
+export interface StatsResponse extends GoalInfo {
+    initiative: string;
+    secRate: number;
+    minRate: number;
+    hourlyRate: number;
+    dailyRate: number;
+    peakHour: number;
+    totalToday: number;
+    forecast: Forecast | null;
+    activityLevel: string;
+    currentSignatures: number;
+    timeZone: string; // peakHour is an hour on this zone's wall clock
+}
+
+function calculateSlidingWindowRate(data: HistoryRow[], timeWindowMs: number): number {
+    if (data.length === 0) return 0;
+    
+    const now = Date.now();
+    const windowStart = now - timeWindowMs;
+    
+    // Filter data within the time window
+    const windowData = data.filter(row => {
+        const entryTime = new Date(row.timestamp).getTime();
+        return entryTime > windowStart;
+    });
+    
+    if (windowData.length === 0) return 0;
+    
+    // Sum only positive changes (new signatures); changes after a gap only count
+    // the part of the gap that falls inside the window
+    const totalChanges = addedBetween(windowData, windowStart, Infinity);
+    
+    // Calculate rate per unit time
+    const actualWindowMs = Math.min(timeWindowMs, now - changeStart(windowData[0]));
+    return totalChanges > 0 ? (totalChanges / (actualWindowMs / 1000)) : 0;
+}
+
+// The forecast fits a week of hourly history; reloading it every 5 minutes is plenty
+const FORECAST_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+const FORECAST_HISTORY_TTL_MS = 5 * 60 * 1000;
+const forecastHistory = new Map<string, { loadedAt: number; points: HourlyPoint[] }>();
+
+async function getForecast(initiative: TrackedInitiative, currentCount: number, goal: number): Promise<Forecast | null> {
+    let history = forecastHistory.get(initiative.id);
+
+    if (!history || Date.now() - history.loadedAt > FORECAST_HISTORY_TTL_MS) {
+        const buckets = await loadHourlyBuckets(initiative.id, new Date(Date.now() - FORECAST_LOOKBACK_MS), DEFAULT_TIMEZONE);
+        history = {
+            loadedAt: Date.now(),
+            points: buckets.map(bucket => ({ start: new Date(bucket.start), added: Math.max(0, bucket.signaturesAdded) }))
+        };
+        forecastHistory.set(initiative.id, history);
+    }
+
+    return forecastGoal({
+        points: history.points,
+        currentCount,
+        goal,
+        deadline: initiative.collectionDeadline ? new Date(initiative.collectionDeadline) : null,
+        now: new Date(),
+        timeZone: DEFAULT_TIMEZONE
+    });
+}
+
+const pickGoalInfo = ({ goal, officialGoal, goalOverride, goalSource }: GoalInfo): GoalInfo =>
+    ({ goal, officialGoal, goalOverride, goalSource });
+
+// Rates, peak hour and forecast for an initiative, from the last day of snapshots
+export async function computeStats(initiative: TrackedInitiative, timeZone: string = DEFAULT_TIMEZONE): Promise<StatsResponse> {
+    // Get current live data from datamonitor (most up-to-date)
+    const currentLiveData = getCurrentData(initiative.id);
+    
+    // Get all recent data (last 25 hours to ensure we have complete 24h data) - minute
+    // rollups as far as compaction has got, raw snapshots for the last few minutes
+    const hoursAgo = new Date(Date.now() - 25 * 60 * 60 * 1000);
+    
+    const rawData: HistoryRow[] = [];
+    for await (const page of historyPages(initiative.id, { from: hoursAgo }, 'minute')) rawData.push(...page);
+
+    if (rawData.length === 0) {
+        // Fallback to live data if no database data
+        const fallbackSignatures = currentLiveData?.signatureCount || 0;
+        const fallbackGoal: GoalInfo = currentLiveData
+            ? pickGoalInfo(currentLiveData)
+            : describeGoal(null, findGoalOverride(await getGoalSettings(), initiative.id), initiative.goal);
+        
+        return {
+            initiative: initiative.id,
+            secRate: 0,
+            minRate: 0,
+            hourlyRate: 0,
+            dailyRate: 0,
+            peakHour: 0,
+            totalToday: 0,
+            forecast: null,
+            activityLevel: 'None',
+            currentSignatures: fallbackSignatures,
+            timeZone,
+            ...fallbackGoal
+        };
+    }
+
+    const data = rawData;
+
+    // Get current signature count and goal from latest entry OR live data (whichever is newer)
+    const latestDbEntry = data[data.length - 1];
+    const currentSignatures = currentLiveData?.signatureCount && currentLiveData.signatureCount >= latestDbEntry.signature_count 
+        ? currentLiveData.signatureCount 
+        : latestDbEntry.signature_count;
+    const goalInfo: GoalInfo = currentLiveData ? pickGoalInfo(currentLiveData) : {
+        goal: latestDbEntry.goal,
+        officialGoal: latestDbEntry.official_goal,
+        goalOverride: latestDbEntry.goal_override,
+        goalSource: goalSourceOf(latestDbEntry)
+    };
+    const goal = goalInfo.goal;
+
+    console.log(`📊 Stats calculation - DB: ${latestDbEntry.signature_count}, Live: ${currentLiveData?.signatureCount}, Using: ${currentSignatures}`);
+
+    // Calculate sliding window rates (using database data for historical analysis)
+    const secRate = calculateSlidingWindowRate(data, 30 * 1000); // 30 seconds
+    const minRate = calculateSlidingWindowRate(data, 5 * 60 * 1000) * 60; // 5 minutes, per minute
+    const hourlyRate = calculateSlidingWindowRate(data, 60 * 60 * 1000) * 3600; // 1 hour, per hour
+    const dailyRate = calculateSlidingWindowRate(data, 24 * 60 * 60 * 1000) * 86400; // 24 hours, per day
+
+    // Calculate total signatures today (last 24 hours)
+    const dayAgo = Date.now() - (24 * 60 * 60 * 1000);
+    const todayData = data.filter(row => {
+        return new Date(row.timestamp).getTime() > dayAgo;
+    });
+    
+    const totalToday = addedBetween(todayData, dayAgo, Infinity);
+
+    // Find peak hour from today's data on the viewer's wall clock (gaps spread over their hours)
+    const hourlyData: Record<number, number> = {};
+    aggregateSnapshots(todayData, 'hour', timeZone)
+        .filter(bucket => new Date(bucket.start).getTime() + BUCKET_MS.hour > dayAgo)
+        .forEach(bucket => {
+            const hour = toWallClock(new Date(bucket.start), timeZone).hour;
+            if (bucket.signaturesAdded > 0) {
+                hourlyData[hour] = (hourlyData[hour] || 0) + bucket.signaturesAdded;
+            }
+        });
+    
+    let peakHour = 0;
+    let peakCount = 0;
+    Object.entries(hourlyData).forEach(([hour, count]) => {
+        if (count > peakCount) {
+            peakCount = count;
+            peakHour = parseInt(hour);
+        }
+    });
+
+    // Determine activity level
+    let activityLevel = 'Minimal';
+    if (secRate > 0.1) {
+        activityLevel = 'High';
+    } else if (minRate > 1) {
+        activityLevel = 'Medium';
+    } else if (hourlyRate > 10) {
+        activityLevel = 'Low';
+    }
+
+    const forecast = await getForecast(initiative, currentSignatures, goal);
+
+    return {
+        initiative: initiative.id,
+        secRate: Math.round(secRate * 100) / 100, // 2 decimal places
+        minRate: Math.round(minRate * 10) / 10,   // 1 decimal place
+        hourlyRate: Math.round(hourlyRate),
+        dailyRate: Math.round(dailyRate),
+        peakHour,
+        totalToday,
+        forecast,
+        activityLevel,
+        currentSignatures,
+        timeZone,
+        ...goalInfo
+    };
+}
+
+// Everyone asking within a few seconds (the stats route, every SSE stream) shares one
+// calculation per initiative and timezone - until the live count moves
+const STATS_TTL_MS = 5000;
+const statsCache = new Map<string, { at: number; count: number | null; stats: Promise<StatsResponse> }>();
+
+export function getStats(initiative: TrackedInitiative, timeZone: string = DEFAULT_TIMEZONE): Promise<StatsResponse> {
+    const key = `${initiative.id}|${timeZone}`;
+    const count = getCurrentData(initiative.id)?.signatureCount ?? null;
+    const cached = statsCache.get(key);
+    if (cached && cached.count === count && Date.now() - cached.at < STATS_TTL_MS) return cached.stats;
+
+    const stats = computeStats(initiative, timeZone);
+    statsCache.set(key, { at: Date.now(), count, stats });
+    stats.catch(() => statsCache.delete(key));
+    return stats;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateSnapshots, bucketStart, hasWholeHourOffset } from './timebuckets';
+
+describe('bucketStart', () => {
+	it('truncates to wall-clock boundaries in the timezone', () => {
+		const date = new Date('2025-07-03T14:37:12Z'); // 16:37 in Oslo (CEST)
+		expect(bucketStart(date, 'hour', 'Europe/Oslo').toISOString()).toBe('2025-07-03T14:00:00.000Z');
+		expect(bucketStart(date, 'day', 'Europe/Oslo').toISOString()).toBe('2025-07-02T22:00:00.000Z');
+		expect(bucketStart(date, 'day', 'America/New_York').toISOString()).toBe('2025-07-03T04:00:00.000Z');
+		expect(bucketStart(date, 'week', 'Europe/Oslo').toISOString()).toBe('2025-06-29T22:00:00.000Z');
+	});
+
+	it('handles DST changes', () => {
+		// Oslo switches from CEST to CET on 2025-10-26
+		const date = new Date('2025-10-26T12:00:00Z');
+		expect(bucketStart(date, 'day', 'Europe/Oslo').toISOString()).toBe('2025-10-25T22:00:00.000Z');
+	});
+});
+
+describe('hasWholeHourOffset', () => {
+	const from = new Date('2025-01-01T00:00:00Z');
+	const to = new Date('2025-12-31T00:00:00Z');
+
+	it('holds across DST changes of whole hours', () => {
+		expect(hasWholeHourOffset('Europe/Oslo', from, to)).toBe(true);
+		expect(hasWholeHourOffset('UTC', from, to)).toBe(true);
+	});
+
+	it('fails for half-hour offsets, even ones only in force mid-range', () => {
+		expect(hasWholeHourOffset('Asia/Kolkata', from, to)).toBe(false);
+		expect(hasWholeHourOffset('Australia/Adelaide', from, to)).toBe(false);
+		// +11 at both ends, +10:30 from April to October
+		expect(hasWholeHourOffset('Australia/Lord_Howe', from, to)).toBe(false);
+	});
+});
+
+describe('aggregateSnapshots', () => {
+	it('sorts buckets chronologically across a year boundary', () => {
+		const rows = [
+			{ timestamp: '2025-12-31T22:10:00Z', signature_count: 100, change_amount: 10 },
+			{ timestamp: '2025-12-31T22:50:00Z', signature_count: 130, change_amount: 30 },
+			{ timestamp: '2025-12-31T23:05:00Z', signature_count: 135, change_amount: 5 }
+		];
+
+		expect(aggregateSnapshots(rows, 'hour', 'Europe/Oslo')).toEqual([
+			{ start: '2025-12-31T22:00:00.000Z', signaturesAdded: 40, closingTotal: 130, samples: 2 },
+			{ start: '2025-12-31T23:00:00.000Z', signaturesAdded: 5, closingTotal: 135, samples: 1 }
+		]);
+	});
+});
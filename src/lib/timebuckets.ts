@@ -0,0 +1,227 @@
+// src/lib/timebuckets.ts
+import { changeBetween, changeStart } from './gaps.js';
+
+// 🕐 Calendar buckets (minute/hour/day/week) computed in a given timezone,
+// so an "hour" or "day" matches the wall clock of whoever is reading the chart.
+
+export type Bucket = 'minute' | 'hour' | 'day' | 'week';
+
+export const BUCKETS: Bucket[] = ['minute', 'hour', 'day', 'week'];
+
+export const DEFAULT_TIMEZONE = 'Europe/Oslo';
+
+export const BUCKET_MS: Record<Bucket, number> = {
+    minute: 60 * 1000,
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000
+};
+
+export interface SnapshotRow {
+    timestamp: string;
+    signature_count: number;
+    change_amount: number;
+    gap_started_at?: string | null;
+    samples?: number; // snapshots the row stands for, when it was rebuilt from a rollup
+}
+
+export interface AggregatedBucket {
+    start: string;
+    signaturesAdded: number;
+    closingTotal: number;
+    samples: number;
+}
+
+interface WallClock {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric'
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        formatterFor(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export const isBucket = (value: string): value is Bucket => (BUCKETS as string[]).includes(value);
+
+export function toWallClock(date: Date, timeZone: string): WallClock {
+    const parts: Record<string, number> = {};
+    for (const part of formatterFor(timeZone).formatToParts(date)) {
+        if (part.type !== 'literal') parts[part.type] = parseInt(part.value);
+    }
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hour: parts.hour,
+        minute: parts.minute,
+        second: parts.second
+    };
+}
+
+// Offset of the timezone from UTC at an instant, in milliseconds
+function offsetAt(instant: number, timeZone: string): number {
+    const wall = toWallClock(new Date(instant), timeZone);
+    const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+    return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// Whether the timezone is a whole number of hours off UTC all through [from, to], checked once
+// a day. Only then do its hours line up with UTC hours (Asia/Kolkata's don't, for one).
+export function hasWholeHourOffset(timeZone: string, from: Date, to: Date): boolean {
+    for (let instant = from.getTime(); ; instant += BUCKET_MS.day) {
+        const at = Math.min(instant, to.getTime());
+        if (offsetAt(at, timeZone) % BUCKET_MS.hour !== 0) return false;
+        if (at >= to.getTime()) return true;
+    }
+}
+
+// The instant a wall-clock time happens in a timezone (DST-aware)
+export function fromWallClock(wall: WallClock, timeZone: string): Date {
+    const guess = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+    const firstPass = guess - offsetAt(guess, timeZone);
+    return new Date(guess - offsetAt(firstPass, timeZone));
+}
+
+export function bucketStart(date: Date, bucket: Bucket, timeZone: string): Date {
+    const wall = toWallClock(date, timeZone);
+    wall.second = 0;
+
+    if (bucket !== 'minute') wall.minute = 0;
+    if (bucket === 'day' || bucket === 'week') wall.hour = 0;
+
+    if (bucket === 'week') {
+        // Weeks start on Monday
+        const weekday = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+        const monday = new Date(Date.UTC(wall.year, wall.month - 1, wall.day - ((weekday + 6) % 7)));
+        wall.year = monday.getUTCFullYear();
+        wall.month = monday.getUTCMonth() + 1;
+        wall.day = monday.getUTCDate();
+    }
+
+    return fromWallClock(wall, timeZone);
+}
+
+// Start of the bucket after the one starting at `start` (days and weeks vary in length around DST)
+export const nextBucketStart = (start: number, bucket: Bucket, timeZone: string): number =>
+    bucketStart(new Date(start + BUCKET_MS[bucket] * 1.5), bucket, timeZone).getTime();
+
+// Groups snapshots (oldest first) into buckets, one row at a time; empty buckets are left out.
+// A snapshot taken after a gap has its change spread over the buckets the gap spans.
+export class BucketAggregator {
+    private buckets = new Map<number, AggregatedBucket>();
+
+    constructor(private bucket: Bucket, private timeZone: string) {}
+
+    add(row: SnapshotRow) {
+        const time = new Date(row.timestamp).getTime();
+        const start = bucketStart(new Date(time), this.bucket, this.timeZone).getTime();
+
+        for (
+            let gapBucket = bucketStart(new Date(changeStart(row)), this.bucket, this.timeZone).getTime();
+            gapBucket < start;
+            gapBucket = nextBucketStart(gapBucket, this.bucket, this.timeZone)
+        ) {
+            const end = nextBucketStart(gapBucket, this.bucket, this.timeZone);
+            const current = this.at(gapBucket, row.signature_count);
+            current.signaturesAdded += changeBetween(row, gapBucket, end);
+            current.closingTotal = row.signature_count - changeBetween(row, end, Infinity);
+        }
+
+        const current = this.at(start, row.signature_count);
+        current.signaturesAdded += changeBetween(row, start, Infinity);
+        current.closingTotal = row.signature_count;
+        current.samples += row.samples ?? 1;
+    }
+
+    private at(start: number, signatureCount: number): AggregatedBucket {
+        let current = this.buckets.get(start);
+        if (!current) {
+            current = { start: new Date(start).toISOString(), signaturesAdded: 0, closingTotal: signatureCount, samples: 0 };
+            this.buckets.set(start, current);
+        }
+        return current;
+    }
+
+    result(): AggregatedBucket[] {
+        return [...this.buckets.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([, value]) => value);
+    }
+}
+
+export function aggregateSnapshots(rows: Iterable<SnapshotRow>, bucket: Bucket, timeZone: string): AggregatedBucket[] {
+    const aggregator = new BucketAggregator(bucket, timeZone);
+    for (const row of rows) aggregator.add(row);
+    return aggregator.result();
+}
+
+// Same grouping as BucketAggregator, but yields each bucket as soon as it's complete.
+// Rows must arrive oldest first; `last` is the bucket's final row.
+export async function* streamBuckets<T extends SnapshotRow>(
+    pages: AsyncIterable<T[]>,
+    bucket: Bucket,
+    timeZone: string
+): AsyncGenerator<{ bucket: AggregatedBucket; last: T }> {
+    let current: { start: number; bucket: AggregatedBucket; last: T } | null = null;
+
+    for await (const page of pages) {
+        for (const row of page) {
+            const start = bucketStart(new Date(row.timestamp), bucket, timeZone).getTime();
+
+            if (current && current.start !== start) {
+                yield { bucket: current.bucket, last: current.last };
+                current = null;
+            }
+            if (!current) {
+                current = {
+                    start,
+                    bucket: { start: new Date(start).toISOString(), signaturesAdded: 0, closingTotal: row.signature_count, samples: 0 },
+                    last: row
+                };
+            }
+
+            current.bucket.signaturesAdded += row.change_amount;
+            current.bucket.closingTotal = row.signature_count;
+            current.bucket.samples += row.samples ?? 1;
+            current.last = row;
+        }
+    }
+
+    if (current) yield { bucket: current.bucket, last: current.last };
+}
+
+// "2025-07-03 16:37:12" on the timezone's wall clock
+export function formatLocalTime(date: Date, timeZone: string): string {
+    const wall = toWallClock(date, timeZone);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${wall.year}-${pad(wall.month)}-${pad(wall.day)} ${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}`;
+}
@@ -0,0 +1,24 @@
+// src/routes/admin/+page.server.ts
+import { redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { ADMIN_SESSION_COOKIE } from '$lib/server/admin.js';
+import { recordAdminAction } from '$lib/server/audit.js';
+import { getInitiatives } from '$lib/initiatives.js';
+
+// Only signed-in admins get this far - see adminAuth in src/hooks.server.ts
+export const load: PageServerLoad = async ({ setHeaders }) => {
+    setHeaders({ 'Cache-Control': 'no-store' });
+
+    return {
+        initiatives: getInitiatives().map(initiative => ({ id: initiative.id, title: initiative.title }))
+    };
+};
+
+export const actions: Actions = {
+    logout: async (event) => {
+        await recordAdminAction(event, { action: 'logout' });
+        event.cookies.delete(ADMIN_SESSION_COOKIE, { path: '/' });
+
+        redirect(303, '/admin/login');
+    }
+};
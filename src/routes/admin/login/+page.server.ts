@@ -0,0 +1,35 @@
+// src/routes/admin/login/+page.server.ts
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { ADMIN_SESSION_COOKIE, ADMIN_SESSION_TTL_MS, adminActor, createAdminSession, isAdminToken } from '$lib/server/admin.js';
+import { recordAdminAction } from '$lib/server/audit.js';
+
+// 🔑 Trades ADMIN_TOKEN for a session cookie, so the console works from a plain browser
+export const load: PageServerLoad = async ({ request, setHeaders }) => {
+    if (adminActor(request)) redirect(303, '/admin');
+    setHeaders({ 'Cache-Control': 'no-store' });
+
+    return { enabled: Boolean(process.env.ADMIN_TOKEN) };
+};
+
+export const actions: Actions = {
+    default: async (event) => {
+        const token = String((await event.request.formData()).get('token') ?? '');
+
+        if (!isAdminToken(token)) {
+            await recordAdminAction(event, { action: 'login.failed', actor: 'anonymous' });
+            return fail(401, { invalid: true });
+        }
+
+        event.cookies.set(ADMIN_SESSION_COOKIE, createAdminSession(token), {
+            path: '/',
+            httpOnly: true,
+            sameSite: 'strict',
+            secure: event.url.protocol === 'https:',
+            maxAge: ADMIN_SESSION_TTL_MS / 1000
+        });
+        await recordAdminAction(event, { action: 'login', actor: 'session' });
+
+        redirect(303, '/admin');
+    }
+};
@@ -0,0 +1,30 @@
+// src/routes/api/admin/audit/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/admin.js';
+import { getSnapshotStore } from '$lib/server/store/index.js';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+// 📜 The admin audit log, newest first
+export const GET: RequestHandler = async ({ url, request }) => {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+
+    const limit = Math.min(parseInt(url.searchParams.get('limit') ?? '') || DEFAULT_LIMIT, MAX_LIMIT);
+    const offset = Math.max(parseInt(url.searchParams.get('offset') ?? '') || 0, 0);
+
+    try {
+        const actions = await getSnapshotStore().listAdminActions({ limit, offset });
+        return json({ data: actions, count: actions.length, limit, offset });
+    } catch (error) {
+        console.error('Audit log query error:', error);
+        return json({ error: 'Failed to fetch the audit log' }, 500);
+    }
+};
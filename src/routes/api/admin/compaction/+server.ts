@@ -0,0 +1,56 @@
+// src/routes/api/admin/compaction/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/admin.js';
+import { recordAdminAction } from '$lib/server/audit.js';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { RESOLUTIONS, compact, parseRetentionPolicy, tierSpan } from '$lib/rollups.js';
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+const iso = (time: number | null) => time === null ? null : new Date(time).toISOString();
+
+// 🗜️ What each storage tier holds, and the retention policy that applies to it
+export const GET: RequestHandler = async ({ url, request }) => {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+
+    const initiative = resolveInitiative(url);
+    if (!initiative) return json({ error: 'Unknown initiative' }, 404);
+
+    try {
+        const tiers = await Promise.all((['raw', ...RESOLUTIONS] as const).map(async tier => {
+            const { start, end } = await tierSpan(initiative.id, tier);
+            return { tier, oldest: iso(start), rolledUpUntil: iso(end) };
+        }));
+
+        return json({ initiative: initiative.id, policy: parseRetentionPolicy(process.env), tiers });
+    } catch (error) {
+        console.error('Compaction status error:', error);
+        return json({ error: 'Failed to read storage tiers' }, 500);
+    }
+};
+
+// Run a compaction now instead of waiting for the collector's next one
+export const POST: RequestHandler = async (event) => {
+    const denied = requireAdmin(event.request);
+    if (denied) return denied;
+
+    const initiative = resolveInitiative(event.url);
+    if (!initiative) return json({ error: 'Unknown initiative' }, 404);
+
+    try {
+        const result = await compact(initiative.id, parseRetentionPolicy(process.env));
+
+        console.log(`🗜️ [${initiative.id}] Manual compaction:`, result);
+        await recordAdminAction(event, { action: 'compaction', initiativeId: initiative.id, details: { ...result } });
+
+        return json(result);
+    } catch (error) {
+        console.error('Compaction error:', error);
+        return json({ error: 'Failed to compact' }, 500);
+    }
+};
@@ -0,0 +1,100 @@
+// src/routes/api/admin/gaps/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/admin.js';
+import { recordAdminAction } from '$lib/server/audit.js';
+import { getSnapshotStore } from '$lib/server/store/index.js';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { parseDateParam, snapshotPages } from '$lib/history.js';
+import { GapDetector, coverage, type Gap } from '$lib/gaps.js';
+import { loadPollerConfig } from '$lib/poller.js';
+
+const DEFAULT_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+async function findGaps(initiativeId: string, from: Date, to: Date): Promise<Gap[]> {
+    const detector = new GapDetector(loadPollerConfig().gapThresholdMs);
+
+    for await (const page of snapshotPages(initiativeId, { from, to })) {
+        for (const row of page) detector.add(row);
+    }
+
+    return detector.result();
+}
+
+function parseRange(url: URL): { from: Date; to: Date } | Response {
+    const from = parseDateParam(url, 'from');
+    const to = parseDateParam(url, 'to');
+
+    if (from === null || to === null) return json({ error: 'from and to must be ISO 8601 dates' }, 400);
+
+    const end = to ?? new Date();
+    return { from: from ?? new Date(end.getTime() - DEFAULT_RANGE_MS), to: end };
+}
+
+// 🕳️ Gaps in the snapshot history and how much of the range was actually observed
+export const GET: RequestHandler = async ({ url, request }) => {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+
+    const initiative = resolveInitiative(url);
+    if (!initiative) return json({ error: 'Unknown initiative' }, 404);
+
+    const range = parseRange(url);
+    if (range instanceof Response) return range;
+
+    try {
+        const gaps = await findGaps(initiative.id, range.from, range.to);
+
+        return json({
+            initiative: initiative.id,
+            from: range.from.toISOString(),
+            to: range.to.toISOString(),
+            gaps,
+            gapCount: gaps.length,
+            unflagged: gaps.filter(gap => !gap.flagged).length,
+            missingSeconds: gaps.reduce((sum, gap) => sum + gap.durationSeconds, 0),
+            coverage: coverage(gaps, range.from.getTime(), range.to.getTime())
+        });
+    } catch (error) {
+        console.error('Gap detection error:', error);
+        return json({ error: 'Failed to detect gaps' }, 500);
+    }
+};
+
+// Backfill: flag gaps inferred from older rows, so rates spread them like new ones
+export const POST: RequestHandler = async (event) => {
+    const denied = requireAdmin(event.request);
+    if (denied) return denied;
+
+    const initiative = resolveInitiative(event.url);
+    if (!initiative) return json({ error: 'Unknown initiative' }, 404);
+
+    const range = parseRange(event.url);
+    if (range instanceof Response) return range;
+
+    try {
+        const unflagged = (await findGaps(initiative.id, range.from, range.to)).filter(gap => !gap.flagged);
+        const store = getSnapshotStore();
+
+        for (const gap of unflagged) {
+            await store.markSnapshotGap(gap.snapshotId, gap.start, gap.signatures);
+        }
+
+        console.log(`🕳️ [${initiative.id}] Flagged ${unflagged.length} gap(s)`);
+        await recordAdminAction(event, {
+            action: 'gaps.flag',
+            initiativeId: initiative.id,
+            details: { from: range.from.toISOString(), to: range.to.toISOString(), flagged: unflagged.length }
+        });
+
+        return json({ initiative: initiative.id, flagged: unflagged.length, gaps: unflagged });
+    } catch (error) {
+        console.error('Gap backfill error:', error);
+        return json({ error: 'Failed to flag gaps' }, 500);
+    }
+};
@@ -0,0 +1,64 @@
+// src/routes/api/admin/monitor/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/admin.js';
+import { recordAdminAction } from '$lib/server/audit.js';
+import { getMonitorHealth, updateMonitorControls } from '$lib/datamonitor.js';
+
+const MIN_INTERVAL_MS = 1000;
+const MAX_INTERVAL_MS = 60 * 60 * 1000;
+
+const validInterval = (value: unknown): value is number =>
+    Number.isInteger(value) && (value as number) >= MIN_INTERVAL_MS && (value as number) <= MAX_INTERVAL_MS;
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+// 🎛️ This instance's monitor: role, lease, pause state, poll interval, streams and subscribers
+export const GET: RequestHandler = async ({ request }) => {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+
+    return json(getMonitorHealth());
+};
+
+// { paused?: boolean, intervalMs?: number } - both optional, applied straight away on every instance
+export const PATCH: RequestHandler = async (event) => {
+    const denied = requireAdmin(event.request);
+    if (denied) return denied;
+
+    const body = await event.request.json().catch(() => null);
+    if (!body || typeof body !== 'object') return json({ error: 'Expected a JSON object' }, 400);
+
+    const { paused, intervalMs } = body as { paused?: unknown; intervalMs?: unknown };
+    const errors: string[] = [];
+
+    if (paused !== undefined && typeof paused !== 'boolean') errors.push('paused must be true or false');
+    if (intervalMs !== undefined && !validInterval(intervalMs)) {
+        errors.push(`intervalMs must be a whole number between ${MIN_INTERVAL_MS} and ${MAX_INTERVAL_MS}`);
+    }
+    if (errors.length > 0) return json({ error: 'Invalid monitor settings', details: errors }, 400);
+
+    const before = getMonitorHealth();
+    const pause = typeof paused === 'boolean' && paused !== before.paused ? paused : undefined;
+    const interval = validInterval(intervalMs) && intervalMs !== before.intervalMs ? intervalMs : undefined;
+    if (pause === undefined && interval === undefined) return json(before);
+
+    try {
+        await updateMonitorControls({ paused: pause, intervalMs: interval });
+    } catch (error) {
+        console.error('Monitor controls error:', error);
+        return json({ error: 'Failed to save the monitor settings' }, 500);
+    }
+
+    if (pause !== undefined) {
+        await recordAdminAction(event, { action: pause ? 'monitor.pause' : 'monitor.resume' });
+    }
+    if (interval !== undefined) {
+        await recordAdminAction(event, { action: 'monitor.interval', details: { from: before.intervalMs, to: interval } });
+    }
+
+    return json(getMonitorHealth());
+};
@@ -0,0 +1,40 @@
+// src/routes/api/admin/poll/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/admin.js';
+import { recordAdminAction } from '$lib/server/audit.js';
+import { pollNow } from '$lib/datamonitor.js';
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+// 🔄 Poll the EU API now instead of waiting for the next tick - even while paused. Only the
+// lease holder polls: from any other instance the request is passed on to it (202).
+export const POST: RequestHandler = async (event) => {
+    const denied = requireAdmin(event.request);
+    if (denied) return denied;
+
+    try {
+        const outcome = await pollNow();
+        if (!outcome) {
+            return json({ error: 'This instance does not hold the collector lease and cannot reach the one that does' }, 409);
+        }
+
+        if ('requestedFrom' in outcome) {
+            await recordAdminAction(event, { action: 'poll', details: { requestedFrom: outcome.requestedFrom } });
+            return json(outcome, 202);
+        }
+
+        await recordAdminAction(event, {
+            action: 'poll',
+            details: { failed: outcome.polled.filter(status => status.lastError).map(status => status.initiativeId) }
+        });
+
+        return json({ initiatives: outcome.polled });
+    } catch (error) {
+        console.error('Manual poll error:', error);
+        return json({ error: 'Failed to poll' }, 500);
+    }
+};
@@ -0,0 +1,39 @@
+// src/routes/api/admin/snapshots/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/admin.js';
+import { getSnapshotStore } from '$lib/server/store/index.js';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { parseDateParam } from '$lib/history.js';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+// 🔍 Stored snapshots, newest first, with their ids - to find the bad ones and delete them
+export const GET: RequestHandler = async ({ url, request }) => {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+
+    const initiative = resolveInitiative(url);
+    if (!initiative) return json({ error: 'Unknown initiative' }, 404);
+
+    const from = parseDateParam(url, 'from');
+    const to = parseDateParam(url, 'to');
+    if (from === null || to === null) return json({ error: 'from and to must be ISO 8601 dates' }, 400);
+
+    const limit = Math.min(parseInt(url.searchParams.get('limit') ?? '') || DEFAULT_LIMIT, MAX_LIMIT);
+    const offset = Math.max(parseInt(url.searchParams.get('offset') ?? '') || 0, 0);
+
+    try {
+        const snapshots = await getSnapshotStore().listSnapshots({ initiativeId: initiative.id, from, to, order: 'desc', limit, offset });
+        return json({ initiative: initiative.id, data: snapshots, count: snapshots.length, limit, offset });
+    } catch (error) {
+        console.error('Snapshot query error:', error);
+        return json({ error: 'Failed to fetch snapshots' }, 500);
+    }
+};
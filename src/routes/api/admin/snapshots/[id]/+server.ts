@@ -0,0 +1,55 @@
+// src/routes/api/admin/snapshots/[id]/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/admin.js';
+import { recordAdminAction } from '$lib/server/audit.js';
+import { removeSnapshot } from '$lib/corrections.js';
+import { reloadLastSnapshot } from '$lib/datamonitor.js';
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+const notFound = () => json({ error: 'Unknown snapshot' }, 404);
+
+// 🧹 Delete a bad snapshot; the one after it takes over its change (src/lib/corrections.ts)
+export const DELETE: RequestHandler = async (event) => {
+    const denied = requireAdmin(event.request);
+    if (denied) return denied;
+
+    const id = Number(event.params.id);
+    if (!Number.isSafeInteger(id) || id <= 0) return notFound();
+
+    try {
+        const result = await removeSnapshot(id);
+        if (!result) return notFound();
+
+        const { removed, next, rollupError } = result;
+        reloadLastSnapshot(removed.initiative_id);
+
+        // Audited whenever the row went, even if its rollups couldn't be rebuilt
+        console.log(`🧹 [${removed.initiative_id}] Snapshot ${id} deleted (${removed.signature_count} at ${removed.timestamp})`);
+        await recordAdminAction(event, {
+            action: 'snapshot.delete',
+            initiativeId: removed.initiative_id,
+            details: {
+                id,
+                timestamp: removed.timestamp,
+                signatureCount: removed.signature_count,
+                changeAmount: removed.change_amount,
+                anomaly: removed.anomaly,
+                nextId: next?.id ?? null,
+                rollupError
+            }
+        });
+
+        if (rollupError) {
+            return json({ error: 'Snapshot deleted, but its rollups could not be rebuilt', ...result }, 500);
+        }
+        return json(result);
+    } catch (error) {
+        console.error('Snapshot delete error:', error);
+        return json({ error: 'Failed to delete snapshot' }, 500);
+    }
+};
@@ -0,0 +1,59 @@
+// src/routes/api/annotations/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/admin.js';
+import { recordAdminAction } from '$lib/server/audit.js';
+import { getSnapshotStore } from '$lib/server/store/index.js';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { parseDateParam } from '$lib/history.js';
+import { parseAnnotationInput } from '$lib/annotations.js';
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+// 📣 Campaign annotations, oldest first - anyone can read them, only admins add them
+export const GET: RequestHandler = async ({ url }) => {
+    const initiative = resolveInitiative(url);
+    if (!initiative) return json({ error: 'Unknown initiative' }, 404);
+
+    const from = parseDateParam(url, 'from');
+    const to = parseDateParam(url, 'to');
+    if (from === null || to === null) return json({ error: 'from and to must be ISO 8601 dates' }, 400);
+
+    try {
+        const annotations = await getSnapshotStore().listAnnotations({ initiativeId: initiative.id, from, to });
+        return json({ initiative: initiative.id, data: annotations, count: annotations.length });
+    } catch (error) {
+        console.error('Annotations query error:', error);
+        return json({ error: 'Failed to fetch annotations' }, 500);
+    }
+};
+
+export const POST: RequestHandler = async (event) => {
+    const denied = requireAdmin(event.request);
+    if (denied) return denied;
+
+    const initiative = resolveInitiative(event.url);
+    if (!initiative) return json({ error: 'Unknown initiative' }, 404);
+
+    const parsed = parseAnnotationInput(await event.request.json().catch(() => null), false);
+    if ('errors' in parsed) return json({ error: 'Invalid annotation', details: parsed.errors }, 400);
+
+    try {
+        const annotation = await getSnapshotStore().insertAnnotation({
+            initiative_id: initiative.id,
+            timestamp: parsed.changes.timestamp!,
+            label: parsed.changes.label!,
+            url: parsed.changes.url ?? null
+        });
+
+        console.log(`📣 [${initiative.id}] Annotation added: "${annotation.label}" at ${annotation.timestamp}`);
+        await recordAdminAction(event, { action: 'annotation.create', initiativeId: initiative.id, details: { ...annotation } });
+        return json(annotation, 201);
+    } catch (error) {
+        console.error('Annotation insert error:', error);
+        return json({ error: 'Failed to save annotation' }, 500);
+    }
+};
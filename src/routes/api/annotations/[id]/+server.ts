@@ -0,0 +1,77 @@
+// src/routes/api/annotations/[id]/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { requireAdmin } from '$lib/server/admin.js';
+import { recordAdminAction } from '$lib/server/audit.js';
+import { getSnapshotStore } from '$lib/server/store/index.js';
+import { parseAnnotationInput } from '$lib/annotations.js';
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+const notFound = () => json({ error: 'Unknown annotation' }, 404);
+
+// Positive whole numbers only; anything else can't be an annotation
+const parseId = (value: string | undefined) => {
+    const id = Number(value);
+    return Number.isSafeInteger(id) && id > 0 ? id : null;
+};
+
+export const GET: RequestHandler = async ({ params }) => {
+    const id = parseId(params.id);
+    if (id === null) return notFound();
+
+    try {
+        const annotation = await getSnapshotStore().getAnnotation(id);
+        return annotation ? json(annotation) : notFound();
+    } catch (error) {
+        console.error('Annotation query error:', error);
+        return json({ error: 'Failed to fetch annotation' }, 500);
+    }
+};
+
+export const PATCH: RequestHandler = async (event) => {
+    const denied = requireAdmin(event.request);
+    if (denied) return denied;
+
+    const id = parseId(event.params.id);
+    if (id === null) return notFound();
+
+    const parsed = parseAnnotationInput(await event.request.json().catch(() => null), true);
+    if ('errors' in parsed) return json({ error: 'Invalid annotation', details: parsed.errors }, 400);
+
+    try {
+        const annotation = await getSnapshotStore().updateAnnotation(id, parsed.changes);
+        if (!annotation) return notFound();
+
+        console.log(`📣 [${annotation.initiative_id}] Annotation ${id} updated`);
+        await recordAdminAction(event, { action: 'annotation.update', initiativeId: annotation.initiative_id, details: { id, ...parsed.changes } });
+        return json(annotation);
+    } catch (error) {
+        console.error('Annotation update error:', error);
+        return json({ error: 'Failed to update annotation' }, 500);
+    }
+};
+
+export const DELETE: RequestHandler = async (event) => {
+    const denied = requireAdmin(event.request);
+    if (denied) return denied;
+
+    const id = parseId(event.params.id);
+    if (id === null) return notFound();
+
+    try {
+        // Read first, so the audit log says what was deleted
+        const annotation = await getSnapshotStore().getAnnotation(id);
+        if (!annotation || !(await getSnapshotStore().deleteAnnotation(id))) return notFound();
+
+        console.log(`📣 Annotation ${id} deleted`);
+        await recordAdminAction(event, { action: 'annotation.delete', initiativeId: annotation.initiative_id, details: { ...annotation } });
+        return new Response(null, { status: 204 });
+    } catch (error) {
+        console.error('Annotation delete error:', error);
+        return json({ error: 'Failed to delete annotation' }, 500);
+    }
+};
@@ -0,0 +1,51 @@
+// src/routes/api/annotations/attribution/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { parseDateParam } from '$lib/history.js';
+import {
+    DEFAULT_ATTRIBUTION_WINDOW_MINUTES,
+    MAX_ATTRIBUTION_WINDOW_MINUTES,
+    attributeAnnotations
+} from '$lib/annotations.js';
+
+const DEFAULT_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+// Signature rate in the `window` minutes before each annotation vs. the same span after it
+export const GET: RequestHandler = async ({ url }) => {
+    const initiative = resolveInitiative(url);
+    if (!initiative) return json({ error: 'Unknown initiative' }, 404);
+
+    const from = parseDateParam(url, 'from');
+    const to = parseDateParam(url, 'to');
+    const windowMinutes = Number(url.searchParams.get('window') || DEFAULT_ATTRIBUTION_WINDOW_MINUTES);
+
+    if (from === null || to === null) return json({ error: 'from and to must be ISO 8601 dates' }, 400);
+    if (!Number.isInteger(windowMinutes) || windowMinutes < 1 || windowMinutes > MAX_ATTRIBUTION_WINDOW_MINUTES) {
+        return json({ error: `window must be a whole number of minutes from 1 to ${MAX_ATTRIBUTION_WINDOW_MINUTES}` }, 400);
+    }
+
+    const rangeEnd = to ?? new Date();
+    const rangeStart = from ?? new Date(rangeEnd.getTime() - DEFAULT_RANGE_MS);
+
+    try {
+        const attributions = await attributeAnnotations(initiative.id, rangeStart, rangeEnd, windowMinutes * 60 * 1000);
+
+        return json({
+            initiative: initiative.id,
+            from: rangeStart.toISOString(),
+            to: rangeEnd.toISOString(),
+            window: windowMinutes,
+            data: attributions,
+            count: attributions.length
+        });
+    } catch (error) {
+        console.error('Attribution error:', error);
+        return json({ error: 'Failed to attribute annotations' }, 500);
+    }
+};
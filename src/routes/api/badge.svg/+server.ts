@@ -0,0 +1,35 @@
+// src/routes/api/badge.svg/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { getCurrentData, startMonitoring } from '$lib/datamonitor.js';
+import { EMBED_CACHE_CONTROL, EMBED_PENDING_CACHE_CONTROL, parseEmbedOptions, renderBadge } from '$lib/embed.js';
+
+// Shields-style progress badge for partner sites, e.g.
+// <img src="/api/badge.svg?initiative=045&theme=dark&locale=de-DE&size=large">
+export const GET: RequestHandler = async ({ url }) => {
+    const initiative = resolveInitiative(url);
+
+    if (!initiative) {
+        return new Response(JSON.stringify({ error: 'Unknown initiative' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    // Warms the cached live data on a cold instance; renders never wait for a poll
+    startMonitoring();
+
+    const liveData = getCurrentData(initiative.id);
+    const svg = renderBadge({
+        label: url.searchParams.get('label')?.slice(0, 40) || 'signatures',
+        signatureCount: liveData?.signatureCount ?? null,
+        goal: liveData?.goal ?? initiative.goal
+    }, parseEmbedOptions(url));
+
+    return new Response(svg, {
+        headers: {
+            'Content-Type': 'image/svg+xml; charset=utf-8',
+            'Cache-Control': liveData ? EMBED_CACHE_CONTROL : EMBED_PENDING_CACHE_CONTROL
+        }
+    });
+};
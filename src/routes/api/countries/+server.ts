@@ -0,0 +1,53 @@
+// src/routes/api/countries/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { getSnapshotStore } from '$lib/server/store/index.js';
+import { getCurrentData } from '$lib/datamonitor.js';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { evaluateThresholds, latestCountryCounts, type CountryCount, type ThresholdProgress } from '$lib/countries.js';
+
+interface CountriesResponse extends ThresholdProgress {
+    initiative: string;
+}
+
+export const GET: RequestHandler = async ({ url }) => {
+    const initiative = resolveInitiative(url);
+
+    if (!initiative) {
+        return new Response(JSON.stringify({ error: 'Unknown initiative' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    try {
+        // What each country gained in the last 24 hours is its rate
+        const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+        const store = getSnapshotStore();
+        const dailyChanges: Record<string, number> = {};
+        for (const row of await store.countryGrowthSince(initiative.id, dayAgo)) {
+            dailyChanges[row.country_code] = row.signatures_added;
+        }
+
+        // Latest count per country: live data first, newest stored row otherwise
+        let latest: CountryCount[] = getCurrentData(initiative.id)?.countries || [];
+        if (latest.length === 0) {
+            latest = latestCountryCounts(await store.latestCountrySnapshots(initiative.id));
+        }
+
+        const response: CountriesResponse = {
+            initiative: initiative.id,
+            ...evaluateThresholds(latest, dailyChanges)
+        };
+
+        return new Response(JSON.stringify(response), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Country stats error:', error);
+        return new Response(JSON.stringify({ error: 'Failed to fetch country data' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+};
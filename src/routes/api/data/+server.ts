@@ -1,72 +1,213 @@
 // src/routes/api/data/+server.ts
 import type { RequestHandler } from './$types';
-import { subscribeToDataChanges, startMonitoring } from '$lib/datamonitor';
+import {
+    connectionClosed,
+    connectionOpened,
+    liveDataFromSnapshot,
+    startMonitoring,
+    subscribeToDataChanges,
+    subscribeToStatusChanges,
+    type LiveData
+} from '$lib/datamonitor';
+import { getInitiative, getInitiatives, type TrackedInitiative } from '$lib/initiatives';
+import { getSnapshotStore } from '$lib/server/store/index.js';
+import { getStats, type StatsResponse } from '$lib/stats.js';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '$lib/timebuckets.js';
 
-let connectionCount = 0;
-let monitoringStarted = false;
+// 📡 Server-sent events:
+//   snapshot  - a new signature count; `id` is its time in epoch ms
+//   stats     - changed fields of the initiative's stats
+//   status    - upstream went stale or recovered
+//   heartbeat - keeps proxies from closing the connection
+// Reconnecting clients send the last snapshot ID back (Last-Event-ID) and get
+// whatever they missed replayed from the snapshot store.
 
-export const GET: RequestHandler = async () => {
-    // Start monitoring on first connection
-    if (!monitoringStarted) {
-        console.log('🚀 Starting data monitoring...');
-        startMonitoring(1000);
-        monitoringStarted = true;
+const RETRY_MS = 5000;
+const HEARTBEAT_MS = 30000;
+const STATS_REFRESH_MS = 15000; // rates decay even when nothing new comes in
+const STATS_DEBOUNCE_MS = 1000;
+const MAX_REPLAY = 1000;
+
+const formatEvent = (event: string, data: unknown, id?: number) =>
+    `${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+const snapshotId = (data: LiveData) => new Date(data.observedAt).getTime();
+
+// Fields that differ from what this client was sent last
+function statsDelta(previous: StatsResponse | undefined, next: StatsResponse): Partial<StatsResponse> {
+    if (!previous) return next;
+
+    const delta: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(next)) {
+        if (JSON.stringify(value) !== JSON.stringify(previous[key as keyof StatsResponse])) {
+            delta[key] = value;
+        }
+    }
+    return delta as Partial<StatsResponse>;
+}
+
+// Snapshots stored after the client's last event, oldest first
+async function missedSnapshots(initiatives: TrackedInitiative[], lastEventId: number): Promise<LiveData[]> {
+    const store = getSnapshotStore();
+    const missed: LiveData[] = [];
+
+    for (const initiative of initiatives) {
+        const rows = await store.listSnapshots({
+            initiativeId: initiative.id,
+            from: new Date(lastEventId + 1),
+            limit: MAX_REPLAY
+        });
+        missed.push(...rows.map(row => liveDataFromSnapshot(row)));
+    }
+
+    return missed.sort((a, b) => snapshotId(a) - snapshotId(b));
+}
+
+export const GET: RequestHandler = async ({ url, request }) => {
+    // Optional filter - without it the stream carries every tracked initiative
+    const initiativeId = url.searchParams.get('initiative') || undefined;
+    if (initiativeId && !getInitiative(initiativeId)) {
+        return new Response(JSON.stringify({ error: `Unknown initiative: ${initiativeId}` }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+    const initiatives = initiativeId ? getInitiatives().filter(initiative => initiative.id === initiativeId) : getInitiatives();
+
+    // Timezone the pushed stats are computed in
+    const tz = url.searchParams.get('tz') || DEFAULT_TIMEZONE;
+    if (!isValidTimeZone(tz)) {
+        return new Response(JSON.stringify({ error: `Unknown timezone: ${tz}` }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+        });
     }
 
+    const lastEventHeader = request.headers.get('Last-Event-ID');
+    const lastEventId = lastEventHeader && /^\d+$/.test(lastEventHeader) ? Number(lastEventHeader) : null;
+
+    // Polls the EU API itself or follows the collector, depending on MONITOR_MODE
+    startMonitoring();
+
+    let cleanup: (() => void) | undefined;
+    let cancelled = false;
+
     return new Response(
         new ReadableStream({
-            start(controller) {
-                connectionCount++;
-                console.log(`📡 New frontend connected (${connectionCount} total)`);
-                
+            async start(controller) {
+                const connections = connectionOpened();
+                console.log(`📡 New frontend connected (${connections} total${lastEventId ? `, resuming after ${lastEventId}` : ''})`);
+
                 let isConnected = true;
-                
+                const lastSentIds = new Map<string, number>();
+                const sentStats = new Map<string, StatsResponse>();
+                const statsTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
                 // Send data safely, auto-cleanup on failure
                 const send = (data: string): boolean => {
                     if (!isConnected) return false;
-                    
+
                     try {
                         controller.enqueue(data);
                         return true;
                     } catch {
-                        cleanup();
+                        cancelled = true;
+                        cleanup?.();
                         return false;
                     }
                 };
-                
+
+                // Snapshots go out once and in order per initiative, live or replayed
+                const sendSnapshot = (data: LiveData) => {
+                    const id = snapshotId(data);
+                    if (id <= (lastSentIds.get(data.initiativeId) ?? lastEventId ?? 0)) return;
+
+                    if (send(formatEvent('snapshot', data, id))) {
+                        lastSentIds.set(data.initiativeId, id);
+                        scheduleStats(data.initiativeId);
+                    }
+                };
+
+                const pushStats = async (initiative: TrackedInitiative) => {
+                    try {
+                        const stats = await getStats(initiative, tz);
+                        const delta = statsDelta(sentStats.get(initiative.id), stats);
+                        if (Object.keys(delta).length === 0) return;
+
+                        if (send(formatEvent('stats', { initiative: initiative.id, stats: delta }))) {
+                            sentStats.set(initiative.id, stats);
+                        }
+                    } catch (error) {
+                        console.error(`[${initiative.id}] Failed to push stats:`, error);
+                    }
+                };
+
+                // Several snapshots in a row only trigger one recalculation
+                const scheduleStats = (id: string) => {
+                    const initiative = getInitiative(id);
+                    if (!initiative || statsTimers.has(id)) return;
+
+                    statsTimers.set(id, setTimeout(() => {
+                        statsTimers.delete(id);
+                        pushStats(initiative);
+                    }, STATS_DEBOUNCE_MS));
+                };
+
+                send(`retry: ${RETRY_MS}\n\n`);
+
+                // Catch up on what happened while the client was away
+                if (lastEventId !== null) {
+                    try {
+                        const missed = await missedSnapshots(initiatives, lastEventId);
+                        missed.forEach(sendSnapshot);
+                        console.log(`⏪ Replayed ${missed.length} missed snapshot(s)`);
+                    } catch (error) {
+                        console.error('Snapshot replay failed:', error);
+                    }
+                }
+
+                // Gone while we were replaying
+                if (cancelled) {
+                    connectionClosed();
+                    return;
+                }
+
+                // Subscribe to data updates (the current values come first)
+                const unsubscribe = subscribeToDataChanges(data => {
+                    sendSnapshot(data);
+                }, initiativeId);
+
+                // Tell the frontend when upstream goes stale or recovers
+                const unsubscribeStatus = subscribeToStatusChanges(status => {
+                    send(formatEvent('status', status));
+                }, initiativeId);
+
+                initiatives.forEach(pushStats);
+                const statsRefresh = setInterval(() => initiatives.forEach(pushStats), STATS_REFRESH_MS);
+
+                // Heartbeat to keep connection alive
+                const heartbeat = setInterval(() => {
+                    send(formatEvent('heartbeat', { timestamp: Date.now() }));
+                }, HEARTBEAT_MS);
+
                 // Cleanup everything
-                const cleanup = () => {
+                cleanup = () => {
                     if (!isConnected) return;
-                    
+
                     isConnected = false;
-                    connectionCount--;
-                    unsubscribe?.();
+                    const remaining = connectionClosed();
+                    unsubscribe();
+                    unsubscribeStatus();
                     clearInterval(heartbeat);
-                    
-                    console.log(`🧹 Connection cleaned up (${connectionCount} remaining)`);
+                    clearInterval(statsRefresh);
+                    statsTimers.forEach(timer => clearTimeout(timer));
+
+                    console.log(`🧹 Connection cleaned up (${remaining} remaining)`);
                 };
-                
-                // Subscribe to data updates
-                const unsubscribe = subscribeToDataChanges((newData: any) => {
-                    const success = send(`data: ${JSON.stringify({
-                        data: newData,
-                        timestamp: Date.now()
-                    })}\n\n`);
-                    
-                    if (success) {
-                        console.log('📤 Pushed update to frontend');
-                    }
-                });
-                
-                // Heartbeat to keep connection alive
-                const heartbeat = setInterval(() => {
-                    send(`data: ${JSON.stringify({
-                        type: 'heartbeat',
-                        timestamp: Date.now()
-                    })}\n\n`);
-                }, 30000);
-                
-                return cleanup;
+            },
+            cancel() {
+                cancelled = true;
+                cleanup?.();
             }
         }),
         {
@@ -77,4 +218,4 @@ export const GET: RequestHandler = async () => {
             }
         }
     );
-};
\ No newline at end of file
+};
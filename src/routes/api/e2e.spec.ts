@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { GET as getData } from './data/+server';
+import { GET as getExport } from './export/+server';
+import { GET as getHealth } from './health/+server';
+import { GET as getHistory } from './history/+server';
+import { GET as getAggregate } from './history/aggregate/+server';
+import { GET as getStats } from './stats/+server';
+import { getMonitorHealth, getUpstreamStatus, setUpstream, startMonitoring, stopMonitoring } from '$lib/datamonitor';
+import { SignatureSimulator } from '$lib/simulator';
+import { MemorySnapshotStore, getSnapshotStore, setSnapshotStore, type SignatureSnapshot } from '$lib/server/store/index';
+
+const SECOND = 1000;
+const START = new Date('2025-07-01T08:00:00Z').getTime();
+
+// Timeline in seconds: 2/s until 300, a burst of 3000 until 360, a stall until 540, 50
+// signatures taken back, 1/s until 600, a broken payload until 605, 503s until 665, 1/s until 965.
+// The monitor polls every 5 seconds.
+const simulator = new SignatureSimulator({
+	startCount: 100000,
+	goal: 200000,
+	steps: [
+		{ kind: 'steady', durationMs: 300 * SECOND, perMinute: 120 },
+		{ kind: 'burst', durationMs: 60 * SECOND, signatures: 3000 },
+		{ kind: 'stall', durationMs: 180 * SECOND },
+		{ kind: 'decrease', signatures: 50 },
+		{ kind: 'steady', durationMs: 60 * SECOND, perMinute: 60 },
+		{ kind: 'fault', durationMs: 5 * SECOND, fault: 'invalid-payload' },
+		{ kind: 'fault', durationMs: 60 * SECOND, fault: 'http-error' },
+		{ kind: 'steady', durationMs: 300 * SECOND, perMinute: 60 }
+	]
+}, { startedAt: START });
+
+const call = async (handler: (event: never) => Response | Promise<Response>, path: string) => {
+	const url = new URL(path, 'http://localhost');
+	return handler({ url, request: new Request(url) } as never);
+};
+
+const advanceTo = (seconds: number) => vi.advanceTimersByTimeAsync(START + seconds * SECOND - Date.now());
+
+async function history(): Promise<SignatureSnapshot[]> {
+	const response = await call(getHistory, '/api/history?hours=all');
+	return (await response.json()).data;
+}
+
+// Collects the SSE stream's events as they arrive
+function listen(response: Response) {
+	const events: { event: string; data: Record<string, unknown> }[] = [];
+	const reader = response.body!.getReader();
+
+	(async () => {
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) return;
+
+			for (const block of String(value).split('\n\n')) {
+				const event = block.match(/^event: (.*)$/m)?.[1];
+				const data = block.match(/^data: (.*)$/m)?.[1];
+				if (event && data) events.push({ event, data: JSON.parse(data) });
+			}
+		}
+	})();
+
+	return { events, close: () => reader.cancel() };
+}
+
+describe('monitor, store and API against the simulator', () => {
+	let stream: ReturnType<typeof listen>;
+
+	beforeAll(async () => {
+		vi.useFakeTimers({ now: START });
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		setSnapshotStore(new MemorySnapshotStore());
+		setUpstream(simulator.fetch);
+		startMonitoring(5 * SECOND, 'embedded');
+
+		stream = listen(await call(getData, '/api/data?tz=UTC'));
+	});
+
+	afterAll(async () => {
+		await stream.close();
+		await stopMonitoring();
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('stores every change and serves the rates', async () => {
+		await advanceTo(300);
+
+		const rows = await history();
+		const last = rows.at(-1)!;
+		expect(last.signature_count).toBe(100600);
+		expect(rows.every((row, i) => i === 0 || row.signature_count - rows[i - 1].signature_count === row.change_amount)).toBe(true);
+
+		const stats = await (await call(getStats, '/api/stats?tz=UTC')).json();
+		expect(stats.currentSignatures).toBe(100600);
+		expect(stats.goal).toBe(200000);
+		expect(stats.secRate).toBeCloseTo(2, 0);
+		expect(stats.minRate).toBeGreaterThan(110);
+		expect(stats.minRate).toBeLessThan(130);
+		expect(stats.activityLevel).toBe('High');
+	});
+
+	it('serves the legacy history bounded and marked deprecated', async () => {
+		const response = await call(getHistory, '/api/history?hours=24');
+		expect(response.headers.get('Deprecation')).toBe('true');
+		expect(response.headers.get('Link')).toBe('</api/v1/initiatives/045/history>; rel="successor-version"');
+		expect(await response.json()).toMatchObject({ truncated: false });
+
+		expect((await call(getHistory, '/api/history?hours=abc')).status).toBe(400);
+		expect((await call(getHistory, '/api/history?hours=-1')).status).toBe(400);
+	});
+
+	it('answers an export that has nothing to send, or fails to read, with an error status', async () => {
+		const csv = await call(getExport, '/api/export?format=csv');
+		expect(csv.status).toBe(200);
+		expect((await csv.text()).split('\n')[1]).toMatch(/^2025-07-01T08:00:00\.000Z,/);
+
+		expect((await call(getExport, '/api/export?to=2020-01-01T00:00:00Z')).status).toBe(404);
+
+		vi.spyOn(getSnapshotStore(), 'listSnapshots').mockRejectedValueOnce(new Error('connection reset'));
+		expect((await call(getExport, '/api/export?format=csv')).status).toBe(500);
+	});
+
+	it('refuses aggregate ranges too long to read', async () => {
+		const from = '2024-07-01T00:00:00Z';
+		expect((await call(getAggregate, `/api/history/aggregate?bucket=day&from=${from}`)).status).toBe(200);
+		// Half-hour offsets are read from minutes, which only go back so far
+		expect((await call(getAggregate, `/api/history/aggregate?bucket=day&tz=Asia/Kolkata&from=${from}`)).status).toBe(400);
+		expect((await call(getAggregate, '/api/history/aggregate?bucket=minute&from=2025-06-01T00:00:00Z')).status).toBe(400);
+	});
+
+	it('flags a count that goes down', async () => {
+		await advanceTo(602);
+
+		const decrease = (await history()).find(row => row.change_amount < 0);
+		expect(decrease).toMatchObject({ signature_count: 103550, change_amount: -50, anomaly: 'decrease' });
+		expect(getUpstreamStatus().lastError).toMatch(/Invalid signatureCount/);
+	});
+
+	it('goes stale while upstream fails, without storing anything', async () => {
+		await advanceTo(650);
+
+		const status = getUpstreamStatus();
+		expect(status.stale).toBe(true);
+		expect(status.lastError).toBe('HTTP 503');
+		expect(new Date((await history()).at(-1)!.timestamp).getTime()).toBeLessThan(START + 600 * SECOND);
+	});
+
+	it('recovers and catches up, live on the stream', async () => {
+		await advanceTo(1000);
+
+		expect(getUpstreamStatus().stale).toBe(false);
+		expect((await history()).at(-1)!.signature_count).toBe(103910);
+
+		const snapshots = stream.events.filter(event => event.event === 'snapshot');
+		expect(snapshots.at(-1)?.data.signatureCount).toBe(103910);
+		expect(snapshots.some(event => event.data.anomaly === 'decrease')).toBe(true);
+
+		const statuses = stream.events.filter(event => event.event === 'status').map(event => event.data.stale);
+		expect(statuses).toEqual([true, false]);
+		expect(stream.events.some(event => event.event === 'stats')).toBe(true);
+	});
+});
+
+describe('health before the first successful poll', () => {
+	beforeAll(() => {
+		vi.useFakeTimers({ now: START });
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		setSnapshotStore(new MemorySnapshotStore());
+		setUpstream(async () => new Response('Service Unavailable', { status: 503 }));
+	});
+
+	afterAll(async () => {
+		await stopMonitoring();
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('is idle until something starts the monitor, which it leaves alone', async () => {
+		const idle = await call(getHealth, '/api/health');
+		expect(idle.status).toBe(200);
+		expect((await idle.json()).status).toBe('idle');
+		expect(getMonitorHealth().startedAt).toBeNull();
+	});
+
+	it('is starting, then down once the grace period runs out', async () => {
+		startMonitoring(5 * SECOND, 'embedded');
+
+		const starting = await call(getHealth, '/api/health');
+		expect(starting.status).toBe(200);
+		expect((await starting.json()).status).toBe('starting');
+
+		await vi.advanceTimersByTimeAsync(60 * SECOND);
+		const down = await call(getHealth, '/api/health');
+		expect(down.status).toBe(503);
+		// Just the status - the details are for admins
+		expect(await down.json()).toEqual({ status: 'down', timestamp: Date.now() });
+	});
+
+	it('is ok after the first successful poll', async () => {
+		setUpstream(simulator.fetch);
+		await vi.advanceTimersByTimeAsync(70 * SECOND); // past the open circuit's cooldown
+
+		const ok = await call(getHealth, '/api/health');
+		expect(ok.status).toBe(200);
+		expect((await ok.json()).status).toBe('ok');
+	});
+});
@@ -0,0 +1,170 @@
+// src/routes/api/export/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { goalSourceOf } from '$lib/config.js';
+import { historyPages, parseDateParam, snapshotPages, type HistoryRow } from '$lib/history.js';
+import {
+    BUCKETS,
+    DEFAULT_TIMEZONE,
+    formatLocalTime,
+    isBucket,
+    isValidTimeZone,
+    streamBuckets,
+    type Bucket
+} from '$lib/timebuckets.js';
+
+type ExportFormat = 'csv' | 'ndjson';
+type ExportRecord = Record<string, string | number | null>;
+
+const RAW_COLUMNS = [
+    'timestamp', 'local_time', 'initiative_id', 'signature_count', 'change_amount',
+    'official_goal', 'goal_override', 'goal', 'goal_source', 'percent_of_goal'
+];
+
+const BUCKET_COLUMNS = [
+    'bucket_start', 'local_time', 'initiative_id', 'signatures_added', 'closing_total', 'samples',
+    'official_goal', 'goal_override', 'goal', 'goal_source', 'percent_of_goal'
+];
+
+const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+const badRequest = (error: string) => json({ error }, 400);
+
+const csvValue = (value: string | number | null) => {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const percentOf = (count: number, goal: number) =>
+    goal ? Math.round((count / goal) * 10000) / 100 : null;
+
+// Goal columns as recorded with the row - raw official goal and the override side by side
+const goalColumns = (row: HistoryRow, count: number): ExportRecord => ({
+    official_goal: row.official_goal,
+    goal_override: row.goal_override,
+    goal: row.goal,
+    goal_source: goalSourceOf(row),
+    percent_of_goal: percentOf(count, row.goal)
+});
+
+export const GET: RequestHandler = async ({ url }) => {
+    const initiative = resolveInitiative(url);
+
+    if (!initiative) return json({ error: 'Unknown initiative' }, 404);
+
+    const format = (url.searchParams.get('format') || 'csv') as ExportFormat;
+    const bucketParam = url.searchParams.get('bucket') || 'raw';
+    const tz = url.searchParams.get('tz') || DEFAULT_TIMEZONE;
+    const from = parseDateParam(url, 'from');
+    const to = parseDateParam(url, 'to');
+
+    if (format !== 'csv' && format !== 'ndjson') return badRequest('format must be csv or ndjson');
+    if (bucketParam !== 'raw' && !isBucket(bucketParam)) return badRequest(`bucket must be raw or one of: ${BUCKETS.join(', ')}`);
+    if (!isValidTimeZone(tz)) return badRequest(`Unknown timezone: ${tz}`);
+    if (from === null || to === null) return badRequest('from and to must be ISO 8601 dates');
+
+    const bucket = bucketParam as Bucket | 'raw';
+    const initiativeId = initiative.id;
+    const range = { from, to };
+
+    // Rows are produced lazily, one page of snapshots at a time
+    async function* records(): AsyncGenerator<ExportRecord> {
+        if (bucket === 'raw') {
+            for await (const page of snapshotPages(initiativeId, range)) {
+                for (const row of page) {
+                    yield {
+                        timestamp: new Date(row.timestamp).toISOString(),
+                        local_time: formatLocalTime(new Date(row.timestamp), tz),
+                        initiative_id: row.initiative_id,
+                        signature_count: row.signature_count,
+                        change_amount: row.change_amount,
+                        ...goalColumns(row, row.signature_count)
+                    };
+                }
+            }
+            return;
+        }
+
+        // Buckets are summed from rollups where the raw rows have been compacted away
+        const pages = historyPages(initiativeId, range, bucket === 'minute' ? 'minute' : 'hour');
+        for await (const { bucket: aggregated, last } of streamBuckets(pages, bucket, tz)) {
+            yield {
+                bucket_start: aggregated.start,
+                local_time: formatLocalTime(new Date(aggregated.start), tz),
+                initiative_id: initiativeId,
+                signatures_added: aggregated.signaturesAdded,
+                closing_total: aggregated.closingTotal,
+                samples: aggregated.samples,
+                ...goalColumns(last, aggregated.closingTotal)
+            };
+        }
+    }
+
+    const columns = bucket === 'raw' ? RAW_COLUMNS : BUCKET_COLUMNS;
+    const serialize = format === 'csv'
+        ? (record: ExportRecord) => columns.map(column => csvValue(record[column])).join(',') + '\n'
+        : (record: ExportRecord) => JSON.stringify(record) + '\n';
+
+    const iterator = records();
+
+    // Read the first row before answering, so a failed or empty read gets an error status
+    // instead of a 200 and a file that's cut short (or just a header)
+    let first: IteratorResult<ExportRecord>;
+    try {
+        first = await iterator.next();
+    } catch (error) {
+        console.error('Export error:', error);
+        return json({ error: 'Failed to export history' }, 500);
+    }
+    if (first.done) return json({ error: 'No snapshots in that range' }, 404);
+
+    const encoder = new TextEncoder();
+    let headerSent = format !== 'csv';
+    let pending: ExportRecord | null = first.value;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (!headerSent) {
+                headerSent = true;
+                controller.enqueue(encoder.encode(columns.join(',') + '\n'));
+                return;
+            }
+
+            if (pending) {
+                controller.enqueue(encoder.encode(serialize(pending)));
+                pending = null;
+                return;
+            }
+
+            try {
+                const { value, done } = await iterator.next();
+                if (done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(encoder.encode(serialize(value)));
+                }
+            } catch (error) {
+                console.error('Export failed mid-stream:', error);
+                controller.error(error);
+            }
+        },
+        async cancel() {
+            await iterator.return(undefined);
+        }
+    });
+
+    const filename = `signatures-${initiative.id}-${bucket}.${format}`;
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'Cache-Control': 'no-cache'
+        }
+    });
+};
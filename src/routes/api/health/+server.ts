@@ -0,0 +1,34 @@
+// src/routes/api/health/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { getMonitorHealth } from '$lib/datamonitor.js';
+import { loadPollerConfig } from '$lib/poller.js';
+
+// Nothing has come through for this long after starting = down, not still starting
+const { staleAfterMs: startupGraceMs } = loadPollerConfig();
+
+// Read-only and public, so just the status - the details (lease, errors) are on /api/admin/monitor.
+// idle: nothing has asked for data yet, so the monitor hasn't been started
+// starting: nothing polled, stored or received yet (down once that takes longer than the grace period)
+// ok: every upstream is fresh, degraded: some are stale, down: all are stale
+export const GET: RequestHandler = async () => {
+    const health = getMonitorHealth();
+    const staleCount = health.initiatives.filter(initiative => initiative.stale).length;
+
+    let status = 'ok';
+    if (!health.startedAt) {
+        status = 'idle';
+    } else if (!health.firstSuccessAt) {
+        const waitingMs = Date.now() - new Date(health.startedAt).getTime();
+        status = waitingMs > startupGraceMs ? 'down' : 'starting';
+    } else if (staleCount > 0) {
+        status = staleCount === health.initiatives.length ? 'down' : 'degraded';
+    }
+
+    return new Response(JSON.stringify({ status, timestamp: Date.now() }), {
+        status: status === 'down' ? 503 : 200,
+        headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': 'no-cache'
+        }
+    });
+};
@@ -1,46 +1,69 @@
 // src/routes/api/history/+server.ts
 import type { RequestHandler } from '@sveltejs/kit';
-import { supabase } from '$lib/supabase.js';
-import { applyGoalOverride } from '$lib/config.js';
+import { getSnapshotStore } from '$lib/server/store/index.js';
+import { MAX_HISTORY_PAGE } from '$lib/server/api/v1.js';
+import { goalSourceOf } from '$lib/config.js';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { parseDateParam } from '$lib/history.js';
+
+// ⚠️ Superseded by the paged /api/v1/initiatives/{id}/history - this one returns the newest
+// MAX_HISTORY_PAGE snapshots at most (oldest first), with `truncated` set when there may be more
+const json = (body: unknown, initiativeId: string | null, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: {
+            'Content-Type': 'application/json',
+            Deprecation: 'true',
+            ...(initiativeId && { Link: `</api/v1/initiatives/${initiativeId}/history>; rel="successor-version"` })
+        }
+    });
 
 export const GET: RequestHandler = async ({ url }) => {
     const hours = url.searchParams.get('hours');
+    const since = parseDateParam(url, 'from');
+    const initiative = resolveInitiative(url);
+
+    if (!initiative) {
+        return json({ error: 'Unknown initiative' }, null, 404);
+    }
+
+    if (since === null) {
+        return json({ error: 'from must be an ISO 8601 date' }, initiative.id, 400);
+    }
+
+    if (hours && hours !== 'all' && !(/^\d+$/.test(hours) && parseInt(hours) > 0)) {
+        return json({ error: 'hours must be a positive whole number or "all"' }, initiative.id, 400);
+    }
     
     try {
-        let query = supabase
-            .from('signature_snapshots')
-            .select('*')
-            .order('timestamp', { ascending: true });
-
-        // Only apply time filter if hours parameter is provided
-        if (hours && hours !== 'all') {
-            const hoursAgo = new Date(Date.now() - parseInt(hours) * 60 * 60 * 1000);
-            query = query.gte('timestamp', hoursAgo.toISOString());
-        }
-
-        const { data, error } = await query;
+        // Only apply time filter if hours parameter is provided - or `from`, when a client
+        // only needs what came after the newest snapshot it already has
+        const from = since ?? (hours && hours !== 'all'
+            ? new Date(Date.now() - parseInt(hours) * 60 * 60 * 1000)
+            : undefined);
 
-        if (error) {
-            throw error;
-        }
+        // Newest first, so a cut keeps the recent end
+        const data = await getSnapshotStore().listSnapshots({
+            initiativeId: initiative.id,
+            from,
+            order: 'desc',
+            limit: MAX_HISTORY_PAGE
+        });
 
-        // 🎯 Apply goal override to all historical data
-        const dataWithOverriddenGoals = data?.map(item => ({
+        // 🎯 Rows keep the goal they were recorded with - just say where it came from
+        const rows = data.reverse().map(item => ({
             ...item,
-            goal: applyGoalOverride({ goal: item.goal }).goal
-        })) || [];
-
-        return new Response(JSON.stringify({
-            data: dataWithOverriddenGoals,
-            count: dataWithOverriddenGoals.length
-        }), {
-            headers: { 'Content-Type': 'application/json' }
-        });
+            goal_source: goalSourceOf(item)
+        }));
+
+        return json({
+            initiative: initiative.id,
+            data: rows,
+            count: rows.length,
+            truncated: data.length === MAX_HISTORY_PAGE
+        }, initiative.id);
     } catch (error) {
         console.error('Database query error:', error);
-        return new Response(JSON.stringify({ error: 'Failed to fetch data' }), {
-            status: 500,
-            headers: { 'Content-Type': 'application/json' }
-        });
+        return json({ error: 'Failed to fetch data' }, initiative.id, 500);
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,89 @@
+// src/routes/api/history/aggregate/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { historyPages, parseDateParam } from '$lib/history.js';
+import {
+    BUCKETS,
+    BUCKET_MS,
+    BucketAggregator,
+    DEFAULT_TIMEZONE,
+    hasWholeHourOffset,
+    isBucket,
+    isValidTimeZone
+} from '$lib/timebuckets.js';
+
+// How many buckets to return when `from` is left out
+const DEFAULT_BUCKET_COUNT = 48;
+const MAX_BUCKET_COUNT = 2000;
+// Rollups read per request: about 34 days of minutes or 5 years of hours
+const MAX_ROLLUPS_READ = 50_000;
+
+const badRequest = (error: string) =>
+    new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+export const GET: RequestHandler = async ({ url }) => {
+    const initiative = resolveInitiative(url);
+
+    if (!initiative) {
+        return new Response(JSON.stringify({ error: 'Unknown initiative' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    const bucket = url.searchParams.get('bucket') || 'hour';
+    const tz = url.searchParams.get('tz') || DEFAULT_TIMEZONE;
+    const from = parseDateParam(url, 'from');
+    const to = parseDateParam(url, 'to');
+
+    if (!isBucket(bucket)) return badRequest(`bucket must be one of: ${BUCKETS.join(', ')}`);
+    if (!isValidTimeZone(tz)) return badRequest(`Unknown timezone: ${tz}`);
+    if (from === null || to === null) return badRequest('from and to must be ISO 8601 dates');
+
+    const rangeEnd = to ?? new Date();
+    const rangeStart = from ?? new Date(rangeEnd.getTime() - DEFAULT_BUCKET_COUNT * BUCKET_MS[bucket]);
+
+    const span = rangeEnd.getTime() - rangeStart.getTime();
+    if (span / BUCKET_MS[bucket] > MAX_BUCKET_COUNT) {
+        return badRequest(`Range too long: at most ${MAX_BUCKET_COUNT} ${bucket} buckets`);
+    }
+
+    // Hour rollups only line up with the hours of a whole-hour timezone; anywhere else (and
+    // for minute buckets) the buckets are built from minutes
+    const resolution = bucket !== 'minute' && hasWholeHourOffset(tz, rangeStart, rangeEnd) ? 'hour' : 'minute';
+    if (span / BUCKET_MS[resolution] > MAX_ROLLUPS_READ) {
+        const days = Math.floor(MAX_ROLLUPS_READ * BUCKET_MS[resolution] / BUCKET_MS.day);
+        return badRequest(`Range too long: at most ${days} days of ${bucket} buckets in ${tz}`);
+    }
+
+    try {
+        const aggregator = new BucketAggregator(bucket, tz);
+
+        for await (const page of historyPages(initiative.id, { from: rangeStart, to: rangeEnd }, resolution)) {
+            for (const row of page) aggregator.add(row);
+        }
+
+        const buckets = aggregator.result();
+
+        return new Response(JSON.stringify({
+            initiative: initiative.id,
+            bucket,
+            tz,
+            from: rangeStart.toISOString(),
+            to: rangeEnd.toISOString(),
+            data: buckets,
+            count: buckets.length
+        }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('History aggregation error:', error);
+        return new Response(JSON.stringify({ error: 'Failed to aggregate history' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+};
@@ -0,0 +1,22 @@
+// src/routes/api/initiatives/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { getInitiatives } from '$lib/initiatives.js';
+import { getCurrentData } from '$lib/datamonitor.js';
+
+// Registry of tracked initiatives plus their latest live count, for switching and comparing
+export const GET: RequestHandler = async () => {
+    const initiatives = getInitiatives().map(initiative => {
+        const liveData = getCurrentData(initiative.id);
+
+        return {
+            id: initiative.id,
+            title: initiative.title,
+            goal: liveData?.goal ?? initiative.goal,
+            signatureCount: liveData?.signatureCount ?? null
+        };
+    });
+
+    return new Response(JSON.stringify({ data: initiatives, count: initiatives.length }), {
+        headers: { 'Content-Type': 'application/json' }
+    });
+};
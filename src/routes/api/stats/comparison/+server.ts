@@ -0,0 +1,42 @@
+// src/routes/api/stats/comparison/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { loadHourlyBuckets } from '$lib/history.js';
+import { compareDays, comparisonDays } from '$lib/analytics.js';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '$lib/timebuckets.js';
+
+// Today vs. yesterday vs. the same weekday last week, hour by hour
+export const GET: RequestHandler = async ({ url }) => {
+    const initiative = resolveInitiative(url);
+
+    if (!initiative) {
+        return new Response(JSON.stringify({ error: 'Unknown initiative' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    const tz = url.searchParams.get('tz') || DEFAULT_TIMEZONE;
+    if (!isValidTimeZone(tz)) {
+        return new Response(JSON.stringify({ error: `Unknown timezone: ${tz}` }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    try {
+        const now = new Date();
+        const buckets = await loadHourlyBuckets(initiative.id, comparisonDays(now, tz).lastWeek, tz);
+        const days = compareDays(buckets, now, tz);
+
+        return new Response(JSON.stringify({ initiative: initiative.id, tz, data: days }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Day comparison error:', error);
+        return new Response(JSON.stringify({ error: 'Failed to compare days' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+};
@@ -0,0 +1,42 @@
+// src/routes/api/stats/events/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { getCurrentData } from '$lib/datamonitor.js';
+import { getSnapshotStore } from '$lib/server/store/index.js';
+import { findMilestones, loadAllTimeBuckets, parseTimelineEvents } from '$lib/analytics.js';
+
+// Milestones from the signature history, campaign annotations and configured events (press coverage and the like), oldest first
+export const GET: RequestHandler = async ({ url }) => {
+    const initiative = resolveInitiative(url);
+
+    if (!initiative) {
+        return new Response(JSON.stringify({ error: 'Unknown initiative' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    try {
+        const goal = getCurrentData(initiative.id)?.goal ?? initiative.goal;
+        const events = [
+            ...findMilestones(await loadAllTimeBuckets(initiative.id, 'UTC'), goal),
+            ...(await getSnapshotStore().listAnnotations({ initiativeId: initiative.id })).map(annotation => ({
+                at: annotation.timestamp,
+                kind: 'campaign' as const,
+                label: annotation.label,
+                signatures: null
+            })),
+            ...parseTimelineEvents(process.env.TIMELINE_EVENTS, initiative.id)
+        ].sort((a, b) => a.at.localeCompare(b.at));
+
+        return new Response(JSON.stringify({ initiative: initiative.id, goal, data: events, count: events.length }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Timeline events error:', error);
+        return new Response(JSON.stringify({ error: 'Failed to load events' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+};
@@ -0,0 +1,39 @@
+// src/routes/api/stats/heatmap/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { loadAllTimeBuckets, weekdayHourHeatmap } from '$lib/analytics.js';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '$lib/timebuckets.js';
+
+// Weekday × hour signatures across all history, on the timezone's wall clock
+export const GET: RequestHandler = async ({ url }) => {
+    const initiative = resolveInitiative(url);
+
+    if (!initiative) {
+        return new Response(JSON.stringify({ error: 'Unknown initiative' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    const tz = url.searchParams.get('tz') || DEFAULT_TIMEZONE;
+    if (!isValidTimeZone(tz)) {
+        return new Response(JSON.stringify({ error: `Unknown timezone: ${tz}` }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    try {
+        const heatmap = weekdayHourHeatmap(await loadAllTimeBuckets(initiative.id, tz), tz);
+
+        return new Response(JSON.stringify({ initiative: initiative.id, tz, ...heatmap }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Heatmap calculation error:', error);
+        return new Response(JSON.stringify({ error: 'Failed to calculate heatmap' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+};
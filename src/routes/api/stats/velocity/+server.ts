@@ -0,0 +1,60 @@
+// src/routes/api/stats/velocity/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { loadHourlyBuckets } from '$lib/history.js';
+import { rollingVelocity } from '$lib/analytics.js';
+import { BUCKET_MS } from '$lib/timebuckets.js';
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 90;
+const DEFAULT_WINDOW_HOURS = 24;
+const MAX_WINDOW_HOURS = 7 * 24;
+
+const badRequest = (error: string) =>
+    new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+    });
+
+// Signatures per hour over the last `days`, with a rolling average over `window` hours
+export const GET: RequestHandler = async ({ url }) => {
+    const initiative = resolveInitiative(url);
+
+    if (!initiative) {
+        return new Response(JSON.stringify({ error: 'Unknown initiative' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    const days = Number(url.searchParams.get('days') || DEFAULT_DAYS);
+    const windowHours = Number(url.searchParams.get('window') || DEFAULT_WINDOW_HOURS);
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) return badRequest(`days must be a whole number from 1 to ${MAX_DAYS}`);
+    if (!Number.isInteger(windowHours) || windowHours < 1 || windowHours > MAX_WINDOW_HOURS) {
+        return badRequest(`window must be a whole number of hours from 1 to ${MAX_WINDOW_HOURS}`);
+    }
+
+    try {
+        const now = new Date();
+        const from = new Date(now.getTime() - days * BUCKET_MS.day);
+        const buckets = await loadHourlyBuckets(initiative.id, new Date(from.getTime() - windowHours * BUCKET_MS.hour), 'UTC');
+        const points = rollingVelocity(buckets, from, now, windowHours);
+
+        return new Response(JSON.stringify({
+            initiative: initiative.id,
+            days,
+            window: windowHours,
+            data: points,
+            count: points.length
+        }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Velocity calculation error:', error);
+        return new Response(JSON.stringify({ error: 'Failed to calculate velocity' }), {
+            status: 500,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+};
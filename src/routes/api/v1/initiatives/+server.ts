@@ -0,0 +1,20 @@
+// src/routes/api/v1/initiatives/+server.ts
+import type { RequestHandler } from './$types';
+import type { InitiativeListV1 } from '$lib/api/types.js';
+import { getInitiatives } from '$lib/initiatives.js';
+import { startMonitoring } from '$lib/datamonitor.js';
+import { apiHandler, cachedJson } from '$lib/server/api/http.js';
+import { toInitiativeV1 } from '$lib/server/api/v1.js';
+
+export const GET: RequestHandler = apiHandler(async ({ request }) => {
+    startMonitoring();
+
+    const data = getInitiatives().map(toInitiativeV1);
+    const observed = data.flatMap(initiative => initiative.observedAt ? [new Date(initiative.observedAt).getTime()] : []);
+    const body: InitiativeListV1 = { data, count: data.length };
+
+    return cachedJson(request, body, {
+        maxAge: 5,
+        lastModified: observed.length > 0 ? new Date(Math.max(...observed)) : null
+    });
+});
@@ -0,0 +1,17 @@
+// src/routes/api/v1/initiatives/[id]/+server.ts
+import type { RequestHandler } from './$types';
+import { startMonitoring } from '$lib/datamonitor.js';
+import { apiHandler, cachedJson } from '$lib/server/api/http.js';
+import { requireInitiative, toInitiativeV1 } from '$lib/server/api/v1.js';
+
+export const GET: RequestHandler = apiHandler(async ({ params, request }) => {
+    const initiative = requireInitiative(params.id);
+    startMonitoring();
+
+    const body = toInitiativeV1(initiative);
+
+    return cachedJson(request, body, {
+        maxAge: 5,
+        lastModified: body.observedAt ? new Date(body.observedAt) : null
+    });
+});
@@ -0,0 +1,40 @@
+// src/routes/api/v1/initiatives/[id]/history/+server.ts
+import type { RequestHandler } from './$types';
+import type { HistoryPageV1 } from '$lib/api/types.js';
+import { getSnapshotStore } from '$lib/server/store/index.js';
+import { apiHandler, cachedJson } from '$lib/server/api/http.js';
+import { encodeCursor, parseParams } from '$lib/server/api/params.js';
+import { HISTORY_PARAMS, requireInitiative, toSnapshotV1 } from '$lib/server/api/v1.js';
+
+// Keyset-paged snapshots: follow nextCursor until it comes back null. Unlike offsets,
+// cursors don't shift when new snapshots are stored while a client is paging.
+export const GET: RequestHandler = apiHandler(async ({ params, url, request }) => {
+    const initiative = requireInitiative(params.id);
+    const { from, to, order, limit, cursor } = parseParams(url, HISTORY_PARAMS);
+
+    const rows = await getSnapshotStore().listSnapshots({
+        initiativeId: initiative.id,
+        from,
+        to,
+        order,
+        limit,
+        after: cursor
+    });
+
+    const last = rows[rows.length - 1];
+    const body: HistoryPageV1 = {
+        initiative: initiative.id,
+        data: rows.map(toSnapshotV1),
+        count: rows.length,
+        nextCursor: rows.length === limit ? encodeCursor(last) : null
+    };
+
+    // A page's content only changes when its newest snapshot does
+    const newest = rows.reduce<string | null>(
+        (latest, row) => !latest || row.timestamp > latest ? row.timestamp : latest, null);
+
+    return cachedJson(request, body, {
+        maxAge: 30,
+        lastModified: newest ? new Date(newest) : null
+    });
+});
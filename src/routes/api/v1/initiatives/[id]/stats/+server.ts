@@ -0,0 +1,18 @@
+// src/routes/api/v1/initiatives/[id]/stats/+server.ts
+import type { RequestHandler } from './$types';
+import { startMonitoring } from '$lib/datamonitor.js';
+import { getStats } from '$lib/stats.js';
+import { apiHandler, cachedJson } from '$lib/server/api/http.js';
+import { parseParams } from '$lib/server/api/params.js';
+import { STATS_PARAMS, requireInitiative, toStatsV1 } from '$lib/server/api/v1.js';
+
+// No Last-Modified: rates decay with time even when no new snapshot arrives, so only the ETag is reliable
+export const GET: RequestHandler = apiHandler(async ({ params, url, request }) => {
+    const initiative = requireInitiative(params.id);
+    const { tz } = parseParams(url, STATS_PARAMS);
+    startMonitoring();
+
+    const stats = await getStats(initiative, tz);
+
+    return cachedJson(request, toStatsV1(stats), { maxAge: 5 });
+});
@@ -0,0 +1,7 @@
+// src/routes/api/v1/openapi.json/+server.ts
+import type { RequestHandler } from './$types';
+import { buildOpenApiDocument } from '$lib/server/api/openapi.js';
+import { cachedJson } from '$lib/server/api/http.js';
+
+export const GET: RequestHandler = async ({ url, request }) =>
+    cachedJson(request, buildOpenApiDocument(url.origin), { maxAge: 3600 });
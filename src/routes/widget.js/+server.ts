@@ -0,0 +1,37 @@
+// src/routes/widget.js/+server.ts
+import type { RequestHandler } from '@sveltejs/kit';
+import { WIDGET_DIMENSIONS } from '$lib/embed.js';
+
+// Script snippet for partners - drops the widget iframe where the tag sits:
+// <script src="https://<host>/widget.js" data-initiative="045" data-theme="dark"
+//         data-locale="de-DE" data-size="small" async></script>
+export const GET: RequestHandler = async ({ url }) => {
+    const script = `(function () {
+    var script = document.currentScript;
+    if (!script) return;
+    var dimensions = ${JSON.stringify(WIDGET_DIMENSIONS)};
+    var params = new URLSearchParams();
+    ['initiative', 'theme', 'locale', 'size'].forEach(function (name) {
+        var value = script.getAttribute('data-' + name);
+        if (value) params.set(name, value);
+    });
+    var size = dimensions[params.get('size')] || dimensions.medium;
+    var frame = document.createElement('iframe');
+    frame.src = ${JSON.stringify(`${url.origin}/widget`)} + '?' + params.toString();
+    frame.title = 'Live signature count';
+    frame.width = String(size.width);
+    frame.height = String(size.height);
+    frame.loading = 'lazy';
+    frame.style.border = '0';
+    frame.style.overflow = 'hidden';
+    script.parentNode.insertBefore(frame, script);
+})();
+`;
+
+    return new Response(script, {
+        headers: {
+            'Content-Type': 'text/javascript; charset=utf-8',
+            'Cache-Control': 'public, max-age=3600, s-maxage=86400'
+        }
+    });
+};
@@ -0,0 +1,25 @@
+// src/routes/widget/+page.server.ts
+import { error } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { resolveInitiative } from '$lib/initiatives.js';
+import { getCurrentData, startMonitoring } from '$lib/datamonitor.js';
+import { EMBED_CACHE_CONTROL, EMBED_PENDING_CACHE_CONTROL, parseEmbedOptions } from '$lib/embed.js';
+
+// Compact, iframe-able progress view for partner sites; see /widget.js for the snippet
+export const load: PageServerLoad = async ({ url, setHeaders }) => {
+    const initiative = resolveInitiative(url);
+    if (!initiative) error(404, 'Unknown initiative');
+
+    startMonitoring();
+    const liveData = getCurrentData(initiative.id);
+
+    // Served from the CDN, first paint and every refresh after it alike
+    setHeaders({ 'Cache-Control': liveData ? EMBED_CACHE_CONTROL : EMBED_PENDING_CACHE_CONTROL });
+
+    return {
+        initiative: { id: initiative.id, title: initiative.title },
+        signatureCount: liveData?.signatureCount ?? null,
+        goal: liveData?.goal ?? initiative.goal,
+        options: parseEmbedOptions(url)
+    };
+};
@@ -0,0 +1,76 @@
+// src/service-worker.ts
+/// <reference no-default-lib="true"/>
+/// <reference lib="esnext" />
+/// <reference lib="webworker" />
+/// <reference types="@sveltejs/kit" />
+import { build, files, version } from '$service-worker';
+
+// 📴 Makes the dashboard installable and lets it open offline: the app shell is cached on
+// install, pages and API reads are fetched fresh and fall back to their last good copy.
+// The live stream, exports and the admin console always go to the network, history has its
+// own cache in IndexedDB (src/lib/historycache.ts), and nothing marked private or no-store is kept.
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+const CACHE = `cache-${version}`;
+const ASSETS = [...build, ...files];
+const NETWORK_ONLY = ['/api/data', '/api/export', '/api/admin', '/api/history', '/admin'];
+const V1_HISTORY = /^\/api\/v1\/initiatives\/[^/]+\/history$/;
+
+sw.addEventListener('install', event => {
+    event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(ASSETS)).then(() => sw.skipWaiting()));
+});
+
+// Drop the caches of older versions
+sw.addEventListener('activate', event => {
+    event.waitUntil((async () => {
+        for (const key of await caches.keys()) {
+            if (key !== CACHE) await caches.delete(key);
+        }
+        await sw.clients.claim();
+    })());
+});
+
+const cacheable = (response: Response) =>
+    response.status === 200 && !/\b(no-store|private)\b/i.test(response.headers.get('Cache-Control') ?? '');
+
+async function networkFirst(request: Request): Promise<Response> {
+    const cache = await caches.open(CACHE);
+
+    try {
+        const response = await fetch(request);
+        if (cacheable(response)) cache.put(request, response.clone());
+        return response;
+    } catch (error) {
+        // Offline: the last good copy, or the dashboard for any page we never saw
+        const cached = await cache.match(request) ?? (request.mode === 'navigate' ? await cache.match('/') : undefined);
+        if (cached) return cached;
+        throw error;
+    }
+}
+
+sw.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    if (url.origin !== sw.location.origin || NETWORK_ONLY.some(path => url.pathname.startsWith(path)) || V1_HISTORY.test(url.pathname)) return;
+
+    // Built files never change under the same name
+    if (ASSETS.includes(url.pathname)) {
+        event.respondWith(caches.match(url.pathname).then(cached => cached ?? fetch(request)));
+        return;
+    }
+
+    event.respondWith(networkFirst(request));
+});
+
+// A milestone notification brings the dashboard back
+sw.addEventListener('notificationclick', event => {
+    event.notification.close();
+    event.waitUntil((async () => {
+        const [client] = await sw.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        if (client) await client.focus();
+        else await sw.clients.openWindow('/');
+    })());
+});
@@ -0,0 +1,53 @@
+// src/simulator.ts
+import 'dotenv/config';
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { DEMO_SCENARIO, SignatureSimulator, recordedScenario, type Scenario } from './lib/simulator.js';
+
+// 🧪 Serves a simulated ECI progression API for local runs. Start with `npm run simulator`,
+// then run the app with ECI_BASE_URL=http://localhost:4010. SIMULATOR_SCENARIO is a JSON
+// scenario (see src/lib/simulator.ts) or a recording: a raw NDJSON export or /api/history
+// response. Without one the demo scenario plays. SIMULATOR_SPEED="60" plays an hour a minute.
+
+const PROGRESSION_PATH = /^\/[^/]+\/public\/api\/report\/progression$/;
+
+function loadScenario(path: string | undefined): Scenario {
+    if (!path) return DEMO_SCENARIO;
+
+    const text = readFileSync(path, 'utf8');
+    let parsed;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        // One snapshot per line: an NDJSON export
+        return recordedScenario(text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line)));
+    }
+
+    if (Array.isArray(parsed.data)) return recordedScenario(parsed.data);
+    return Array.isArray(parsed.steps) ? parsed : recordedScenario([parsed]);
+}
+
+const port = Number(process.env.SIMULATOR_PORT) || 4010;
+const speed = Number(process.env.SIMULATOR_SPEED) || 1;
+const simulator = new SignatureSimulator(loadScenario(process.env.SIMULATOR_SCENARIO), { speed });
+
+createServer((request, response) => {
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+    if (!PROGRESSION_PATH.test(path)) {
+        response.writeHead(404).end();
+        return;
+    }
+
+    simulator.requests++;
+    const simulated = simulator.respond();
+
+    // A timeout: hold the connection until the client gives up
+    if (!simulated) return;
+
+    response.writeHead(simulated.status, {
+        'Content-Type': simulated.status === 200 ? 'application/json' : 'text/plain'
+    });
+    response.end(simulated.body);
+}).listen(port, () => {
+    console.log(`🧪 Simulating the ECI API on http://localhost:${port} at ${speed}x speed`);
+});
@@ -5,7 +5,10 @@ import { vitePreprocess } from '@sveltejs/vite-plugin-svelte';
 const config = {
 	preprocess: vitePreprocess(),
 	kit: { 
-		adapter: adapter() // Use default config to avoid symlink issues
+		adapter: adapter(), // Use default config to avoid symlink issues
+		// Registered by the dashboard only (src/routes/+page.svelte), so partner sites embedding
+		// /widget don't install it and precache the whole app
+		serviceWorker: { register: false }
 	}
 };
 
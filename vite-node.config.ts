@@ -0,0 +1,4 @@
+// vite-node.config.ts
+// For `npm run collector` and `npm run simulator`: plain Node scripts that need none of the
+// SvelteKit and Tailwind plugins in vite.config.ts, which a production install leaves out
+export default {};